@@ -0,0 +1,6 @@
+import { Stack } from 'expo-router';
+
+/** Screens for signed-out users; the root layout only offers them without a session */
+export default function AuthLayout() {
+  return <Stack screenOptions={{ headerShown: false }} />;
+}
@@ -0,0 +1,412 @@
+import * as AppleAuthentication from 'expo-apple-authentication';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { CheckEmail, EmailSentKind } from '@/components/CheckEmail';
+import { PasswordChecklist } from '@/components/PasswordChecklist';
+import {
+  emailProblem,
+  isStrongPassword,
+  OAuthProvider,
+  resendVerification,
+  sendMagicLink,
+  sendPasswordReset,
+  signInWithPassword,
+  signInWithProvider,
+  signUp,
+} from '../../lib/auth';
+
+type Mode = 'signIn' | 'signUp' | 'magicLink' | 'forgot';
+
+const SUBTITLES: Record<Mode, string> = {
+  signIn: 'Welcome back',
+  signUp: 'Create your account',
+  magicLink: "We'll email you a link to sign in, no password needed",
+  forgot: "Enter your email and we'll send you a link to reset your password",
+};
+
+const SUBMIT_LABELS: Record<Mode, string> = {
+  signIn: 'Sign In',
+  signUp: 'Sign Up',
+  magicLink: 'Email Me a Link',
+  forgot: 'Send Reset Link',
+};
+
+export default function LoginScreen() {
+  const [mode, setMode] = useState<Mode>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [oauthLoading, setOauthLoading] = useState<OAuthProvider | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Only flag the email once the user has tried to submit it
+  const [emailTouched, setEmailTouched] = useState(false);
+  const [sent, setSent] = useState<{ kind: EmailSentKind; email: string } | null>(null);
+  const [appleNative, setAppleNative] = useState(false);
+
+  useEffect(() => {
+    if (Platform.OS === 'ios') AppleAuthentication.isAvailableAsync().then(setAppleNative);
+  }, []);
+
+  const busy = loading || oauthLoading != null;
+  const emailError = emailTouched ? emailProblem(email) : null;
+  const needsPassword = mode === 'signIn' || mode === 'signUp';
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError(null);
+    setPassword('');
+  };
+
+  const submit = async () => {
+    setEmailTouched(true);
+    setError(null);
+    if (emailProblem(email)) return;
+    if (needsPassword && !password) {
+      setError('Enter your password');
+      return;
+    }
+    if (mode === 'signUp' && !isStrongPassword(password)) {
+      setError('Choose a password that meets every rule below');
+      return;
+    }
+
+    setLoading(true);
+    if (mode === 'signIn' || mode === 'signUp') {
+      const { data, error: authErr } = await (mode === 'signIn' ? signInWithPassword : signUp)(email, password);
+      if (authErr) setError(authErr.message);
+      // Otherwise the session change swaps this screen for the app
+      else if (!data.verified) setSent({ kind: 'verify', email });
+    } else {
+      const { error: sendErr } = await (mode === 'magicLink' ? sendMagicLink : sendPasswordReset)(email);
+      if (sendErr) setError(sendErr.message);
+      else setSent({ kind: mode === 'magicLink' ? 'magic' : 'reset', email });
+    }
+    setLoading(false);
+  };
+
+  const continueWith = async (provider: OAuthProvider) => {
+    setError(null);
+    setOauthLoading(provider);
+    const { error: oauthErr } = await signInWithProvider(provider);
+    setOauthLoading(null);
+    if (oauthErr) setError(oauthErr.message);
+  };
+
+  const resend = () => {
+    const address = sent!.email;
+    if (sent!.kind === 'verify') return resendVerification(address);
+    return sent!.kind === 'magic' ? sendMagicLink(address) : sendPasswordReset(address);
+  };
+
+  return (
+    <KeyboardAvoidingView 
+      style={styles.container} 
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scroll} keyboardShouldPersistTaps="handled">
+        <View style={styles.formContainer}>
+          {sent ? (
+            <CheckEmail
+              kind={sent.kind}
+              email={sent.email}
+              onResend={resend}
+              onBack={() => {
+                setSent(null);
+                switchMode('signIn');
+              }}
+            />
+          ) : (
+            <>
+              <Text style={styles.title}>Welcome to Your Mood Journal</Text>
+              <Text style={styles.subtitle}>{SUBTITLES[mode]}</Text>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>Email</Text>
+                <TextInput
+                  value={email}
+                  onChangeText={setEmail}
+                  onBlur={() => email && setEmailTouched(true)}
+                  placeholder="Enter your email"
+                  placeholderTextColor="#999"
+                  style={[styles.input, emailError ? styles.inputInvalid : null]}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoComplete="email"
+                  textContentType="emailAddress"
+                  editable={!busy}
+                />
+                {emailError && <Text style={styles.fieldError}>{emailError}</Text>}
+              </View>
+
+              {needsPassword && (
+                <View style={styles.inputContainer}>
+                  <Text style={styles.label}>Password</Text>
+                  <TextInput
+                    value={password}
+                    onChangeText={setPassword}
+                    placeholder={mode === 'signUp' ? 'Choose a password' : 'Enter your password'}
+                    placeholderTextColor="#999"
+                    style={styles.input}
+                    secureTextEntry
+                    autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+                    textContentType={mode === 'signUp' ? 'newPassword' : 'password'}
+                    editable={!busy}
+                  />
+                  {mode === 'signUp' && <PasswordChecklist password={password} />}
+                  {mode === 'signIn' && (
+                    <TouchableOpacity style={styles.forgotButton} onPress={() => switchMode('forgot')} disabled={busy}>
+                      <Text style={styles.linkText}>Forgot password?</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+
+              {error && (
+                <View style={styles.errorContainer}>
+                  <Text style={styles.errorText}>{error}</Text>
+                </View>
+              )}
+
+              <TouchableOpacity
+                style={[styles.button, busy && styles.buttonDisabled]}
+                onPress={submit}
+                disabled={busy}
+              >
+                <Text style={styles.buttonText}>
+                  {loading ? 'Loading...' : SUBMIT_LABELS[mode]}
+                </Text>
+              </TouchableOpacity>
+
+              {mode === 'signIn' && (
+                <TouchableOpacity style={styles.switchButton} onPress={() => switchMode('magicLink')} disabled={busy}>
+                  <Text style={styles.switchText}>Email me a sign-in link instead</Text>
+                </TouchableOpacity>
+              )}
+              {(mode === 'magicLink' || mode === 'forgot') && (
+                <TouchableOpacity style={styles.switchButton} onPress={() => switchMode('signIn')} disabled={busy}>
+                  <Text style={styles.switchText}>Back to sign in with password</Text>
+                </TouchableOpacity>
+              )}
+
+              <View style={styles.divider}>
+                <View style={styles.dividerLine} />
+                <Text style={styles.dividerText}>or</Text>
+                <View style={styles.dividerLine} />
+              </View>
+
+              {appleNative ? (
+                <AppleAuthentication.AppleAuthenticationButton
+                  buttonType={AppleAuthentication.AppleAuthenticationButtonType.CONTINUE}
+                  buttonStyle={AppleAuthentication.AppleAuthenticationButtonStyle.BLACK}
+                  cornerRadius={12}
+                  style={styles.appleButton}
+                  onPress={() => !busy && continueWith('apple')}
+                />
+              ) : (
+                <TouchableOpacity
+                  style={[styles.oauthButton, styles.oauthApple]}
+                  onPress={() => continueWith('apple')}
+                  disabled={busy}
+                >
+                  {oauthLoading === 'apple' ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={[styles.oauthText, styles.oauthAppleText]}>Continue with Apple</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.oauthButton} onPress={() => continueWith('google')} disabled={busy}>
+                {oauthLoading === 'google' ? (
+                  <ActivityIndicator color="#374151" />
+                ) : (
+                  <Text style={styles.oauthText}>Continue with Google</Text>
+                )}
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.switchButton}
+                onPress={() => switchMode(mode === 'signUp' ? 'signIn' : 'signUp')}
+                disabled={busy}
+              >
+                <Text style={styles.switchText}>
+                  {mode === 'signUp' 
+                    ? 'Already have an account? Sign In' 
+                    : "Don't have an account? Sign Up"
+                  }
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f0fff0',
+  },
+  scroll: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  formContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+    color: '#2d3748',
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 32,
+    color: '#666',
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    color: '#374151',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: '#f9fafb',
+  },
+  inputInvalid: {
+    borderColor: '#f87171',
+  },
+  fieldError: {
+    color: '#dc2626',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  forgotButton: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
+  linkText: {
+    color: '#3b82f6',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    borderColor: '#fecaca',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  errorText: {
+    color: '#b91c1c',
+    fontSize: 14,
+  },
+  button: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 8,
+    shadowColor: '#3b82f6',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  buttonDisabled: {
+    backgroundColor: '#9ca3af',
+    shadowOpacity: 0,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  switchButton: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  switchText: {
+    color: '#3b82f6',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  divider: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 20,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: '#e5e7eb',
+  },
+  dividerText: {
+    marginHorizontal: 12,
+    color: '#9ca3af',
+    fontSize: 13,
+  },
+  appleButton: {
+    height: 50,
+    marginBottom: 12,
+  },
+  oauthButton: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    height: 50,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  oauthApple: {
+    backgroundColor: '#000',
+    borderColor: '#000',
+  },
+  oauthText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  oauthAppleText: {
+    color: '#fff',
+  },
+});
@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -7,6 +7,8 @@ import {
     Keyboard,
     KeyboardAvoidingView,
     Modal,
+    NativeScrollEvent,
+    NativeSyntheticEvent,
     Platform,
     Pressable,
     RefreshControl,
@@ -19,78 +21,165 @@ import {
     TouchableWithoutFeedback,
     View,
 } from 'react-native';
-import { supabase } from '../../lib/supabase';
-
-type FoodEntry = {
-  id: string;
-  food_name: string;
-  calories: number | null;
-  meal_type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  rating: number | null;
-  notes: string | null;
-  created_at: string | null;
-  user_id: string;
-};
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { ProgressRing } from '@/components/charts/ProgressRing';
+import { HydrationCard } from '@/components/HydrationCard';
+import { PhotoPicker } from '@/components/PhotoPicker';
+import { PhotoStrip } from '@/components/PhotoStrip';
+import { QuickLogStrip } from '@/components/QuickLogStrip';
+import { UndoBar } from '@/components/UndoBar';
+import { useEntryList } from '@/hooks/useEntryList';
+import { useEntryPhotos } from '@/hooks/useEntryPhotos';
+import { useHydration } from '@/hooks/useHydration';
+import { useMealCategories } from '@/hooks/useMealCategories';
+import { usePendingEntries } from '@/hooks/useOutbox';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useProfile } from '@/hooks/useProfile';
+import type { ScanPrefill } from '../../lib/barcode';
+import { Beverage, FoodEntry, MealType, useRepository } from '../../lib/data';
+import {
+  categoryFor,
+  countMeals,
+  DEFAULT_MEAL_CATEGORIES,
+  inferMealType,
+  mealCountsOf,
+} from '../../lib/mealCategories';
+import {
+  addMacros,
+  EMPTY_MACROS,
+  entryMacros,
+  FoodItem,
+  formatMacros,
+  formatVolume,
+  goalsFromProfile,
+  goalStatus,
+  hasGoals,
+  hydrationTotals,
+  HydrationTotals,
+  Macros,
+  NUTRIENTS,
+  nutritionFor,
+  searchFoods,
+  Serving,
+  totalsByDay,
+  waterGoalFromProfile,
+} from '../../lib/nutrition';
+import { discardOutboxItem, enqueue, retryOutboxItem } from '../../lib/outbox';
+import { PreparedPhoto, queuePhotos, removeEntryPhotos } from '../../lib/photos';
+import { formatDateTime } from '../../lib/preferences';
+import { sanitizeInput } from '../../lib/sanitize';
+import { useSession } from '../../lib/session';
+import { FoodSuggestion, SUGGESTION_HISTORY_DAYS, suggestFoods } from '../../lib/suggestions';
+import { addDays, dateKey, startOfDay } from '../../lib/trends';
+
+// Entries still in the local outbox are shown alongside the synced ones
+type ListFoodEntry = FoodEntry & { pending?: boolean; syncError?: string | null; syncFailed?: boolean };
 
-type NutritionInfo = {
-  name: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
+type DailySummary = {
+  totalCalories: number;
+  totalMacros: Macros;
+  /** Entries per meal category key */
+  mealCounts: Record<string, number>;
+  /** Null when none of today's entries are rated */
+  averageRating: number | null;
+  hydration: HydrationTotals;
 };
 
-const FOOD_TABLE = 'food_entries';
-
-// Mock nutrition database
-const NUTRITION_DB: { [key: string]: NutritionInfo } = {
-  'apple': { name: 'Apple', calories: 95, protein: 0.5, carbs: 25, fat: 0.3 },
-  'banana': { name: 'Banana', calories: 105, protein: 1.3, carbs: 27, fat: 0.4 },
-  'chicken breast': { name: 'Chicken Breast (100g)', calories: 165, protein: 31, carbs: 0, fat: 3.6 },
-  'rice': { name: 'Rice (1 cup)', calories: 205, protein: 4.3, carbs: 45, fat: 0.4 },
-  'broccoli': { name: 'Broccoli (1 cup)', calories: 25, protein: 3, carbs: 5, fat: 0.3 },
-  'salmon': { name: 'Salmon (100g)', calories: 208, protein: 20, carbs: 0, fat: 12 },
-  'bread': { name: 'Bread (1 slice)', calories: 80, protein: 3, carbs: 15, fat: 1 },
-  'egg': { name: 'Egg (1 large)', calories: 70, protein: 6, carbs: 0.6, fat: 5 },
-  'pasta': { name: 'Pasta (1 cup)', calories: 220, protein: 8, carbs: 44, fat: 1.1 },
-  'yogurt': { name: 'Greek Yogurt (1 cup)', calories: 130, protein: 20, carbs: 9, fat: 0 },
+type EntryMacros = Omit<Macros, 'calories'>;
+
+const calculateDailySummary = (entries: FoodEntry[], drinks: Beverage[], timeZone: string): DailySummary => {
+  const today = dateKey(new Date(), timeZone);
+  const todayEntries = entries.filter(e => 
+    e.created_at && dateKey(new Date(e.created_at), timeZone) === today
+  );
+  // The hydration hook only loads today's drinks
+  const hydration = hydrationTotals(drinks);
+
+  const totalCalories = todayEntries.reduce((sum, entry) => sum + (entry.calories || 0), 0);
+  const totalMacros = todayEntries.reduce((sum, entry) => addMacros(sum, entryMacros(entry)), EMPTY_MACROS);
+  const mealCounts = mealCountsOf(todayEntries);
+  
+  // Quick logs and recipes are saved without a rating, so they don't count
+  const ratings = todayEntries.flatMap(entry => (entry.rating != null ? [entry.rating] : []));
+  const averageRating = ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null;
+
+  return { totalCalories, totalMacros, mealCounts, averageRating, hydration };
 };
 
 export default function FoodScreen() {
   const [foodName, setFoodName] = useState<string>('');
   const [calories, setCalories] = useState<string>('');
-  const [mealType, setMealType] = useState<'breakfast' | 'lunch' | 'dinner' | 'snack'>('breakfast');
+  const [mealType, setMealType] = useState<MealType>(() => inferMealType(DEFAULT_MEAL_CATEGORIES));
+  // Once the user picks a meal type themselves, stop following the clock
+  const mealTypePicked = useRef(false);
   const [rating, setRating] = useState<string>('3');
   const [notes, setNotes] = useState<string>('');
+  const [photos, setPhotos] = useState<PreparedPhoto[]>([]);
+  // A parked outbox entry being corrected in the form
+  const [fixingId, setFixingId] = useState<string | null>(null);
+  // Macros come from the food database; manual entries have none
+  const [macros, setMacros] = useState<EntryMacros | null>(null);
   
-  const [items, setItems] = useState<FoodEntry[]>([]);
-  const [loading, setLoading] = useState(false);
+  const { food } = useRepository();
   const [inserting, setInserting] = useState(false);
-  const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [userId, setUserId] = useState<string | null>(null);
+  const { userId } = useSession();
+  const foodNameRef = useRef<TextInput>(null);
   
   // Feature 2: Nutrition lookup modal
   const [showNutritionModal, setShowNutritionModal] = useState(false);
-  const [nutritionResults, setNutritionResults] = useState<NutritionInfo[]>([]);
+  const [nutritionQuery, setNutritionQuery] = useState('');
+  const [expandedFood, setExpandedFood] = useState<FoodItem | null>(null);
+  const nutritionResults = useMemo(() => searchFoods(nutritionQuery), [nutritionQuery]);
   
+  const { categories } = useMealCategories();
+  useEffect(() => {
+    if (!mealTypePicked.current) setMealType(inferMealType(categories));
+  }, [categories]);
+
+  const pickMealType = (key: MealType) => {
+    mealTypePicked.current = true;
+    setMealType(key);
+  };
+
   // Feature 3: Daily summary
   const [showSummary, setShowSummary] = useState(false);
-  const [dailySummary, setDailySummary] = useState<{
-    totalCalories: number;
-    mealCounts: { breakfast: number; lunch: number; dinner: number; snack: number };
-    averageRating: number;
-  } | null>(null);
-
-  // Security fix: Sanitize input to prevent XSS
-  const sanitizeInput = (input: string): string => {
-    return input.replace(/[<>&"']/g, '').trim();
-  };
+  const [weekEntries, setWeekEntries] = useState<FoodEntry[]>([]);
+
+  const { profile } = useProfile();
+  const { timeZone, units } = usePreferences();
+  const goals = useMemo(() => goalsFromProfile(profile), [profile]);
+  const waterGoal = waterGoalFromProfile(profile);
+
+  // Feature 4: Barcode scan results arrive as a route param from /food/scan
+  const { prefill, focus, summary } = useLocalSearchParams<{ prefill?: string; focus?: string; summary?: string }>();
+  useEffect(() => {
+    if (!prefill) return;
+    try {
+      const { food_name, calories: scannedCalories, ...scannedMacros }: ScanPrefill = JSON.parse(prefill);
+      setFoodName(sanitizeInput(food_name));
+      setCalories(String(scannedCalories));
+      setMacros(scannedMacros);
+    } catch {
+      setError('Could not read the scanned product');
+    }
+    router.setParams({ prefill: undefined });
+  }, [prefill]);
+
+  // Opened from a reminder: focus the form, or show the day's summary
+  useEffect(() => {
+    if (!userId || (!focus && !summary)) return;
+    if (focus) foodNameRef.current?.focus();
+    if (summary) setShowSummary(true);
+    router.setParams({ focus: undefined, summary: undefined });
+  }, [focus, summary, userId]);
 
   // Handle food name changes with sanitization
   const handleFoodNameChange = (text: string) => {
     const sanitized = sanitizeInput(text);
     setFoodName(sanitized);
+    // Typed names no longer match the looked-up nutrition
+    setMacros(null);
   };
 
   // Handle notes changes with sanitization
@@ -99,69 +188,113 @@ export default function FoodScreen() {
     setNotes(sanitized);
   };
 
-  // Get current user ID
-  useEffect(() => {
-    const getCurrentUser = async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      setUserId(user?.id || null);
-    };
-    getCurrentUser();
-  }, []);
+  const {
+    items,
+    total,
+    loading,
+    refreshing,
+    loadingMore,
+    error: listError,
+    refresh: fetchItems,
+    loadMore,
+  } = useEntryList(food, !!userId);
 
-  const fetchItems = useCallback(async () => {
-    if (!userId) return;
-    
-    setRefreshing(true);
-    setError(null);
+  // Refresh when coming back from the detail screen after an edit or delete
+  const hasFocused = useRef(false);
+  useFocusEffect(useCallback(() => {
+    if (hasFocused.current) fetchItems();
+    hasFocused.current = true;
+  }, [fetchItems]));
 
-    const { data, error: qErr } = await supabase
-      .from(FOOD_TABLE)
-      .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(50)
-      .returns<FoodEntry[]>();
+  const pending = usePendingEntries('food', fetchItems);
+  const hydration = useHydration(userId);
 
-    if (qErr) setError(qErr.message);
-    setItems(data ?? []);
-    
-    // Calculate daily summary
-    if (data) {
-      calculateDailySummary(data);
-    }
-    
-    setRefreshing(false);
-  }, [userId]);
+  const listItems = useMemo<ListFoodEntry[]>(() => {
+    const queued: ListFoodEntry[] = pending
+      .filter((it) => it.payload.user_id === userId)
+      .map((it) => ({
+        ...(it.payload as Omit<FoodEntry, 'id'>),
+        id: it.id,
+        pending: true,
+        syncError: it.lastError,
+        syncFailed: it.failed,
+      }));
+    const queuedIds = new Set(queued.map((it) => it.id));
+    return [...queued, ...items.filter((it) => !queuedIds.has(it.id))];
+  }, [pending, items, userId]);
 
-  const calculateDailySummary = (entries: FoodEntry[]) => {
-    const today = new Date().toDateString();
-    const todayEntries = entries.filter(e => 
-      e.created_at && new Date(e.created_at).toDateString() === today
-    );
+  const entryIds = useMemo(() => listItems.map((it) => it.id), [listItems]);
+  const { photos: entryPhotos } = useEntryPhotos('food', entryIds);
 
-    const totalCalories = todayEntries.reduce((sum, entry) => sum + (entry.calories || 0), 0);
-    const mealCounts = {
-      breakfast: todayEntries.filter(e => e.meal_type === 'breakfast').length,
-      lunch: todayEntries.filter(e => e.meal_type === 'lunch').length,
-      dinner: todayEntries.filter(e => e.meal_type === 'dinner').length,
-      snack: todayEntries.filter(e => e.meal_type === 'snack').length,
-    };
-    
-    const ratingsSum = todayEntries.reduce((sum, entry) => sum + (entry.rating || 0), 0);
-    const averageRating = todayEntries.length > 0 ? ratingsSum / todayEntries.length : 0;
+  // Server-side count plus whatever is still waiting in the outbox
+  const pendingCount = listItems.length - items.length;
+  const totalCount = total != null ? total + pendingCount : listItems.length;
 
-    setDailySummary({ totalCalories, mealCounts, averageRating });
-  };
+  // The latest page may not hold all of today's entries, so today's totals load their own range.
+  // Reloaded with the list, which refreshes after syncs, edits and deletes
+  const [todayEntries, setTodayEntries] = useState<FoodEntry[]>([]);
+  useEffect(() => {
+    if (!userId) return;
+    const from = startOfDay(new Date(), timeZone);
+    food.listRange({ from, to: addDays(from, 1, timeZone) }).then(({ data, error: rangeErr }) => {
+      if (rangeErr) setError(rangeErr.message);
+      else setTodayEntries(data);
+    });
+  }, [userId, food, timeZone, items]);
+
+  // Daily summary includes entries that haven't synced yet
+  const dailySummary = useMemo(() => {
+    const synced = new Set(todayEntries.map((it) => it.id));
+    const entries = [...todayEntries, ...listItems.filter((it) => it.pending && !synced.has(it.id))];
+    return entries.length > 0 || hydration.entries.length > 0
+      ? calculateDailySummary(entries, hydration.entries, timeZone)
+      : null;
+  }, [todayEntries, listItems, hydration.entries, timeZone]);
 
+  const todayTotals = dailySummary?.totalMacros ?? EMPTY_MACROS;
+  const remainingCalories = goals.calories != null ? goals.calories - todayTotals.calories : null;
+
+  // The latest page may not reach back a full week, so the summary loads its own range
   useEffect(() => {
-    if (userId) {
-      (async () => {
-        setLoading(true);
-        await fetchItems();
-        setLoading(false);
-      })();
+    if (!showSummary) return;
+    const to = new Date();
+    const from = addDays(to, -6, timeZone);
+    food.listRange({ from, to }).then(({ data, error: rangeErr }) => {
+      if (rangeErr) setError(rangeErr.message);
+      else setWeekEntries(data);
+    });
+  }, [showSummary, food, timeZone]);
+
+  // Feature 5: Quick re-log. The list only holds the latest page, so rank over a longer history too
+  const [history, setHistory] = useState<FoodEntry[]>([]);
+  useFocusEffect(useCallback(() => {
+    if (!userId) return;
+    const to = new Date();
+    const from = new Date(to.getTime() - SUGGESTION_HISTORY_DAYS * 86_400_000);
+    food.listRange({ from, to }).then(({ data }) => {
+      if (data) setHistory(data);
+    });
+  }, [userId, food]));
+
+  const suggestions = useMemo(() => {
+    const seen = new Set(history.map((it) => it.id));
+    return suggestFoods([...history, ...listItems.filter((it) => !seen.has(it.id))]);
+  }, [history, listItems]);
+
+  const lastWeek = useMemo(() => {
+    const synced = new Set(weekEntries.map((it) => it.id));
+    const entries = [...weekEntries, ...listItems.filter((it) => it.pending && !synced.has(it.id))];
+    return totalsByDay(entries, 7, new Date(), timeZone);
+  }, [weekEntries, listItems, timeZone]);
+
+  // The entry list sits inside the page's ScrollView, so page in older
+  // entries when the outer scroll nears the bottom
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y >= contentSize.height - 400) {
+      loadMore();
     }
-  }, [fetchItems, userId]);
+  };
 
   // Feature 1: Food logging with meal type and rating
   const addFoodEntry = async () => {
@@ -198,88 +331,160 @@ export default function FoodScreen() {
       return;
     }
 
-    const { error: insErr } = await supabase
-      .from(FOOD_TABLE)
-      .insert({ 
+    try {
+      const entry = {
         food_name: trimmedName,
         calories: caloriesNumber,
         meal_type: mealType,
         rating: ratingNumber,
         notes: notes.trim() || null,
+        protein: macros?.protein ?? null,
+        carbs: macros?.carbs ?? null,
+        fat: macros?.fat ?? null,
+        fiber: macros?.fiber ?? null,
         user_id: userId
-      });
+      };
+      let entryId: string;
+      if (fixingId) {
+        // Fixed in place: keeping the id keeps the photos that already uploaded attached
+        await retryOutboxItem(fixingId, entry);
+        entryId = fixingId;
+        setFixingId(null);
+      } else {
+        // Written to the device first; the outbox pushes it once we're online
+        entryId = (await enqueue('food', entry)).id;
+      }
+      // Photos upload separately so a slow connection never holds up the entry
+      await queuePhotos('food', entryId, userId, photos);
 
-    if (insErr) {
-      setError(insErr.message);
-    } else {
       Alert.alert(
         "Food Logged!",
-        `${trimmedName} (${caloriesNumber} cal) added to ${mealType}`
+        `${trimmedName} (${caloriesNumber} cal) added to ${categoryFor(categories, mealType).label}`
       );
       setFoodName('');
       setCalories('');
       setNotes('');
+      setMacros(null);
+      setPhotos([]);
+    } catch (queueErr) {
+      setError(queueErr instanceof Error ? queueErr.message : 'Could not log food entry');
     }
-    
-    await fetchItems();
+
     setInserting(false);
   };
 
-  // Feature 2: Nutrition lookup
-  const searchNutrition = () => {
-    const query = foodName.toLowerCase().trim();
-    if (!query) {
-      Alert.alert('Search', 'Enter a food name to search nutrition info');
+  const quickLog = async ({ entry }: FoodSuggestion) => {
+    if (!userId) {
+      setError('User not authenticated');
       return;
     }
+    const quickMealType = inferMealType(categories);
+    setInserting(true);
+    setError(null);
+    try {
+      await enqueue('food', {
+        food_name: entry.food_name,
+        calories: entry.calories,
+        meal_type: quickMealType,
+        rating: null,
+        notes: null,
+        protein: entry.protein,
+        carbs: entry.carbs,
+        fat: entry.fat,
+        fiber: entry.fiber,
+        user_id: userId
+      });
+      Alert.alert('Food Logged!', `${entry.food_name} (${entry.calories ?? 0} cal) added to ${categoryFor(categories, quickMealType).label}`);
+    } catch (queueErr) {
+      setError(queueErr instanceof Error ? queueErr.message : 'Could not log food entry');
+    }
+    setInserting(false);
+  };
 
-    const results = Object.values(NUTRITION_DB).filter(food =>
-      food.name.toLowerCase().includes(query)
-    );
-
-    setNutritionResults(results);
+  // Feature 2: Nutrition lookup
+  const searchNutrition = () => {
+    setNutritionQuery(foodName.trim());
+    setExpandedFood(null);
     setShowNutritionModal(true);
   };
 
-  const selectNutritionItem = (nutrition: NutritionInfo) => {
-    setFoodName(nutrition.name);
-    setCalories(nutrition.calories.toString());
+  const selectNutritionItem = (item: FoodItem, serving: Serving) => {
+    const { calories: servingCalories, ...servingMacros } = nutritionFor(item, serving);
+    const name = `${item.name} (${serving.label})`.slice(0, 100);
+    setFoodName(name);
+    setCalories(servingCalories.toString());
+    setMacros(servingMacros);
     setShowNutritionModal(false);
     Alert.alert(
       'Nutrition Info Applied!',
-      `${nutrition.name}: ${nutrition.calories} cal, ${nutrition.protein}g protein, ${nutrition.carbs}g carbs, ${nutrition.fat}g fat`
+      `${name}: ${servingCalories} cal, ${formatMacros(servingMacros)}`
     );
   };
 
-  const renderFoodItem = ({ item }: { item: FoodEntry }) => {
-    const when = item.created_at ? new Date(item.created_at).toLocaleString() : '';
-    const mealEmoji = {
-      breakfast: '🌅',
-      lunch: '☀️',
-      dinner: '🌙',
-      snack: '🍿'
-    }[item.meal_type];
+  const renderFoodItem = ({ item }: { item: ListFoodEntry }) => {
+    const when = item.created_at ? formatDateTime(item.created_at, timeZone) : '';
+    const meal = categoryFor(categories, item.meal_type);
     
     const ratingStars = '⭐'.repeat(item.rating || 0);
 
     const onPressRow = () => {
-      const safeNotes = item.notes ? sanitizeInput(item.notes) : '';
-      Alert.alert(
-        `${mealEmoji} ${item.food_name}`,
-        `${when}\n\nMeal: ${item.meal_type}\nCalories: ${item.calories || 'Not specified'}\nRating: ${ratingStars} (${item.rating}/5)${safeNotes ? `\n\nNotes: ${safeNotes}` : ''}`,
-        [{ text: 'OK' }]
-      );
+      if (item.syncFailed) {
+        Alert.alert('Couldn’t save entry', `${item.syncError ?? 'The server rejected it.'} Edit it and save again, or discard it.`, [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: async () => {
+              if (fixingId === item.id) setFixingId(null);
+              await discardOutboxItem(item.id);
+              await removeEntryPhotos('food', item.id);
+            },
+          },
+          {
+            // Back into the form; saving fixes the entry in place, with its photos
+            text: 'Edit',
+            onPress: () => {
+              setFixingId(item.id);
+              setFoodName(item.food_name);
+              setCalories(item.calories != null ? String(item.calories) : '');
+              pickMealType(item.meal_type);
+              if (item.rating != null) setRating(String(item.rating));
+              setNotes(item.notes ?? '');
+              setMacros(item.protein != null
+                ? { protein: item.protein, carbs: item.carbs ?? 0, fat: item.fat ?? 0, fiber: item.fiber ?? 0 }
+                : null);
+              setPhotos([]);
+              foodNameRef.current?.focus();
+            },
+          },
+        ]);
+        return;
+      }
+      if (item.pending) {
+        Alert.alert('Still syncing', 'This entry can be edited once it has been saved to the server.');
+        return;
+      }
+      router.push({ pathname: '/food/[id]', params: { id: item.id } });
     };
 
     return (
       <Pressable onPress={onPressRow} style={({ pressed }) => [styles.row, pressed && { backgroundColor: '#f0f0f0' }]}>
         <View style={styles.rowHeader}>
-          <Text style={styles.rowText}>{mealEmoji} {item.food_name}</Text>
+          <Text style={styles.rowText}>{meal.emoji} {item.food_name}</Text>
           <Text style={styles.caloriesBadge}>{item.calories || 0} cal</Text>
         </View>
-        <Text style={styles.rowMeta}>{when} • {item.meal_type}</Text>
-        <Text style={styles.rowMeta}>{ratingStars} ({item.rating}/5)</Text>
+        <Text style={styles.rowMeta}>{when} • {meal.label}</Text>
+        {item.rating != null && <Text style={styles.rowMeta}>{ratingStars} ({item.rating}/5)</Text>}
+        {item.pending && (
+          <Text style={styles.pendingText}>
+            {item.syncFailed
+              ? '⚠️ Couldn’t sync – tap to fix or discard'
+              : item.syncError ? '⏳ Pending – will retry sync' : '⏳ Pending sync'}
+          </Text>
+        )}
+        {item.protein != null && <Text style={styles.rowMeta}>{formatMacros(item)}</Text>}
         {item.notes && <Text style={styles.notesText}>📝 {sanitizeInput(item.notes)}</Text>}
+        <PhotoStrip photos={entryPhotos[item.id]} />
       </Pressable>
     );
   };
@@ -306,6 +511,15 @@ return (
           style={styles.container}
           contentContainerStyle={{ flexGrow: 1 }}
           keyboardShouldPersistTaps="handled"
+          onScroll={handleScroll}
+          scrollEventThrottle={200}
+          refreshControl={
+            <RefreshControl 
+              refreshing={refreshing} 
+              onRefresh={fetchItems}
+              tintColor="#0066cc"
+            />
+          }
         >
           <View style={styles.container}>
             <Text style={styles.title}>Food Tracker</Text>
@@ -319,12 +533,67 @@ return (
               <TouchableOpacity style={styles.featureButton} onPress={() => setShowSummary(true)}>
                 <Text style={styles.featureButtonText}>📊 Daily Summary</Text>
               </TouchableOpacity>
+              <TouchableOpacity style={styles.featureButton} onPress={() => router.push('/food/summary')}>
+                <Text style={styles.featureButtonText}>📅 History</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.featureButton} onPress={() => router.push('/recipes')}>
+                <Text style={styles.featureButtonText}>🍲 Recipes</Text>
+              </TouchableOpacity>
             </View>
 
+            {/* Daily Goals */}
+            {hasGoals(goals) ? (
+              <View style={styles.goalsContainer}>
+                <View style={styles.goalsHeader}>
+                  <Text style={styles.goalsTitle}>Today&apos;s Goals</Text>
+                  {remainingCalories != null && (
+                    <Text style={[styles.remaining, remainingCalories < 0 && styles.remainingOver]}>
+                      {remainingCalories >= 0
+                        ? `${remainingCalories} cal left`
+                        : `${-remainingCalories} cal over`}
+                    </Text>
+                  )}
+                </View>
+                <View style={styles.rings}>
+                  {NUTRIENTS.map(({ key, label, unit, color }) => {
+                    const goal = goals[key];
+                    if (goal == null) return null;
+                    return (
+                      <ProgressRing
+                        key={key}
+                        value={todayTotals[key]}
+                        goal={goal}
+                        label={label}
+                        unit={unit}
+                        color={color}
+                        size={56}
+                        strokeWidth={6}
+                      />
+                    );
+                  })}
+                </View>
+              </View>
+            ) : (
+              <TouchableOpacity onPress={() => router.push('/profile')}>
+                <Text style={styles.setGoalsLink}>🎯 Set daily calorie and macro goals in your profile</Text>
+              </TouchableOpacity>
+            )}
+
+            <HydrationCard
+              entries={hydration.entries}
+              totals={hydration.totals}
+              goalMl={waterGoal}
+              onAdd={hydration.add}
+              onRemove={(entry) => hydration.remove(entry.id)}
+            />
+
+            <QuickLogStrip suggestions={suggestions} onSelect={quickLog} disabled={inserting} />
+
             {/* Food Entry Form */}
             <View style={styles.formContainer}>
               <View style={styles.formRow}>
                 <TextInput
+                  ref={foodNameRef}
                   value={foodName}
                   onChangeText={handleFoodNameChange}
                   placeholder="Food name (e.g., Apple, Chicken breast)"
@@ -336,6 +605,14 @@ return (
                   onSubmitEditing={Keyboard.dismiss}
                   blurOnSubmit={true}
                 />
+                <TouchableOpacity
+                  style={styles.scanButton}
+                  onPress={() => router.push('/food/scan')}
+                  disabled={inserting}
+                  accessibilityLabel="Scan barcode"
+                >
+                  <Text style={styles.scanButtonText}>📷</Text>
+                </TouchableOpacity>
                 <TextInput
                   value={calories}
                   onChangeText={setCalories}
@@ -351,23 +628,32 @@ return (
                 />
               </View>
               
+              {macros && (
+                <View style={styles.macrosRow}>
+                  <Text style={styles.macrosText}>{formatMacros(macros)}</Text>
+                  <TouchableOpacity onPress={() => setMacros(null)} disabled={inserting}>
+                    <Text style={styles.macrosClear}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
               {/* Meal Type Selection */}
               <View style={styles.mealTypeRow}>
-                <Text style={styles.mealLabel}>Meal Type:</Text>
+                <View style={styles.mealLabelRow}>
+                  <Text style={styles.mealLabel}>Meal Type:</Text>
+                  <TouchableOpacity onPress={() => router.push('/meal-categories')}>
+                    <Text style={styles.mealManage}>⚙️ Categories</Text>
+                  </TouchableOpacity>
+                </View>
                 <View style={styles.mealButtons}>
-                  {[
-                    { key: 'breakfast', emoji: '🌅', label: 'Breakfast' },
-                    { key: 'lunch', emoji: '☀️', label: 'Lunch' },
-                    { key: 'dinner', emoji: '🌙', label: 'Dinner' },
-                    { key: 'snack', emoji: '🍿', label: 'Snack' }
-                  ].map(meal => (
+                  {categories.map(meal => (
                     <TouchableOpacity
                       key={meal.key}
                       style={[
                         styles.mealButton,
                         mealType === meal.key && styles.mealButtonActive
                       ]}
-                      onPress={() => setMealType(meal.key as any)}
+                      onPress={() => pickMealType(meal.key)}
                       disabled={inserting}
                     >
                       <Text style={styles.mealEmoji}>{meal.emoji}</Text>
@@ -418,23 +704,31 @@ return (
                 onSubmitEditing={Keyboard.dismiss}
               />
 
+              {fixingId && <Text style={styles.fixingHint}>Photos already attached stay with the entry.</Text>}
+              <PhotoPicker photos={photos} onChange={setPhotos} disabled={inserting} />
+
               <Button
-                title={inserting ? 'Logging Food...' : 'Log Food Entry'}
+                title={inserting ? 'Logging Food...' : fixingId ? 'Save Changes' : 'Log Food Entry'}
                 onPress={addFoodEntry}
                 disabled={inserting || !foodName.trim()}
                 color="#0066cc"
               />
+              {fixingId && (
+                <TouchableOpacity onPress={() => setFixingId(null)} disabled={inserting}>
+                  <Text style={styles.cancelFix}>Cancel editing</Text>
+                </TouchableOpacity>
+              )}
             </View>
 
-            {error && (
+            {(error || listError || hydration.error) && (
               <View style={styles.errorContainer}>
-                <Text style={styles.error}>⚠️ {error}</Text>
+                <Text style={styles.error}>⚠️ {error || listError || hydration.error}</Text>
               </View>
             )}
 
             <View style={styles.entriesHeader}>
               <Text style={styles.entriesTitle}>Recent Food Entries</Text>
-              <Text style={styles.entriesCount}>({items.length} total)</Text>
+              <Text style={styles.entriesCount}>({totalCount} total)</Text>
             </View>
 
             {loading ? (
@@ -444,15 +738,12 @@ return (
               </View>
             ) : (
               <FlatList
-                data={items}
+                data={listItems}
                 keyExtractor={(it) => it.id}
                 renderItem={renderFoodItem}
-                refreshControl={
-                  <RefreshControl 
-                    refreshing={refreshing} 
-                    onRefresh={fetchItems}
-                    tintColor="#0066cc"
-                  />
+                scrollEnabled={false}
+                ListFooterComponent={
+                  loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#0066cc" /> : null
                 }
                 ListEmptyComponent={
                   <View style={styles.emptyContainer}>
@@ -462,7 +753,7 @@ return (
                   </View>
                 }
                 style={styles.list}
-                contentContainerStyle={items.length === 0 ? { flex: 1 } : {}}
+                contentContainerStyle={listItems.length === 0 ? { flex: 1 } : {}}
               />
             )}
 
@@ -470,28 +761,58 @@ return (
             <Modal visible={showNutritionModal} transparent animationType="slide">
               <View style={styles.modalOverlay}>
                 <View style={styles.modalContent}>
-                  <Text style={styles.modalTitle}>Nutrition Search Results</Text>
+                  <Text style={styles.modalTitle}>Nutrition Search</Text>
+                  <TextInput
+                    value={nutritionQuery}
+                    onChangeText={(text) => {
+                      setNutritionQuery(sanitizeInput(text));
+                      setExpandedFood(null);
+                    }}
+                    placeholder="Search foods (e.g., chicken, oatmeal)"
+                    placeholderTextColor="#727272ff"
+                    style={styles.searchInput}
+                    autoFocus
+                    returnKeyType="search"
+                  />
                   
                   {nutritionResults.length > 0 ? (
                     <FlatList
                       data={nutritionResults}
-                      keyExtractor={(item) => item.name}
+                      keyExtractor={(item) => String(item.id)}
+                      keyboardShouldPersistTaps="handled"
                       renderItem={({ item }) => (
                         <TouchableOpacity 
                           style={styles.nutritionItem}
-                          onPress={() => selectNutritionItem(item)}
+                          onPress={() => setExpandedFood(expandedFood?.id === item.id ? null : item)}
                         >
                           <Text style={styles.nutritionName}>{item.name}</Text>
                           <Text style={styles.nutritionDetails}>
-                            {item.calories} cal • {item.protein}g protein • {item.carbs}g carbs • {item.fat}g fat
+                            Per 100 g: {item.per100g.calories} cal • {formatMacros(item.per100g)}
                           </Text>
+                          {expandedFood?.id === item.id && (
+                            <View style={styles.servingList}>
+                              {item.servings.map((serving) => (
+                                <TouchableOpacity
+                                  key={serving.label}
+                                  style={styles.servingButton}
+                                  onPress={() => selectNutritionItem(item, serving)}
+                                >
+                                  <Text style={styles.servingText}>
+                                    {serving.label} ({serving.grams} g) • {nutritionFor(item, serving).calories} cal
+                                  </Text>
+                                </TouchableOpacity>
+                              ))}
+                            </View>
+                          )}
                         </TouchableOpacity>
                       )}
                       style={styles.nutritionList}
                     />
                   ) : (
                     <Text style={styles.noResults}>
-                      No nutrition data found. Try searching for common foods like apple or chicken.
+                      {nutritionQuery
+                        ? 'No nutrition data found. Try a simpler name like apple or chicken.'
+                        : 'Type a food name to search the nutrition database.'}
                     </Text>
                   )}
                   
@@ -508,33 +829,85 @@ return (
                 <View style={styles.modalContent}>
                   <Text style={styles.modalTitle}>Food Summary for Today</Text>
                   
+                  <ScrollView style={styles.summaryScroll}>
                   {dailySummary ? (
-                    <ScrollView style={styles.summaryScroll}>
+                    <>
                       <View style={styles.summarySection}>
                         <Text style={styles.summaryLabel}>Total Calories</Text>
                         <Text style={styles.summaryValue}>{dailySummary.totalCalories} cal</Text>
                       </View>
+
+                      <View style={styles.summarySection}>
+                        <Text style={styles.summaryLabel}>Hydration</Text>
+                        <Text style={styles.summaryValue}>
+                          {formatVolume(dailySummary.hydration.waterMl, units)} / {formatVolume(waterGoal, units)}
+                        </Text>
+                        <View style={styles.mealCounts}>
+                          <Text style={styles.mealCount}>🥤 Drinks: {dailySummary.hydration.drinks}</Text>
+                          <Text style={styles.mealCount}>☕ Caffeinated: {dailySummary.hydration.caffeinated}</Text>
+                          <Text style={styles.mealCount}>🍷 Alcoholic: {dailySummary.hydration.alcoholic}</Text>
+                        </View>
+                      </View>
                       
                       <View style={styles.summarySection}>
-                        <Text style={styles.summaryLabel}>Meals Today</Text>
+                        <Text style={styles.summaryLabel}>Macros</Text>
                         <View style={styles.mealCounts}>
-                          <Text style={styles.mealCount}>🌅 Breakfast: {dailySummary.mealCounts.breakfast}</Text>
-                          <Text style={styles.mealCount}>☀️ Lunch: {dailySummary.mealCounts.lunch}</Text>
-                          <Text style={styles.mealCount}>🌙 Dinner: {dailySummary.mealCounts.dinner}</Text>
-                          <Text style={styles.mealCount}>🍿 Snacks: {dailySummary.mealCounts.snack}</Text>
+                          <Text style={styles.mealCount}>🥩 Protein: {dailySummary.totalMacros.protein} g</Text>
+                          <Text style={styles.mealCount}>🍞 Carbs: {dailySummary.totalMacros.carbs} g</Text>
+                          <Text style={styles.mealCount}>🧈 Fat: {dailySummary.totalMacros.fat} g</Text>
+                          <Text style={styles.mealCount}>🌾 Fiber: {dailySummary.totalMacros.fiber} g</Text>
                         </View>
                       </View>
                       
                       <View style={styles.summarySection}>
-                        <Text style={styles.summaryLabel}>Average Rating</Text>
-                        <Text style={styles.summaryValue}>
-                          {'⭐'.repeat(Math.round(dailySummary.averageRating))} ({dailySummary.averageRating.toFixed(1)}/5)
-                        </Text>
+                        <Text style={styles.summaryLabel}>Meals Today</Text>
+                        <View style={styles.mealCounts}>
+                          {countMeals(categories, dailySummary.mealCounts).map(meal => (
+                            <Text key={meal.key} style={styles.mealCount}>{meal.emoji} {meal.label}: {meal.count}</Text>
+                          ))}
+                        </View>
                       </View>
-                    </ScrollView>
+                      
+                      {dailySummary.averageRating != null && (
+                        <View style={styles.summarySection}>
+                          <Text style={styles.summaryLabel}>Average Rating</Text>
+                          <Text style={styles.summaryValue}>
+                            {'⭐'.repeat(Math.round(dailySummary.averageRating))} ({dailySummary.averageRating.toFixed(1)}/5)
+                          </Text>
+                        </View>
+                      )}
+                    </>
                   ) : (
                     <Text style={styles.noData}>No food entries for today</Text>
                   )}
+
+                  {goals.calories != null && (
+                    <View style={styles.summarySection}>
+                      <Text style={styles.summaryLabel}>Last 7 Days (goal {goals.calories} cal)</Text>
+                      {lastWeek.map((day) => {
+                        const status = goalStatus(day, 'calories', goals.calories as number);
+                        const diff = Math.abs(day.totals.calories - (goals.calories as number));
+                        return (
+                          <View key={day.key} style={styles.weekRow}>
+                            <Text style={styles.weekDay}>
+                              {day.date.toLocaleDateString(undefined, { weekday: 'short', month: 'numeric', day: 'numeric', timeZone })}
+                            </Text>
+                            <Text style={styles.weekCalories}>{day.totals.calories} cal</Text>
+                            <Text
+                              style={[
+                                styles.weekStatus,
+                                status === 'over' && styles.weekOver,
+                                status === 'under' && styles.weekUnder,
+                              ]}
+                            >
+                              {status === 'empty' ? '—' : status === 'over' ? `▲ ${diff} over` : `▼ ${diff} under`}
+                            </Text>
+                          </View>
+                        );
+                      })}
+                    </View>
+                  )}
+                  </ScrollView>
                   
                   <TouchableOpacity style={styles.closeButton} onPress={() => setShowSummary(false)}>
                     <Text style={styles.closeButtonText}>Close</Text>
@@ -546,6 +919,7 @@ return (
         </ScrollView>
       </TouchableWithoutFeedback>
     </KeyboardAvoidingView>
+    <UndoBar onUndone={fetchItems} />
   </SafeAreaView>
 );
 }
@@ -573,11 +947,13 @@ const styles = StyleSheet.create({
   },
   featureButtons: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
     marginBottom: 16,
   },
   featureButton: {
-    flex: 1,
+    flexGrow: 1,
+    flexBasis: '40%',
     backgroundColor: '#ffa500',
     padding: 12,
     borderRadius: 8,
@@ -588,6 +964,59 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 14,
   },
+  goalsContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  goalsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  goalsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  remaining: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  remainingOver: {
+    color: '#dc2626',
+  },
+  rings: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  setGoalsLink: {
+    color: '#0066cc',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  fixingHint: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 4,
+  },
+  cancelFix: {
+    color: '#0066cc',
+    textAlign: 'center',
+    fontSize: 14,
+    marginTop: 8,
+  },
   formContainer: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -614,6 +1043,16 @@ const styles = StyleSheet.create({
     backgroundColor: '#f9f9f9',
     fontSize: 16
   },
+  scanButton: {
+    width: 44,
+    borderRadius: 8,
+    backgroundColor: '#ffa500',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scanButtonText: {
+    fontSize: 20,
+  },
   inputSmall: {
     width: 80,
     borderWidth: 1, 
@@ -634,12 +1073,23 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     color: '#374151'
   },
+  mealLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  mealManage: {
+    fontSize: 13,
+    color: '#0066cc',
+  },
   mealButtons: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 4,
   },
   mealButton: {
-    flex: 1,
+    flexGrow: 1,
+    flexBasis: '22%',
     padding: 8,
     borderRadius: 8,
     backgroundColor: '#f0f0f0',
@@ -777,6 +1227,12 @@ const styles = StyleSheet.create({
     color: '#6b7280', 
     marginTop: 2 
   },
+  pendingText: {
+    fontSize: 12,
+    color: '#b45309',
+    fontWeight: '500',
+    marginTop: 2,
+  },
   notesText: {
     fontSize: 12,
     color: '#9ca3af',
@@ -818,6 +1274,9 @@ const styles = StyleSheet.create({
   list: {
     flex: 1
   },
+  footerLoader: {
+    paddingVertical: 16,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0,0,0,0.5)',
@@ -851,6 +1310,47 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#1f2937',
   },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#f9f9f9',
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  servingList: {
+    marginTop: 8,
+    gap: 6,
+  },
+  servingButton: {
+    backgroundColor: '#fff3cd',
+    borderRadius: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+  },
+  servingText: {
+    fontSize: 13,
+    color: '#8b4513',
+    fontWeight: '500',
+  },
+  macrosRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  macrosText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  macrosClear: {
+    fontSize: 14,
+    color: '#9ca3af',
+    paddingHorizontal: 8,
+  },
   nutritionDetails: {
     fontSize: 14,
     color: '#6b7280',
@@ -895,6 +1395,35 @@ const styles = StyleSheet.create({
     fontSize: 16,
     padding: 20,
   },
+  weekRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  weekDay: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  weekCalories: {
+    width: 80,
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'right',
+  },
+  weekStatus: {
+    width: 100,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#9ca3af',
+    textAlign: 'right',
+  },
+  weekOver: {
+    color: '#dc2626',
+  },
+  weekUnder: {
+    color: '#10b981',
+  },
   closeButton: {
     backgroundColor: '#374151',
     padding: 12,
@@ -1,5 +1,7 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
+  Alert,
+  Pressable,
   SafeAreaView,
   View,
   Text,
@@ -13,72 +15,97 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import * as Location from 'expo-location';
-import { supabase } from '../../lib/supabase';
-import { Alert, Pressable } from 'react-native';
-
-type Entry = {
-  id: string;
-  text: string;
-  mood: number | null;
-  created_at: string | null;
-  lat: number | null;
-  lng: number | null;
-  weather: string | null;
-  temperature: number | null;
-  user_id: string;
-};
-
-const TABLE = 'data';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { MoodDimensionsForm } from '@/components/MoodDimensionsForm';
+import { PhotoPicker } from '@/components/PhotoPicker';
+import { PhotoStrip } from '@/components/PhotoStrip';
+import { UndoBar } from '@/components/UndoBar';
+import { MOOD_EMOJIS } from '@/constants/Entries';
+import { useEntryList } from '@/hooks/useEntryList';
+import { useEntryPhotos } from '@/hooks/useEntryPhotos';
+import { usePendingEntries } from '@/hooks/useOutbox';
+import { usePlaces } from '@/hooks/usePlaces';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useProfile } from '@/hooks/useProfile';
+import { Mood, useRepository } from '../../lib/data';
+import { EntryLocation, entryLocation, formatLocation, NO_LOCATION, precisionFromProfile } from '../../lib/location';
+import { dimensionsOf, EMPTY_DIMENSIONS, formatDimensions, MoodDimensions } from '../../lib/moodDimensions';
+import { discardOutboxItem, enqueue, retryOutboxItem } from '../../lib/outbox';
+import { PreparedPhoto, queuePhotos, removeEntryPhotos } from '../../lib/photos';
+import { formatDateTime } from '../../lib/preferences';
+import { useSession } from '../../lib/session';
+import { formatWeather, getWeather, WeatherFields, weatherFields } from '../../lib/weather';
+
+// Entries still in the local outbox are shown alongside the synced ones
+type ListEntry = Mood & { pending?: boolean; syncError?: string | null; syncFailed?: boolean };
 
 export default function HomeScreen() {
   const [text, setText] = useState<string>('');
   const [mood, setMood] = useState<string>('3');
   const [useLocation, setUseLocation] = useState<boolean>(false);
+  const [photos, setPhotos] = useState<PreparedPhoto[]>([]);
+  // A parked outbox entry being corrected in the form
+  const [fixingId, setFixingId] = useState<string | null>(null);
+  const [dimensions, setDimensions] = useState<MoodDimensions>(EMPTY_DIMENSIONS);
+  const [showDetails, setShowDetails] = useState(false);
 
-  const [items, setItems] = useState<Entry[]>([]);
-  const [loading, setLoading] = useState(false);
+  const { moods } = useRepository();
   const [inserting, setInserting] = useState(false);
-  const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [userId, setUserId] = useState<string | null>(null);
-
-  // Get current user ID
-  useEffect(() => {
-    const getCurrentUser = async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      setUserId(user?.id || null);
-    };
-    getCurrentUser();
-  }, []);
-
-  const fetchItems = useCallback(async () => {
-    if (!userId) return;
-    
-    setRefreshing(true);
-    setError(null);
-
-    const { data, error: qErr } = await supabase
-      .from(TABLE)
-      .select('*')
-      .eq('user_id', userId) // Filter by current user
-      .order('created_at', { ascending: false })
-      .limit(50)
-      .returns<Entry[]>();
-
-    if (qErr) setError(qErr.message);
-    setItems(data ?? []);
-    setRefreshing(false);
-  }, [userId]);
-
+  const { userId } = useSession();
+  const inputRef = useRef<TextInput>(null);
+  const { profile } = useProfile();
+  const { places } = usePlaces();
+  const { timeZone, units } = usePreferences();
+
+  // Opened from a check-in reminder: jump straight into the form
+  const { focus } = useLocalSearchParams<{ focus?: string }>();
   useEffect(() => {
-    if (userId) {
-      (async () => {
-        setLoading(true);
-        await fetchItems();
-        setLoading(false);
-      })();
-    }
-  }, [fetchItems, userId]);
+    if (!focus || !userId) return;
+    inputRef.current?.focus();
+    router.setParams({ focus: undefined });
+  }, [focus, userId]);
+
+  const {
+    items,
+    total,
+    loading,
+    refreshing,
+    loadingMore,
+    error: listError,
+    refresh: fetchItems,
+    loadMore,
+  } = useEntryList(moods, !!userId);
+
+  // Refresh when coming back from the detail screen after an edit or delete
+  const hasFocused = useRef(false);
+  useFocusEffect(useCallback(() => {
+    if (hasFocused.current) fetchItems();
+    hasFocused.current = true;
+  }, [fetchItems]));
+
+  const pending = usePendingEntries('moods', fetchItems);
+
+  const listItems = useMemo<ListEntry[]>(() => {
+    const queued: ListEntry[] = pending
+      .filter((it) => it.payload.user_id === userId)
+      .map((it) => ({
+        ...(it.payload as Omit<Mood, 'id'>),
+        id: it.id,
+        pending: true,
+        syncError: it.lastError,
+        syncFailed: it.failed,
+      }));
+    const queuedIds = new Set(queued.map((it) => it.id));
+    return [...queued, ...items.filter((it) => !queuedIds.has(it.id))];
+  }, [pending, items, userId]);
+
+  const entryIds = useMemo(() => listItems.map((it) => it.id), [listItems]);
+  const { photos: entryPhotos } = useEntryPhotos('mood', entryIds);
+
+  // Server-side count plus whatever is still waiting in the outbox
+  const pendingCount = listItems.length - items.length;
+  const totalCount = total != null ? total + pendingCount : listItems.length;
 
   const addItem = async () => {
     if (!userId) {
@@ -92,21 +119,20 @@ export default function HomeScreen() {
     setInserting(true);
     setError(null);
 
-    let lat: number | null = null;
-    let lng: number | null = null;
-    let weather: string | null = null;
-    let temperature: number | null = null;
+    let location: EntryLocation = NO_LOCATION;
+    let weather: Partial<WeatherFields> = {};
 
     if (useLocation) {
       const { status } = await Location.requestForegroundPermissionsAsync();
       if (status === 'granted') {
         try {
           const pos = await Location.getCurrentPositionAsync({});
-          lat = pos.coords.latitude;
-          lng = pos.coords.longitude;
-          const w = await fetchWeather(lat, lng);
-          weather = w.weather;
-          temperature = w.temperature;
+          // Only the position at the user's chosen precision leaves this function
+          const stored = await entryLocation(pos.coords, precisionFromProfile(profile), places);
+          location = stored;
+          // Offline this comes back empty; the outbox fills it in before pushing
+          const reading = await getWeather(stored.lat, stored.lng);
+          if (reading) weather = weatherFields(reading);
         } catch (locationError) {
           console.warn('Location fetch failed:', locationError);
         }
@@ -115,47 +141,78 @@ export default function HomeScreen() {
 
     const moodNumber = Math.min(5, Math.max(1, parseInt(mood, 10) || 3));
 
-    const { error: insErr } = await supabase
-      .from(TABLE)
-      .insert({ 
+    try {
+      const entry = {
         text: trimmed, 
         mood: moodNumber, 
-        lat, 
-        lng, 
-        weather, 
-        temperature,
+        // A fixed entry keeps where it was logged unless the location is taken again
+        ...(fixingId && !useLocation ? {} : { ...location, ...weather }),
+        ...dimensions,
         user_id: userId // Include user_id
-      });
+      };
+      let entryId: string;
+      if (fixingId) {
+        // Fixed in place: keeping the id keeps the photos that already uploaded attached
+        await retryOutboxItem(fixingId, entry);
+        entryId = fixingId;
+        setFixingId(null);
+      } else {
+        // Written to the device first; the outbox pushes it once we're online
+        entryId = (await enqueue('moods', entry)).id;
+      }
+      await queuePhotos('mood', entryId, userId, photos);
 
-    if (insErr) {
-      setError(insErr.message);
-    } else {
-      // Simple success alert instead of notification
       Alert.alert(
         "Success! ✅",
-        `Mood ${moodNumber} entry saved${weather ? ` with ${weather} weather` : ''}`
+        `Mood ${moodNumber} entry saved${weather.weather ? ` with ${weather.weather} weather` : ''}`
       );
+      setText('');
+      setPhotos([]);
+      setDimensions(EMPTY_DIMENSIONS);
+    } catch (queueErr) {
+      setError(queueErr instanceof Error ? queueErr.message : 'Could not save entry');
     }
-    
-    setText('');
-    await fetchItems();
+
     setInserting(false);
   };
 
-  const renderItem = ({ item }: { item: Entry }) => {
-    const when = item.created_at ? new Date(item.created_at).toLocaleString() : '';
-    const moodEmoji = item.mood ? ['😢', '😕', '😐', '😊', '😄'][item.mood - 1] : '';
+  const renderItem = ({ item }: { item: ListEntry }) => {
+    const when = item.created_at ? formatDateTime(item.created_at, timeZone) : '';
+    const moodEmoji = item.mood ? MOOD_EMOJIS[item.mood - 1] : '';
 
     const onPressRow = () => {
-      const weatherInfo = item.weather ? `\nWeather: ${item.weather}` : '';
-      const tempInfo = item.temperature ? `, ${item.temperature.toFixed(1)}°C` : '';
-      const locationInfo = (item.lat && item.lng) ? `\nLocation: ${item.lat.toFixed(4)}, ${item.lng.toFixed(4)}` : '';
-      
-      Alert.alert(
-        `${moodEmoji} Entry Details`,
-        `"${item.text}"\n\n${when}\nMood: ${item.mood}/5${weatherInfo}${tempInfo}${locationInfo}`,
-        [{ text: 'OK' }]
-      );
+      if (item.syncFailed) {
+        Alert.alert('Couldn’t save entry', `${item.syncError ?? 'The server rejected it.'} Edit it and save again, or discard it.`, [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: async () => {
+              if (fixingId === item.id) setFixingId(null);
+              await discardOutboxItem(item.id);
+              await removeEntryPhotos('mood', item.id);
+            },
+          },
+          {
+            // Back into the form; saving fixes the entry in place, with its photos
+            text: 'Edit',
+            onPress: () => {
+              setFixingId(item.id);
+              setText(item.text ?? '');
+              setMood(String(item.mood ?? 3));
+              setDimensions(dimensionsOf(item));
+              setPhotos([]);
+              inputRef.current?.focus();
+            },
+          },
+        ]);
+        return;
+      }
+      if (item.pending) {
+        Alert.alert('Still syncing', 'This entry can be edited once it has been saved to the server.');
+        return;
+      }
+      router.push({ pathname: '/mood/[id]', params: { id: item.id } });
     };
 
     return (
@@ -165,52 +222,24 @@ export default function HomeScreen() {
           <Text style={styles.moodBadge}>Mood {item.mood}</Text>
         </View>
         <Text style={styles.rowMeta}>{when}</Text>
-        {(item.weather || item.temperature) && (
-          <Text style={styles.rowMeta}>
-            {item.weather ? `🌤️ ${item.weather}` : ''}
-            {item.temperature != null ? `, ${item.temperature.toFixed(1)}°C` : ''}
+        {formatDimensions(item) !== '' && <Text style={styles.rowMeta}>{formatDimensions(item)}</Text>}
+        {item.tags?.length > 0 && <Text style={styles.tagsText}>{item.tags.map((tag) => `#${tag}`).join(' ')}</Text>}
+        {item.pending && (
+          <Text style={styles.pendingText}>
+            {item.syncFailed
+              ? '⚠️ Couldn’t sync – tap to fix or discard'
+              : item.syncError ? '⏳ Pending – will retry sync' : '⏳ Pending sync'}
           </Text>
         )}
-        {item.lat != null && item.lng != null && (
-          <Text style={styles.rowMetaSmall}>
-            📍 {item.lat.toFixed(4)}, {item.lng.toFixed(4)}
-          </Text>
+        {formatWeather(item) !== '' && <Text style={styles.rowMeta}>{formatWeather(item, units)}</Text>}
+        {formatLocation(item, places) !== '' && (
+          <Text style={styles.rowMetaSmall}>{formatLocation(item, places)}</Text>
         )}
+        <PhotoStrip photos={entryPhotos[item.id]} />
       </Pressable>
     );
   };
 
-  const WEATHER_API_KEY = process.env.EXPO_PUBLIC_WEATHER_API_KEY;
-
-  async function fetchWeather(
-    lat: number,
-    lng: number
-  ): Promise<{ weather: string | null; temperature: number | null }> {
-    if (!WEATHER_API_KEY) {
-      console.warn("Weather API key not configured");
-      return { weather: null, temperature: null };
-    }
-
-    try {
-      const url = `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lng}&appid=${WEATHER_API_KEY}&units=metric`;
-
-      const resp = await fetch(url);
-      if (!resp.ok) throw new Error(`Weather API error: ${resp.status}`);
-      
-      const data = await resp.json();
-
-      if (data.weather && data.weather.length > 0) {
-        return {
-          weather: data.weather[0].main,
-          temperature: data.main?.temp ?? null,
-        };
-      }
-    } catch (err) {
-      console.error("Weather fetch failed:", err);
-    }
-    return { weather: null, temperature: null };
-  }
-
   if (!userId) {
     return (
       <SafeAreaView style={styles.safe}>
@@ -231,6 +260,7 @@ export default function HomeScreen() {
         <View style={styles.formContainer}>
           <View style={styles.formRow}>
             <TextInput
+              ref={inputRef}
               value={text}
               onChangeText={setText}
               placeholder="How are you feeling today?"
@@ -247,6 +277,11 @@ export default function HomeScreen() {
               color="#0066cc"
             />
           </View>
+          {fixingId && (
+            <TouchableOpacity onPress={() => setFixingId(null)} disabled={inserting}>
+              <Text style={styles.cancelFix}>Cancel editing</Text>
+            </TouchableOpacity>
+          )}
           
           <View style={styles.moodRow}>
             <Text style={styles.moodLabel}>Select your mood (1-5):</Text>
@@ -262,7 +297,7 @@ export default function HomeScreen() {
                   disabled={inserting}
                 >
                   <Text style={styles.moodButtonText}>
-                    {['😢', '😕', '😐', '😊', '😄'][num - 1]}
+                    {MOOD_EMOJIS[num - 1]}
                   </Text>
                   <Text style={styles.moodNumber}>{num}</Text>
                 </TouchableOpacity>
@@ -270,6 +305,18 @@ export default function HomeScreen() {
             </View>
           </View>
 
+          <TouchableOpacity onPress={() => setShowDetails(!showDetails)} disabled={inserting}>
+            <Text style={styles.detailsToggle}>
+              {showDetails ? '▾' : '▸'} Energy, anxiety, sleep & tags
+            </Text>
+          </TouchableOpacity>
+          {showDetails && (
+            <MoodDimensionsForm value={dimensions} onChange={setDimensions} disabled={inserting} />
+          )}
+
+          {fixingId && <Text style={styles.fixingHint}>Photos already attached stay with the entry.</Text>}
+          <PhotoPicker photos={photos} onChange={setPhotos} disabled={inserting} />
+
           <View style={styles.switchWrap}>
             <Text style={styles.switchLabel}>📍 Include location & weather data</Text>
             <Switch 
@@ -282,15 +329,18 @@ export default function HomeScreen() {
           </View>
         </View>
 
-        {error && (
+        {(error || listError) && (
           <View style={styles.errorContainer}>
-            <Text style={styles.error}>⚠️ {error}</Text>
+            <Text style={styles.error}>⚠️ {error || listError}</Text>
           </View>
         )}
 
         <View style={styles.entriesHeader}>
           <Text style={styles.entriesTitle}>Your Recent Entries</Text>
-          <Text style={styles.entriesCount}>({items.length} total)</Text>
+          <Text style={styles.entriesCount}>({totalCount} total)</Text>
+          <TouchableOpacity onPress={() => router.push('/trends')}>
+            <Text style={styles.trendsLink}>📈 Trends</Text>
+          </TouchableOpacity>
         </View>
 
         {loading ? (
@@ -300,9 +350,14 @@ export default function HomeScreen() {
           </View>
         ) : (
           <FlatList
-            data={items}
+            data={listItems}
             keyExtractor={(it) => it.id}
             renderItem={renderItem}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#0066cc" /> : null
+            }
             refreshControl={
               <RefreshControl 
                 refreshing={refreshing} 
@@ -318,10 +373,11 @@ export default function HomeScreen() {
               </View>
             }
             style={styles.list}
-            contentContainerStyle={items.length === 0 ? { flex: 1 } : {}}
+            contentContainerStyle={listItems.length === 0 ? { flex: 1 } : {}}
           />
         )}
       </View>
+      <UndoBar onUndone={fetchItems} />
     </SafeAreaView>
   );
 }
@@ -347,6 +403,17 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     color: '#666'
   },
+  fixingHint: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 4,
+  },
+  cancelFix: {
+    color: '#0066cc',
+    textAlign: 'center',
+    fontSize: 14,
+    marginTop: 8,
+  },
   formContainer: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -455,6 +522,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666'
   },
+  trendsLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0066cc'
+  },
   row: { 
     paddingVertical: 14, 
     paddingHorizontal: 16,
@@ -493,6 +565,23 @@ const styles = StyleSheet.create({
     color: '#6b7280', 
     marginTop: 2 
   },
+  pendingText: {
+    fontSize: 12,
+    color: '#b45309',
+    fontWeight: '500',
+    marginTop: 2
+  },
+  tagsText: {
+    fontSize: 12,
+    color: '#1976d2',
+    marginTop: 2
+  },
+  detailsToggle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0066cc',
+    paddingVertical: 8
+  },
   rowMetaSmall: { 
     fontSize: 12, 
     color: '#9ca3af',
@@ -532,5 +621,8 @@ const styles = StyleSheet.create({
   },
   list: {
     flex: 1
+  },
+  footerLoader: {
+    paddingVertical: 16
   }
 });
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+import { BarChart } from '@/components/charts/BarChart';
+import { ScatterChart } from '@/components/charts/ScatterChart';
+import { useMealCategories } from '@/hooks/useMealCategories';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useRepository } from '@/lib/data';
+import { buildInsights, Confidence, Insight, LOOKBACK_HOURS } from '@/lib/insights';
+
+const LOOKBACK_DAYS = 90;
+
+const CONFIDENCE_STYLE: Record<Confidence, { label: string; color: string; background: string }> = {
+  high: { label: 'Strong pattern', color: '#047857', background: '#d1fae5' },
+  medium: { label: 'Possible pattern', color: '#b45309', background: '#fef3c7' },
+  low: { label: 'Could be noise', color: '#6b7280', background: '#f3f4f6' },
+};
+
+export default function InsightsScreen() {
+  const { moods, food, beverages, places } = useRepository();
+  const { categories } = useMealCategories();
+  const { timeZone } = usePreferences();
+  const [insights, setInsights] = useState<Insight[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setRefreshing(true);
+    setError(null);
+
+    const to = new Date();
+    const from = new Date(to.getTime() - LOOKBACK_DAYS * 86_400_000);
+    const [moodRes, foodRes, drinkRes, placeRes] = await Promise.all([
+      moods.listRange({ from, to }),
+      food.listRange({ from, to }),
+      beverages.listRange({ from, to }),
+      places.list(),
+    ]);
+
+    if (moodRes.error || foodRes.error || drinkRes.error || placeRes.error) {
+      setError((moodRes.error ?? foodRes.error ?? drinkRes.error ?? placeRes.error)?.message ?? 'Could not load history');
+    } else {
+      setInsights(buildInsights(moodRes.data, foodRes.data, categories, drinkRes.data, placeRes.data, timeZone));
+    }
+    setRefreshing(false);
+    setLoading(false);
+  }, [moods, food, beverages, places, categories, timeZone]);
+
+  useFocusEffect(useCallback(() => {
+    load();
+  }, [load]));
+
+  const renderInsight = (insight: Insight) => {
+    const confidence = CONFIDENCE_STYLE[insight.confidence];
+    return (
+      <View key={insight.id} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>{insight.title}</Text>
+          <Text style={[styles.badge, { color: confidence.color, backgroundColor: confidence.background }]}>
+            {confidence.label}
+          </Text>
+        </View>
+        <Text style={styles.summary}>{insight.summary}</Text>
+        <View style={styles.chart}>
+          {insight.chart.kind === 'bars' ? (
+            <BarChart bars={insight.chart.bars} />
+          ) : (
+            <ScatterChart points={insight.chart.points} xLabel={insight.chart.xLabel} yLabel={insight.chart.yLabel} />
+          )}
+        </View>
+        <Text style={styles.sample}>Based on {insight.sampleSize} data points</Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={{ paddingBottom: 40 }}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={load} tintColor="#0066cc" />}
+      >
+        <Text style={styles.title}>Insights 🔍</Text>
+        <Text style={styles.desc}>
+          How your meals relate to your mood over the last {LOOKBACK_DAYS} days.
+          Meals count towards a mood if eaten up to {LOOKBACK_HOURS} hours before it.
+        </Text>
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.error}>⚠️ {error}</Text>
+          </View>
+        )}
+
+        {loading ? (
+          <ActivityIndicator size="large" color="#0066cc" style={{ marginTop: 40 }} />
+        ) : insights.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyEmoji}>📊</Text>
+            <Text style={styles.empty}>Not enough data yet</Text>
+            <Text style={styles.emptySubtext}>Keep logging moods and meals to see patterns here</Text>
+          </View>
+        ) : (
+          insights.map(renderInsight)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1 },
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#f5f3ff',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    marginBottom: 8,
+    textAlign: 'center',
+    color: '#2d3748',
+  },
+  desc: {
+    fontSize: 14,
+    fontWeight: '300',
+    marginBottom: 20,
+    textAlign: 'center',
+    color: '#666',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    flex: 1,
+    marginRight: 8,
+  },
+  badge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    fontSize: 11,
+    fontWeight: '600',
+    overflow: 'hidden',
+  },
+  summary: {
+    fontSize: 14,
+    color: '#4b5563',
+    marginBottom: 12,
+  },
+  chart: {
+    alignItems: 'center',
+  },
+  sample: {
+    fontSize: 11,
+    color: '#9ca3af',
+    marginTop: 8,
+    textAlign: 'right',
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  error: {
+    color: '#dc2626',
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyEmoji: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  empty: {
+    color: '#374151',
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    color: '#6b7280',
+    textAlign: 'center',
+    fontSize: 14,
+  },
+});
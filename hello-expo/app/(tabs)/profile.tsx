@@ -1,20 +1,161 @@
-import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView, TextInput, Switch, ActivityIndicator } from 'react-native';
 import { useEffect, useState } from 'react';
+import { router } from 'expo-router';
+import { Avatar } from '@/components/Avatar';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useProfile } from '@/hooks/useProfile';
+import { useStats } from '@/hooks/useStats';
+import { LOCATION_PRECISIONS, LocationPrecision, precisionFromProfile } from '../../lib/location';
+import { parseMinute } from '../../lib/mealCategories';
+import { UNIT_SYSTEMS, WEEK_STARTS } from '../../lib/preferences';
+import { DEFAULT_WATER_GOAL_ML, goalsFromProfile, NUTRIENTS, Nutrient } from '../../lib/nutrition';
+import {
+  formatReminderTimes,
+  hasReminders,
+  MAX_REMINDER_TIMES,
+  ReminderKind,
+  REMINDERS,
+  ReminderSettings,
+  remindersFromProfile,
+  requestReminderPermission,
+  scheduleReminders,
+} from '../../lib/reminders';
+import { useSession } from '../../lib/session';
+import { statRows } from '../../lib/stats';
 import { supabase } from '../../lib/supabase';
-import type { User } from '@supabase/supabase-js';
+
+type GoalInputs = Record<Nutrient, string>;
+
+const EMPTY_GOALS: GoalInputs = { calories: '', protein: '', carbs: '', fat: '', fiber: '' };
+
+// Times are edited as text, e.g. "09:00, 21:00"
+type ReminderInputs = Record<ReminderKind, { enabled: boolean; times: string }>;
+
+const toReminderInputs = (settings: ReminderSettings): ReminderInputs => ({
+  mood: { enabled: settings.mood.enabled, times: formatReminderTimes(settings.mood.times) },
+  meals: { enabled: settings.meals.enabled, times: formatReminderTimes(settings.meals.times) },
+  summary: { enabled: settings.summary.enabled, times: formatReminderTimes(settings.summary.times) },
+});
+
+// Sorted, de-duplicated minutes, or undefined if any time is invalid
+const parseTimes = (value: string): number[] | undefined => {
+  const parts = value.split(/[\s,]+/).filter(Boolean);
+  const minutes = parts.map(parseMinute);
+  if (minutes.some((m) => m == null)) return undefined;
+  return [...new Set(minutes.map((m) => m! % 1440))].sort((a, b) => a - b);
+};
+
+// Blank clears the goal; anything else must be a non-negative number
+const parseGoal = (value: string): number | null | undefined => {
+  if (!value.trim()) return null;
+  const n = Number(value.replace(',', '.'));
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+};
 
 export default function ProfileScreen() {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { user } = useSession();
+  const { profile, error: profileError, save } = useProfile();
+  const preferences = usePreferences();
+  const { stats, error: statsError } = useStats();
+  const [goalInputs, setGoalInputs] = useState<GoalInputs>(EMPTY_GOALS);
+  const [waterGoal, setWaterGoal] = useState('');
+  const [savingGoals, setSavingGoals] = useState(false);
+  const [reminderInputs, setReminderInputs] = useState<ReminderInputs>(() => toReminderInputs(remindersFromProfile(null)));
+  const [savingReminders, setSavingReminders] = useState(false);
+  const [savingPrecision, setSavingPrecision] = useState(false);
+  const precision = precisionFromProfile(profile);
 
   useEffect(() => {
-    const getUser = async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      setUser(user);
-      setLoading(false);
-    };
-    getUser();
-  }, []);
+    const goals = goalsFromProfile(profile);
+    setGoalInputs({
+      calories: goals.calories != null ? String(goals.calories) : '',
+      protein: goals.protein != null ? String(goals.protein) : '',
+      carbs: goals.carbs != null ? String(goals.carbs) : '',
+      fat: goals.fat != null ? String(goals.fat) : '',
+      fiber: goals.fiber != null ? String(goals.fiber) : '',
+    });
+    setWaterGoal(profile?.water_goal_ml != null ? String(profile.water_goal_ml) : '');
+    setReminderInputs(toReminderInputs(remindersFromProfile(profile)));
+  }, [profile]);
+
+  const updateReminder = (kind: ReminderKind, patch: Partial<ReminderInputs[ReminderKind]>) => {
+    setReminderInputs((prev) => ({ ...prev, [kind]: { ...prev[kind], ...patch } }));
+  };
+
+  const saveReminders = async () => {
+    const settings = {} as ReminderSettings;
+    for (const { kind, label } of REMINDERS) {
+      const { enabled, times: text } = reminderInputs[kind];
+      const times = parseTimes(text);
+      if (times === undefined) {
+        Alert.alert('Error', `${label}: enter times as HH:MM, separated by commas`);
+        return;
+      }
+      if (enabled && times.length === 0) {
+        Alert.alert('Error', `${label}: add at least one time or turn it off`);
+        return;
+      }
+      if (times.length > MAX_REMINDER_TIMES) {
+        Alert.alert('Error', `${label}: at most ${MAX_REMINDER_TIMES} times a day`);
+        return;
+      }
+      settings[kind] = { enabled, times };
+    }
+
+    setSavingReminders(true);
+    const granted = hasReminders(settings) ? await requestReminderPermission() : true;
+    const { error } = await save({ reminders: settings });
+    if (!error) await scheduleReminders(settings, preferences.timeZone);
+    setSavingReminders(false);
+
+    if (error) Alert.alert('Error', error.message);
+    else if (!granted) {
+      Alert.alert('Notifications Off', 'Your reminders are saved, but notifications are disabled for this app in Settings.');
+    } else Alert.alert('Reminders Saved', hasReminders(settings) ? 'Your reminders are scheduled.' : 'All reminders are off.');
+  };
+
+  // Applies to entries saved from now on; earlier ones keep what they stored
+  const savePrecision = async (value: LocationPrecision) => {
+    if (value === precision) return;
+    setSavingPrecision(true);
+    const { error } = await save({ location_precision: value });
+    setSavingPrecision(false);
+    if (error) Alert.alert('Error', error.message);
+  };
+
+  const saveGoals = async () => {
+    const parsed = {} as Record<Nutrient, number | null>;
+    for (const { key, label } of NUTRIENTS) {
+      const value = parseGoal(goalInputs[key]);
+      if (value === undefined) {
+        Alert.alert('Error', `Please enter a valid ${label.toLowerCase()} goal`);
+        return;
+      }
+      parsed[key] = value;
+    }
+    if (parsed.calories != null && parsed.calories > 10000) {
+      Alert.alert('Error', 'Please enter a calorie goal between 0 and 10000');
+      return;
+    }
+    const water = parseGoal(waterGoal);
+    if (water === undefined || (water != null && (water < 250 || water > 10000))) {
+      Alert.alert('Error', 'Please enter a water goal between 250 and 10000 ml');
+      return;
+    }
+
+    setSavingGoals(true);
+    const { error } = await save({
+      calorie_goal: parsed.calories != null ? Math.round(parsed.calories) : null,
+      protein_goal: parsed.protein,
+      carbs_goal: parsed.carbs,
+      fat_goal: parsed.fat,
+      fiber_goal: parsed.fiber,
+      water_goal_ml: water != null ? Math.round(water) : null,
+    });
+    setSavingGoals(false);
+    if (error) Alert.alert('Error', error.message);
+    else Alert.alert('Goals Saved', 'Your daily targets have been updated.');
+  };
 
   const handleLogout = async () => {
     Alert.alert(
@@ -30,56 +171,158 @@ export default function ProfileScreen() {
             if (error) {
               Alert.alert('Error', error.message);
             }
-            // The auth state listener will automatically redirect to login
+            // The session context drops the user and the route guard shows sign-in
           }
         }
       ]
     );
   };
 
-  if (loading) {
-    return (
-      <View style={styles.container}>
-        <Text style={styles.loadingText}>Loading...</Text>
-      </View>
-    );
-  }
-
   return (
-    <View style={styles.container}>
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }} keyboardShouldPersistTaps="handled">
       <Text style={styles.title}>Profile</Text>
       <Text style={styles.subtitle}>Manage your account settings</Text>
       
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Account Information</Text>
-        <View style={styles.infoRow}>
-          <Text style={styles.label}>Email:</Text>
-          <Text style={styles.info}>{user?.email || 'Not available'}</Text>
-        </View>
-        <View style={styles.infoRow}>
-          <Text style={styles.label}>User ID:</Text>
-          <Text style={styles.infoSmall}>{user?.id || 'Not available'}</Text>
+        <View style={styles.header}>
+          <Avatar path={profile?.avatar_path ?? null} name={profile?.display_name || user?.email || ''} />
+          <View style={styles.headerText}>
+            <Text style={styles.displayName}>{profile?.display_name || 'Add your name'}</Text>
+            <Text style={styles.info}>{user?.email || 'Not available'}</Text>
+            <Text style={styles.infoSmall}>
+              {user?.created_at
+                ? `Member since ${new Date(user.created_at).toLocaleDateString(undefined, { timeZone: preferences.timeZone })}`
+                : ''}
+            </Text>
+          </View>
         </View>
         <View style={styles.infoRow}>
-          <Text style={styles.label}>Account Created:</Text>
+          <Text style={styles.label}>Preferences:</Text>
           <Text style={styles.info}>
-            {user?.created_at ? new Date(user.created_at).toLocaleDateString() : 'Not available'}
+            {preferences.timeZone} • {UNIT_SYSTEMS.find((u) => u.value === preferences.units)?.label} • Weeks start{' '}
+            {WEEK_STARTS.find((d) => d.value === preferences.weekStart)?.label ?? 'Monday'}
           </Text>
         </View>
+        <TouchableOpacity style={styles.saveButton} onPress={() => router.push('/edit-profile')}>
+          <Text style={styles.saveText}>Edit Profile</Text>
+        </TouchableOpacity>
       </View>
 
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>App Statistics</Text>
-        <View style={styles.infoRow}>
-          <Text style={styles.label}>Status:</Text>
-          <Text style={styles.statusText}>Successfully logged in!</Text>
+        <Text style={styles.sectionTitle}>Daily Goals</Text>
+        <Text style={styles.hint}>
+          Leave a field blank for no target. Water falls back to {DEFAULT_WATER_GOAL_ML} ml.
+        </Text>
+        {NUTRIENTS.map(({ key, label, unit }) => (
+          <View key={key} style={styles.goalRow}>
+            <Text style={styles.goalLabel}>{label}</Text>
+            <TextInput
+              value={goalInputs[key]}
+              onChangeText={(value) => setGoalInputs((prev) => ({ ...prev, [key]: value }))}
+              placeholder="–"
+              placeholderTextColor="#727272ff"
+              keyboardType={key === 'calories' ? 'number-pad' : 'decimal-pad'}
+              style={styles.goalInput}
+              editable={!savingGoals}
+              maxLength={6}
+            />
+            <Text style={styles.goalUnit}>{unit}</Text>
+          </View>
+        ))}
+        <View style={styles.goalRow}>
+          <Text style={styles.goalLabel}>Water</Text>
+          <TextInput
+            value={waterGoal}
+            onChangeText={setWaterGoal}
+            placeholder={String(DEFAULT_WATER_GOAL_ML)}
+            placeholderTextColor="#727272ff"
+            keyboardType="number-pad"
+            style={styles.goalInput}
+            editable={!savingGoals}
+            maxLength={5}
+          />
+          <Text style={styles.goalUnit}>ml</Text>
         </View>
+        {profileError && <Text style={styles.errorText}>⚠️ {profileError}</Text>}
+        <TouchableOpacity style={styles.saveButton} onPress={saveGoals} disabled={savingGoals}>
+          <Text style={styles.saveText}>{savingGoals ? 'Saving…' : 'Save Goals'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Reminders</Text>
+        <Text style={styles.hint}>Daily notifications at the times you choose, in 24-hour HH:MM.</Text>
+        {REMINDERS.map(({ kind, label }) => (
+          <View key={kind} style={styles.reminder}>
+            <View style={styles.goalRow}>
+              <Text style={styles.goalLabel}>{label}</Text>
+              <Switch
+                value={reminderInputs[kind].enabled}
+                onValueChange={(enabled) => updateReminder(kind, { enabled })}
+                disabled={savingReminders}
+                trackColor={{ false: '#767577', true: '#81b0ff' }}
+                thumbColor={reminderInputs[kind].enabled ? '#0066cc' : '#f4f3f4'}
+              />
+            </View>
+            {reminderInputs[kind].enabled && (
+              <TextInput
+                value={reminderInputs[kind].times}
+                onChangeText={(times) => updateReminder(kind, { times })}
+                placeholder="09:00, 21:00"
+                placeholderTextColor="#727272ff"
+                keyboardType="numbers-and-punctuation"
+                style={styles.timesInput}
+                editable={!savingReminders}
+                maxLength={60}
+              />
+            )}
+          </View>
+        ))}
+        <TouchableOpacity style={styles.saveButton} onPress={saveReminders} disabled={savingReminders}>
+          <Text style={styles.saveText}>{savingReminders ? 'Saving…' : 'Save Reminders'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Location Privacy</Text>
+        <Text style={styles.hint}>
+          How precisely mood entries record where you were. Changes apply to new entries only.
+        </Text>
+        {LOCATION_PRECISIONS.map(({ value, label, description }) => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.option, precision === value && styles.optionActive]}
+            onPress={() => savePrecision(value)}
+            disabled={savingPrecision}
+          >
+            <Text style={[styles.optionLabel, precision === value && styles.optionLabelActive]}>{label}</Text>
+            <Text style={styles.optionDescription}>{description}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.saveButton} onPress={() => router.push('/places')}>
+          <Text style={styles.saveText}>Manage Saved Places</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>App Statistics</Text>
+        {stats ? (
+          statRows(stats).map(({ key, label, value }) => (
+            <View key={key} style={styles.statRow}>
+              <Text style={styles.statLabel}>{label}</Text>
+              <Text style={styles.statValue} numberOfLines={1}>{value}</Text>
+            </View>
+          ))
+        ) : (
+          !statsError && <ActivityIndicator color="#0066cc" />
+        )}
+        {statsError && <Text style={styles.errorText}>⚠️ {statsError}</Text>}
       </View>
 
       <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
         <Text style={styles.logoutText}>Logout</Text>
       </TouchableOpacity>
-    </View>
+    </ScrollView>
   );
 }
 
@@ -103,12 +346,6 @@ const styles = StyleSheet.create({
     marginBottom: 40,
     color: '#666',
   },
-  loadingText: {
-    fontSize: 16,
-    textAlign: 'center',
-    marginTop: 100,
-    color: '#666',
-  },
   section: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -142,12 +379,126 @@ const styles = StyleSheet.create({
   infoSmall: {
     fontSize: 12,
     color: '#888',
-    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginBottom: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  displayName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2d3748',
+    marginBottom: 2,
+  },
+  statRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  statLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  statValue: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2d3748',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 12,
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
   },
-  statusText: {
+  goalLabel: {
+    flex: 1,
     fontSize: 14,
-    color: '#10b981',
-    fontWeight: '500',
+    fontWeight: '600',
+    color: '#374151',
+  },
+  goalInput: {
+    width: 90,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: '#f9f9f9',
+    fontSize: 15,
+    textAlign: 'right',
+  },
+  goalUnit: {
+    width: 32,
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#666',
+  },
+  reminder: {
+    marginBottom: 4,
+  },
+  timesInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: '#f9f9f9',
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  optionActive: {
+    borderColor: '#1976d2',
+    backgroundColor: '#e3f2fd',
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  optionLabelActive: {
+    color: '#1976d2',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  errorText: {
+    color: '#dc2626',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  saveButton: {
+    backgroundColor: '#0066cc',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
   },
   logoutButton: {
     backgroundColor: '#ef4444',
@@ -2,9 +2,16 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { useDeferredDeepLink } from '@/hooks/useDeferredDeepLink';
+import { startOutboxSync } from '@/lib/outbox';
+import { startPhotoSync } from '@/lib/photos';
+import { startReminderSync } from '@/lib/reminders';
+import { AuthProvider, useSession } from '@/lib/session';
+import { startSessionRefresh } from '@/lib/supabase';
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -12,18 +19,62 @@ export default function RootLayout() {
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
 
+  useEffect(() => startSessionRefresh(), []);
+  // Push entries and photos logged offline whenever connectivity allows
+  useEffect(() => startOutboxSync(), []);
+  useEffect(() => startPhotoSync(), []);
+  // Keep reminder notifications in step with the signed-in user; RootStack opens tapped ones
+  useEffect(() => startReminderSync(), []);
+
   if (!loaded) {
     // Async font loading only occurs in development.
     return null;
   }
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
+    <AuthProvider>
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <RootStack />
+        <StatusBar style="auto" />
+      </ThemeProvider>
+    </AuthProvider>
+  );
+}
+
+function RootStack() {
+  const { userId, loading } = useSession();
+  const signedIn = userId != null;
+  useDeferredDeepLink(signedIn, !loading);
+
+  // The stored session is still being read from secure storage
+  if (loading) {
+    return null;
+  }
+
+  return (
+    // Keyed by user so switching accounts remounts every screen: nothing loaded for one user survives into the next
+    <Stack key={userId ?? 'signed-out'}>
+      {/* Signed-out users are sent to the first screen they may see, the sign-in screen */}
+      <Stack.Protected guard={signedIn}>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+        <Stack.Screen name="mood/[id]" options={{ title: 'Edit Mood Entry' }} />
+        <Stack.Screen name="food/[id]" options={{ title: 'Edit Food Entry' }} />
+        <Stack.Screen name="food/summary" options={{ title: 'Food History' }} />
+        <Stack.Screen name="food/scan" options={{ title: 'Scan Barcode' }} />
+        <Stack.Screen name="recipes/index" options={{ title: 'Recipes & Meals' }} />
+        <Stack.Screen name="recipes/[id]" options={{ title: 'Edit Recipe' }} />
+        <Stack.Screen name="meal-categories" options={{ title: 'Meal Categories' }} />
+        <Stack.Screen name="places" options={{ title: 'Saved Places' }} />
+        <Stack.Screen name="edit-profile" options={{ title: 'Edit Profile' }} />
+        <Stack.Screen name="trends" options={{ title: 'Mood Trends' }} />
+      </Stack.Protected>
+      <Stack.Protected guard={!signedIn}>
+        <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+      </Stack.Protected>
+      {/* Emailed links and OAuth redirects land here with or without a session */}
+      <Stack.Screen name="auth/callback" options={{ headerShown: false }} />
+      <Stack.Screen name="auth/reset-password" options={{ title: 'Reset Password' }} />
+      <Stack.Screen name="+not-found" />
+    </Stack>
   );
 }
@@ -0,0 +1,81 @@
+import * as Linking from 'expo-linking';
+import { router } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { completeAuthRedirect } from '@/lib/auth';
+
+// On web this page runs inside the OAuth popup; hand the result to the opener
+WebBrowser.maybeCompleteAuthSession();
+
+/**
+ * Where emailed links (sign-up confirmation, magic link) and OAuth providers
+ * send the user back to. Finishes the sign-in, then opens the app.
+ */
+export default function AuthCallbackScreen() {
+  const url = Linking.useURL();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    completeAuthRedirect(url).then(({ data, error: redirectErr }) => {
+      if (redirectErr) setError(redirectErr.message);
+      else if (data?.recovery) router.replace('/auth/reset-password');
+      else router.replace('/');
+    });
+  }, [url]);
+
+  return (
+    <View style={styles.container}>
+      {error ? (
+        <>
+          <Text style={styles.title}>Couldn&apos;t sign you in</Text>
+          <Text style={styles.message}>{error}</Text>
+          <TouchableOpacity style={styles.button} onPress={() => router.replace('/login')}>
+            <Text style={styles.buttonText}>Back to Sign In</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <ActivityIndicator size="large" color="#3b82f6" />
+          <Text style={styles.message}>Signing you in…</Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f0fff0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#2d3748',
+  },
+  message: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 12,
+    color: '#666',
+  },
+  button: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    marginTop: 24,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,212 @@
+import * as Linking from 'expo-linking';
+import { router } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { PasswordChecklist } from '@/components/PasswordChecklist';
+import { completeAuthRedirect, isStrongPassword, updatePassword } from '@/lib/auth';
+import { supabase } from '@/lib/supabase';
+
+type Status = 'checking' | 'ready' | 'invalid';
+
+/**
+ * Opened from a password reset email. The link signs the user in with a
+ * recovery session, which is only good for choosing a new password here.
+ */
+export default function ResetPasswordScreen() {
+  const url = Linking.useURL();
+  const [status, setStatus] = useState<Status>('checking');
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (url) {
+        const { error: redirectErr } = await completeAuthRedirect(url);
+        if (redirectErr) {
+          if (!cancelled) {
+            setError(redirectErr.message);
+            setStatus('invalid');
+          }
+          return;
+        }
+      }
+      const { data } = await supabase.auth.getSession();
+      // Without a URL yet the link may still be on its way in
+      if (!cancelled && (data.session || url)) setStatus(data.session ? 'ready' : 'invalid');
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const save = async () => {
+    setError(null);
+    if (!isStrongPassword(password)) {
+      setError('Choose a password that meets every rule below');
+      return;
+    }
+    if (password !== confirm) {
+      setError('The passwords don’t match');
+      return;
+    }
+
+    setSaving(true);
+    const { error: updateErr } = await updatePassword(password);
+    setSaving(false);
+    if (updateErr) {
+      setError(updateErr.message);
+      return;
+    }
+    Alert.alert('Password Updated', 'Use your new password next time you sign in.');
+    router.replace('/');
+  };
+
+  if (status === 'checking') {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
+      <View style={styles.card}>
+        {status === 'invalid' ? (
+          <>
+            <Text style={styles.title}>Link no longer valid</Text>
+            <Text style={styles.subtitle}>
+              {error ?? 'This reset link has expired or was already used.'} Request a new one from the sign-in screen.
+            </Text>
+            <TouchableOpacity style={styles.button} onPress={() => router.replace('/login')}>
+              <Text style={styles.buttonText}>Back to Sign In</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.title}>Choose a new password</Text>
+            <TextInput
+              value={password}
+              onChangeText={setPassword}
+              placeholder="New password"
+              placeholderTextColor="#999"
+              style={styles.input}
+              secureTextEntry
+              autoComplete="new-password"
+              textContentType="newPassword"
+              editable={!saving}
+            />
+            <PasswordChecklist password={password} />
+            <TextInput
+              value={confirm}
+              onChangeText={setConfirm}
+              placeholder="Repeat new password"
+              placeholderTextColor="#999"
+              style={[styles.input, styles.confirmInput]}
+              secureTextEntry
+              autoComplete="new-password"
+              textContentType="newPassword"
+              editable={!saving}
+            />
+            {error && (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            )}
+            <TouchableOpacity style={[styles.button, saving && styles.buttonDisabled]} onPress={save} disabled={saving}>
+              <Text style={styles.buttonText}>{saving ? 'Saving…' : 'Update Password'}</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f0fff0',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  centered: {
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 16,
+    color: '#2d3748',
+  },
+  subtitle: {
+    fontSize: 15,
+    textAlign: 'center',
+    color: '#666',
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: '#f9fafb',
+  },
+  confirmInput: {
+    marginTop: 16,
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    borderColor: '#fecaca',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 16,
+  },
+  errorText: {
+    color: '#b91c1c',
+    fontSize: 14,
+  },
+  button: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  buttonDisabled: {
+    backgroundColor: '#9ca3af',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
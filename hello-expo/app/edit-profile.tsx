@@ -0,0 +1,344 @@
+import * as ImagePicker from 'expo-image-picker';
+import { router } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { Avatar } from '@/components/Avatar';
+import { useProfile } from '@/hooks/useProfile';
+import { useRepository } from '@/lib/data';
+import { prepareAvatar } from '@/lib/photos';
+import {
+  deviceTimeZone,
+  isValidTimeZone,
+  MAX_DISPLAY_NAME_LENGTH,
+  preferencesFromProfile,
+  UNIT_SYSTEMS,
+  Units,
+  WEEK_STARTS,
+} from '@/lib/preferences';
+import { remindersFromProfile, scheduleReminders } from '@/lib/reminders';
+import { sanitizeInput } from '@/lib/sanitize';
+import { useSession } from '@/lib/session';
+import type { WeekStart } from '@/lib/trends';
+
+export default function EditProfileScreen() {
+  const { profile: repo } = useRepository();
+  const { user } = useSession();
+  const { profile, loading, reload, save } = useProfile();
+  const [displayName, setDisplayName] = useState('');
+  // Null follows the device, so the zone changes when travelling
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const [units, setUnits] = useState<Units>('metric');
+  const [weekStart, setWeekStart] = useState<WeekStart>(1);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const preferences = preferencesFromProfile(profile);
+    setDisplayName(profile?.display_name ?? '');
+    setTimeZone(profile?.timezone ?? null);
+    setUnits(preferences.units);
+    setWeekStart(preferences.weekStart);
+  }, [profile]);
+
+  const pickAvatar = async () => {
+    const { granted } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!granted) {
+      Alert.alert('Photo access needed', 'Allow photo library access in Settings to choose a profile photo.');
+      return;
+    }
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 1,
+    });
+    if (result.canceled) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const uri = await prepareAvatar(result.assets[0]);
+      const { error: avatarErr } = await repo.setAvatar(uri);
+      if (avatarErr) setError(avatarErr.message);
+      else await reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not process photo');
+    }
+    setUploading(false);
+  };
+
+  const removeAvatar = async () => {
+    setUploading(true);
+    setError(null);
+    const { error: avatarErr } = await repo.setAvatar(null);
+    if (avatarErr) setError(avatarErr.message);
+    else await reload();
+    setUploading(false);
+  };
+
+  const saveProfile = async () => {
+    const name = displayName.trim();
+    const zone = timeZone?.trim() || null;
+    if (zone && !isValidTimeZone(zone)) {
+      Alert.alert('Error', `${zone} isn't a time zone we know. Use a name like Europe/Berlin.`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { data: saved, error: saveErr } = await save({
+      display_name: name || null,
+      timezone: zone,
+      units,
+      week_start: weekStart,
+    });
+    setSaving(false);
+    if (saveErr) {
+      setError(saveErr.message);
+      return;
+    }
+    // Reminder times are read in the preferred zone
+    if (zone !== (profile?.timezone ?? null)) {
+      scheduleReminders(remindersFromProfile(saved), preferencesFromProfile(saved).timeZone)
+        .catch((err) => console.warn('Rescheduling reminders failed:', err));
+    }
+    router.back();
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0066cc" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }} keyboardShouldPersistTaps="handled">
+      <View style={[styles.card, styles.avatarCard]}>
+        <Avatar path={profile?.avatar_path ?? null} name={displayName || user?.email || ''} size={96} />
+        <View style={styles.avatarActions}>
+          <TouchableOpacity onPress={pickAvatar} disabled={uploading}>
+            <Text style={styles.link}>{uploading ? 'Uploading…' : 'Change Photo'}</Text>
+          </TouchableOpacity>
+          {profile?.avatar_path && !uploading && (
+            <TouchableOpacity onPress={removeAvatar}>
+              <Text style={styles.remove}>Remove</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Display Name</Text>
+        <TextInput
+          value={displayName}
+          onChangeText={(value) => setDisplayName(sanitizeInput(value))}
+          placeholder="How the app greets you"
+          placeholderTextColor="#727272ff"
+          style={styles.input}
+          editable={!saving}
+          maxLength={MAX_DISPLAY_NAME_LENGTH}
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Time Zone</Text>
+        <Text style={styles.hint}>Entry times and daily summaries follow this zone.</Text>
+        <View style={styles.chips}>
+          <TouchableOpacity
+            style={[styles.chip, timeZone == null && styles.chipActive]}
+            onPress={() => setTimeZone(null)}
+            disabled={saving}
+          >
+            <Text style={[styles.chipText, timeZone == null && styles.chipTextActive]}>
+              Device ({deviceTimeZone()})
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.chip, timeZone != null && styles.chipActive]}
+            onPress={() => setTimeZone(timeZone ?? deviceTimeZone())}
+            disabled={saving}
+          >
+            <Text style={[styles.chipText, timeZone != null && styles.chipTextActive]}>Other</Text>
+          </TouchableOpacity>
+        </View>
+        {timeZone != null && (
+          <TextInput
+            value={timeZone}
+            onChangeText={setTimeZone}
+            placeholder="e.g. America/New_York"
+            placeholderTextColor="#727272ff"
+            style={styles.input}
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!saving}
+            maxLength={64}
+          />
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Units</Text>
+        {UNIT_SYSTEMS.map(({ value, label, description }) => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.option, units === value && styles.optionActive]}
+            onPress={() => setUnits(value)}
+            disabled={saving}
+          >
+            <Text style={[styles.optionLabel, units === value && styles.optionLabelActive]}>{label}</Text>
+            <Text style={styles.optionDescription}>{description}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Week Starts On</Text>
+        <Text style={styles.hint}>Used for weekly summaries and mood trends.</Text>
+        <View style={styles.chips}>
+          {WEEK_STARTS.map(({ value, label }) => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.chip, weekStart === value && styles.chipActive]}
+              onPress={() => setWeekStart(value)}
+              disabled={saving}
+            >
+              <Text style={[styles.chipText, weekStart === value && styles.chipTextActive]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {error && <Text style={styles.error}>⚠️ {error}</Text>}
+      <Button title={saving ? 'Saving…' : 'Save Profile'} onPress={saveProfile} disabled={saving} color="#0066cc" />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#f0fff0',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  avatarCard: {
+    alignItems: 'center',
+  },
+  avatarActions: {
+    flexDirection: 'row',
+    gap: 24,
+    marginTop: 12,
+  },
+  link: {
+    fontSize: 14,
+    color: '#0066cc',
+    fontWeight: '600',
+  },
+  remove: {
+    fontSize: 14,
+    color: '#ef4444',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#f9f9f9',
+    fontSize: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  chipActive: {
+    backgroundColor: '#e3f2fd',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#1976d2',
+    fontWeight: '600',
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  optionActive: {
+    borderColor: '#1976d2',
+    backgroundColor: '#e3f2fd',
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  optionLabelActive: {
+    color: '#1976d2',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  error: {
+    color: '#dc2626',
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,409 @@
+import { router, useLocalSearchParams } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { useMealCategories } from '@/hooks/useMealCategories';
+import { usePreferences } from '@/hooks/usePreferences';
+import { FoodEntry, MealType, useRepository } from '@/lib/data';
+import { categoryFor } from '@/lib/mealCategories';
+import { removeEntryPhotos } from '@/lib/photos';
+import { formatDateTime } from '@/lib/preferences';
+import { sanitizeInput } from '@/lib/sanitize';
+import { setUndoAction } from '@/lib/undo';
+
+const MACRO_FIELDS = [
+  { key: 'protein', label: 'Protein' },
+  { key: 'carbs', label: 'Carbs' },
+  { key: 'fat', label: 'Fat' },
+  { key: 'fiber', label: 'Fiber' },
+] as const;
+
+type MacroKey = typeof MACRO_FIELDS[number]['key'];
+
+const parseGrams = (value: string) => {
+  const n = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(n) && n >= 0 ? Math.round(n * 10) / 10 : null;
+};
+
+export default function FoodDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { food } = useRepository();
+  const { categories } = useMealCategories();
+  const { timeZone } = usePreferences();
+
+  const [entry, setEntry] = useState<FoodEntry | null>(null);
+  const [foodName, setFoodName] = useState('');
+  const [calories, setCalories] = useState('');
+  const [mealType, setMealType] = useState<MealType>('breakfast');
+  const [rating, setRating] = useState(3);
+  const [notes, setNotes] = useState('');
+  const [macros, setMacros] = useState<Record<MacroKey, string>>({ protein: '', carbs: '', fat: '', fiber: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const { data, error: getErr } = await food.get(id);
+      if (getErr) {
+        setError(getErr.message);
+      } else {
+        setEntry(data);
+        setFoodName(data.food_name);
+        setCalories(data.calories != null ? String(data.calories) : '');
+        setMealType(data.meal_type);
+        setRating(data.rating ?? 3);
+        setNotes(data.notes ?? '');
+        setMacros({
+          protein: data.protein != null ? String(data.protein) : '',
+          carbs: data.carbs != null ? String(data.carbs) : '',
+          fat: data.fat != null ? String(data.fat) : '',
+          fiber: data.fiber != null ? String(data.fiber) : '',
+        });
+      }
+      setLoading(false);
+    })();
+  }, [id, food]);
+
+  const save = async () => {
+    const trimmedName = foodName.trim();
+    if (!trimmedName) {
+      Alert.alert('Error', 'Please enter a food name');
+      return;
+    }
+
+    if (notes.length > 500) {
+      Alert.alert('Error', 'Notes too long (max 500 characters)');
+      return;
+    }
+
+    const caloriesNumber = parseInt(calories, 10) || 0;
+    if (caloriesNumber < 0 || caloriesNumber > 10000) {
+      Alert.alert('Error', 'Please enter a valid calorie amount (0-10000)');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { error: updErr } = await food.update(id, {
+      food_name: trimmedName,
+      calories: caloriesNumber,
+      meal_type: mealType,
+      rating,
+      notes: notes.trim() || null,
+      protein: parseGrams(macros.protein),
+      carbs: parseGrams(macros.carbs),
+      fat: parseGrams(macros.fat),
+      fiber: parseGrams(macros.fiber),
+    });
+    setSaving(false);
+
+    if (updErr) {
+      setError(updErr.message);
+    } else {
+      router.back();
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!entry) return;
+    Alert.alert(
+      'Delete entry',
+      `Are you sure you want to delete "${entry.food_name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setSaving(true);
+            const { error: delErr } = await food.remove(id);
+            setSaving(false);
+            if (delErr) {
+              setError(delErr.message);
+              return;
+            }
+            // Re-creating with the same id restores the entry exactly; its
+            // photos are kept until the undo is no longer offered
+            setUndoAction({
+              message: `${entry.food_name} deleted`,
+              undo: () => food.create(entry),
+              expire: () => removeEntryPhotos('food', id),
+            });
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0066cc" />
+      </View>
+    );
+  }
+
+  if (!entry) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.error}>⚠️ {error ?? 'Entry not found'}</Text>
+      </View>
+    );
+  }
+
+  const when = entry.created_at ? formatDateTime(entry.created_at, timeZone) : '';
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }} keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <Text style={styles.meta}>{when}</Text>
+
+        <Text style={styles.label}>Food</Text>
+        <View style={styles.formRow}>
+          <TextInput
+            value={foodName}
+            onChangeText={(value) => setFoodName(sanitizeInput(value))}
+            placeholder="Food name"
+            placeholderTextColor="#727272ff"
+            style={styles.input}
+            editable={!saving}
+            maxLength={100}
+          />
+          <TextInput
+            value={calories}
+            onChangeText={setCalories}
+            placeholder="Calories"
+            placeholderTextColor="#727272ff"
+            keyboardType="number-pad"
+            style={styles.inputSmall}
+            editable={!saving}
+            maxLength={5}
+          />
+        </View>
+
+        <Text style={styles.label}>Macros (g)</Text>
+        <View style={styles.formRow}>
+          {MACRO_FIELDS.map(field => (
+            <View key={field.key} style={styles.macroField}>
+              <TextInput
+                value={macros[field.key]}
+                onChangeText={(value) => setMacros((prev) => ({ ...prev, [field.key]: value }))}
+                placeholder="–"
+                placeholderTextColor="#727272ff"
+                keyboardType="decimal-pad"
+                style={styles.macroInput}
+                editable={!saving}
+                maxLength={6}
+              />
+              <Text style={styles.macroLabel}>{field.label}</Text>
+            </View>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Meal Type</Text>
+        <View style={styles.optionRow}>
+          {/* An entry whose category was since removed keeps it selectable */}
+          {(categories.some(c => c.key === mealType) ? categories : [...categories, categoryFor(categories, mealType)]).map(meal => (
+            <TouchableOpacity
+              key={meal.key}
+              style={[styles.option, mealType === meal.key && styles.optionActive]}
+              onPress={() => setMealType(meal.key)}
+              disabled={saving}
+            >
+              <Text style={styles.optionEmoji}>{meal.emoji}</Text>
+              <Text style={styles.optionText}>{meal.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Rating</Text>
+        <View style={styles.optionRow}>
+          {[1, 2, 3, 4, 5].map(num => (
+            <TouchableOpacity
+              key={num}
+              style={[styles.option, rating === num && styles.ratingActive]}
+              onPress={() => setRating(num)}
+              disabled={saving}
+            >
+              <Text style={styles.optionEmoji}>⭐</Text>
+              <Text style={styles.optionText}>{num}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Notes</Text>
+        <TextInput
+          value={notes}
+          onChangeText={(value) => setNotes(sanitizeInput(value))}
+          placeholder="Notes (optional)"
+          placeholderTextColor="#727272ff"
+          style={styles.notesInput}
+          editable={!saving}
+          multiline
+          numberOfLines={3}
+          maxLength={500}
+        />
+      </View>
+
+      {error && <Text style={styles.error}>⚠️ {error}</Text>}
+
+      <Button title={saving ? 'Saving…' : 'Save Changes'} onPress={save} disabled={saving} color="#0066cc" />
+
+      <TouchableOpacity style={styles.deleteButton} onPress={confirmDelete} disabled={saving}>
+        <Text style={styles.deleteText}>Delete Entry</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#fff8dc',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+    color: '#374151',
+  },
+  formRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#f9f9f9',
+    fontSize: 16,
+  },
+  inputSmall: {
+    width: 80,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#f9f9f9',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  macroField: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  macroInput: {
+    alignSelf: 'stretch',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingVertical: 8,
+    backgroundColor: '#f9f9f9',
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  macroLabel: {
+    fontSize: 11,
+    color: '#666',
+    marginTop: 2,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 4,
+    marginBottom: 12,
+  },
+  option: {
+    flex: 1,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  optionActive: {
+    backgroundColor: '#e3f2fd',
+    borderColor: '#1976d2',
+  },
+  ratingActive: {
+    backgroundColor: '#fff3cd',
+    borderColor: '#ffa500',
+  },
+  optionEmoji: {
+    fontSize: 18,
+    marginBottom: 2,
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  notesInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#f9f9f9',
+    fontSize: 14,
+    textAlignVertical: 'top',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  error: {
+    color: '#dc2626',
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 12,
+  },
+  deleteButton: {
+    marginTop: 16,
+    backgroundColor: '#ef4444',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  deleteText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,329 @@
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from 'expo-camera';
+import { router } from 'expo-router';
+import { useState } from 'react';
+import {
+  ActivityIndicator,
+  Button,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { lookupBarcode, LookupResult, ScanPrefill } from '@/lib/barcode';
+import { formatMacros, nutritionFor } from '@/lib/nutrition';
+
+const QUANTITY_STEP = 0.5;
+const MAX_QUANTITY = 20;
+
+export default function ScanScreen() {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [scanning, setScanning] = useState(true);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [result, setResult] = useState<LookupResult | null>(null);
+  const [typedBarcode, setTypedBarcode] = useState('');
+  const [servingIndex, setServingIndex] = useState(0);
+  const [quantity, setQuantity] = useState(1);
+
+  const lookup = async (barcode: string, type?: string) => {
+    setScanning(false);
+    setLookingUp(true);
+    setResult(await lookupBarcode(barcode, type));
+    setServingIndex(0);
+    setQuantity(1);
+    setLookingUp(false);
+  };
+
+  const scanAgain = () => {
+    setResult(null);
+    setTypedBarcode('');
+    setScanning(true);
+  };
+
+  const handleScanned = ({ data, type }: BarcodeScanningResult) => {
+    // UPC-E has as many digits as EAN-8, so the symbology decides how they are read
+    lookup(data, type);
+  };
+
+  const product = result?.status === 'found' ? result.product : null;
+  const serving = product?.servings[servingIndex];
+  const nutrition = product && serving ? nutritionFor(product, serving, quantity) : null;
+
+  const applyProduct = () => {
+    if (!product || !serving || !nutrition) return;
+    const amount = quantity === 1 ? serving.label : `${quantity} × ${serving.label}`;
+    const prefill: ScanPrefill = {
+      food_name: `${product.name} (${amount})`.slice(0, 100),
+      ...nutrition,
+    };
+    router.navigate({ pathname: '/food', params: { prefill: JSON.stringify(prefill) } });
+  };
+
+  const changeQuantity = (delta: number) => {
+    setQuantity((q) => Math.min(MAX_QUANTITY, Math.max(QUANTITY_STEP, q + delta)));
+  };
+
+  const renderCamera = () => {
+    if (!permission) {
+      return <ActivityIndicator size="large" color="#0066cc" style={{ marginVertical: 40 }} />;
+    }
+    if (!permission.granted) {
+      return (
+        <View style={styles.permission}>
+          <Text style={styles.message}>Camera access is needed to scan barcodes.</Text>
+          {permission.canAskAgain && (
+            <Button title="Allow Camera" onPress={requestPermission} color="#0066cc" />
+          )}
+        </View>
+      );
+    }
+    return (
+      <View style={styles.cameraFrame}>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['ean13', 'ean8', 'upc_a', 'upc_e'] }}
+          // Unset while a result is shown so the same code isn't reported again
+          onBarcodeScanned={scanning ? handleScanned : undefined}
+        />
+        <View style={styles.reticle} pointerEvents="none" />
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }} keyboardShouldPersistTaps="handled">
+      {scanning ? (
+        <>
+          {renderCamera()}
+          <Text style={styles.hint}>Point the camera at the barcode on the package</Text>
+          <View style={styles.manualRow}>
+            <TextInput
+              value={typedBarcode}
+              onChangeText={(value) => setTypedBarcode(value.replace(/\D/g, ''))}
+              placeholder="Or type the barcode"
+              placeholderTextColor="#727272ff"
+              keyboardType="number-pad"
+              style={styles.input}
+              maxLength={14}
+              returnKeyType="search"
+              onSubmitEditing={() => typedBarcode && lookup(typedBarcode)}
+            />
+            <Button title="Look up" onPress={() => lookup(typedBarcode)} disabled={!typedBarcode} color="#0066cc" />
+          </View>
+        </>
+      ) : lookingUp ? (
+        <ActivityIndicator size="large" color="#0066cc" style={{ marginVertical: 40 }} />
+      ) : product && serving && nutrition ? (
+        <View style={styles.card}>
+          <Text style={styles.productName}>{product.name}</Text>
+          {product.brand && <Text style={styles.brand}>{product.brand}</Text>}
+          <Text style={styles.meta}>
+            Barcode {product.barcode} • Per 100 g: {product.per100g.calories} cal
+          </Text>
+
+          <Text style={styles.label}>Serving</Text>
+          <View style={styles.servingRow}>
+            {product.servings.map((s, i) => (
+              <TouchableOpacity
+                key={s.label}
+                style={[styles.serving, i === servingIndex && styles.servingActive]}
+                onPress={() => setServingIndex(i)}
+              >
+                <Text style={styles.servingText}>{s.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Number of servings</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity style={styles.stepButton} onPress={() => changeQuantity(-QUANTITY_STEP)}>
+              <Text style={styles.stepText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.quantity}>{quantity}</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => changeQuantity(QUANTITY_STEP)}>
+              <Text style={styles.stepText}>+</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.calories}>{nutrition.calories} cal</Text>
+          <Text style={styles.meta}>{formatMacros(nutrition)}</Text>
+
+          <View style={styles.actions}>
+            <Button title="Use This Product" onPress={applyProduct} color="#0066cc" />
+            <TouchableOpacity style={styles.secondary} onPress={scanAgain}>
+              <Text style={styles.secondaryText}>Scan Another</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.card}>
+          <Text style={styles.message}>
+            {result?.status === 'invalid'
+              ? 'That doesn’t look like a product barcode.'
+              : result?.status === 'error'
+                ? `Lookup failed: ${result.message}`
+                : `No product found for ${result?.status === 'not_found' ? result.barcode : 'this barcode'}.`}
+          </Text>
+          <View style={styles.actions}>
+            <Button title="Scan Again" onPress={scanAgain} color="#0066cc" />
+            <TouchableOpacity style={styles.secondary} onPress={() => router.back()}>
+              <Text style={styles.secondaryText}>Enter Manually</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#fff8dc',
+  },
+  cameraFrame: {
+    height: 320,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#000',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  reticle: {
+    width: '75%',
+    height: 120,
+    borderWidth: 2,
+    borderColor: '#ffa500',
+    borderRadius: 8,
+  },
+  permission: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 12,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  manualRow: {
+    flexDirection: 'row',
+    gap: 8,
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#fff',
+    fontSize: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  productName: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#2d3748',
+  },
+  brand: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  servingRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  serving: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  servingActive: {
+    backgroundColor: '#e3f2fd',
+    borderColor: '#1976d2',
+  },
+  servingText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  stepButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepText: {
+    fontSize: 22,
+    color: '#0066cc',
+  },
+  quantity: {
+    fontSize: 18,
+    fontWeight: '600',
+    minWidth: 40,
+    textAlign: 'center',
+  },
+  calories: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1976d2',
+    marginTop: 16,
+  },
+  message: {
+    fontSize: 15,
+    color: '#374151',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  actions: {
+    marginTop: 16,
+    gap: 8,
+  },
+  secondary: {
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  secondaryText: {
+    color: '#0066cc',
+    fontSize: 15,
+  },
+});
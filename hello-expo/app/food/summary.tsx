@@ -0,0 +1,415 @@
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { DateField } from '@/components/DateField';
+import { useMealCategories } from '@/hooks/useMealCategories';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useProfile } from '@/hooks/useProfile';
+import { FoodDaySummary, useRepository } from '@/lib/data';
+import {
+  customRange,
+  formatVolume,
+  goalsFromProfile,
+  rangeFor,
+  RangeKind,
+  shiftRange,
+  summarizeRange,
+  waterGoalFromProfile,
+} from '@/lib/nutrition';
+import { countMeals } from '@/lib/mealCategories';
+import { addDays, calendarDate, dateKey, startOfDay, zonedDate } from '@/lib/trends';
+
+const RANGES: { key: RangeKind; label: string }[] = [
+  { key: 'day', label: 'Day' },
+  { key: 'week', label: 'Week' },
+  { key: 'month', label: 'Month' },
+  { key: 'custom', label: 'Custom' },
+];
+
+function rangeLabel(kind: RangeKind, from: Date, to: Date, timeZone: string) {
+  if (kind === 'day') {
+    return from.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', timeZone });
+  }
+  if (kind === 'month') return from.toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone });
+  const shortDate = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone });
+  // `to` is the start of the day after the range
+  return `${shortDate(from)} – ${shortDate(new Date(to.getTime() - 1))}`;
+}
+
+export default function FoodSummaryScreen() {
+  const { food } = useRepository();
+  const { profile } = useProfile();
+  const { categories } = useMealCategories();
+  const { timeZone, units, weekStart } = usePreferences();
+  const calorieGoal = goalsFromProfile(profile).calories;
+  const waterGoal = waterGoalFromProfile(profile);
+
+  // Days start and end in the preferred time zone; the date pickers work in
+  // the device's, so picked dates are converted by their calendar date
+  const today = startOfDay(new Date(), timeZone);
+  const toPicker = (date: Date) => {
+    const { year, month, day } = calendarDate(date, timeZone);
+    return new Date(year, month, day);
+  };
+  const fromPicker = (date: Date) => zonedDate(date.getFullYear(), date.getMonth(), date.getDate(), timeZone);
+  const [kind, setKind] = useState<RangeKind>('week');
+  const [anchor, setAnchor] = useState(today);
+  const [customStart, setCustomStart] = useState(() => addDays(today, -13, timeZone));
+  const [customEnd, setCustomEnd] = useState(today);
+
+  const [rows, setRows] = useState<FoodDaySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = useMemo(
+    () => (kind === 'custom'
+      ? customRange(customStart, customEnd, timeZone)
+      : rangeFor(kind, anchor, weekStart, timeZone)),
+    [kind, anchor, customStart, customEnd, weekStart, timeZone]
+  );
+
+  const load = useCallback(async () => {
+    setRefreshing(true);
+    setError(null);
+    const { data, error: summaryErr } = await food.summary(range, timeZone);
+    if (summaryErr) setError(summaryErr.message);
+    else setRows(data);
+    setRefreshing(false);
+    setLoading(false);
+  }, [food, range, timeZone]);
+
+  useFocusEffect(useCallback(() => {
+    load();
+  }, [load]));
+
+  const summary = useMemo(() => summarizeRange(range, rows), [range, rows]);
+  const canGoForward = range.to <= today;
+  const averageCalories = summary.loggedDays > 0 ? Math.round(summary.totals.calories / summary.loggedDays) : 0;
+  const daysOver = calorieGoal != null ? rows.filter((row) => row.calories > calorieGoal).length : 0;
+  const averageWater = summary.hydratedDays > 0 ? Math.round(summary.hydration.waterMl / summary.hydratedDays) : 0;
+  const daysHydrated = rows.filter((row) => row.water_ml >= waterGoal).length;
+
+  const mealRows = countMeals(categories, summary.mealCounts);
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={{ paddingBottom: 40 }}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={load} tintColor="#0066cc" />}
+    >
+      <View style={styles.card}>
+        <View style={styles.segment}>
+          {RANGES.map((r) => (
+            <TouchableOpacity
+              key={r.key}
+              style={[styles.segmentButton, kind === r.key && styles.segmentButtonActive]}
+              onPress={() => setKind(r.key)}
+            >
+              <Text style={[styles.segmentText, kind === r.key && styles.segmentTextActive]}>{r.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {kind === 'custom' ? (
+          <View style={styles.pickerRow}>
+            <DateField
+              value={toPicker(customStart)}
+              onChange={(date) => setCustomStart(fromPicker(date))}
+              maximumDate={toPicker(customEnd)}
+            />
+            <Text style={styles.pickerSeparator}>to</Text>
+            <DateField
+              value={toPicker(customEnd)}
+              onChange={(date) => setCustomEnd(fromPicker(date))}
+              minimumDate={toPicker(customStart)}
+              maximumDate={toPicker(today)}
+            />
+          </View>
+        ) : (
+          <>
+            <View style={styles.navRow}>
+              <TouchableOpacity style={styles.navButton} onPress={() => setAnchor(shiftRange(kind, anchor, -1, timeZone))}>
+                <Text style={styles.navText}>‹</Text>
+              </TouchableOpacity>
+              <Text style={styles.rangeLabel}>{rangeLabel(kind, range.from, range.to, timeZone)}</Text>
+              <TouchableOpacity
+                style={styles.navButton}
+                onPress={() => setAnchor(shiftRange(kind, anchor, 1, timeZone))}
+                disabled={!canGoForward}
+              >
+                <Text style={[styles.navText, !canGoForward && styles.navDisabled]}>›</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.pickerRow}>
+              <DateField
+                value={toPicker(anchor)}
+                onChange={(date) => setAnchor(fromPicker(date))}
+                maximumDate={toPicker(today)}
+              />
+            </View>
+          </>
+        )}
+      </View>
+
+      {error && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.error}>⚠️ {error}</Text>
+        </View>
+      )}
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#0066cc" style={{ marginTop: 40 }} />
+      ) : summary.entries === 0 && summary.hydration.drinks === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyEmoji}>🍽️</Text>
+          <Text style={styles.empty}>No food or drinks logged in this period</Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Calories</Text>
+            <Text style={styles.bigValue}>{summary.totals.calories} cal</Text>
+            <Text style={styles.detail}>
+              {summary.entries} entries on {summary.loggedDays} of {summary.days} days • {averageCalories} cal per logged day
+            </Text>
+            {calorieGoal != null && (
+              <Text style={[styles.detail, daysOver > 0 ? styles.over : styles.under]}>
+                {daysOver > 0
+                  ? `Over your ${calorieGoal} cal goal on ${daysOver} ${daysOver === 1 ? 'day' : 'days'}`
+                  : `Within your ${calorieGoal} cal goal every day`}
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Macros</Text>
+            <Text style={styles.line}>🥩 Protein: {summary.totals.protein} g</Text>
+            <Text style={styles.line}>🍞 Carbs: {summary.totals.carbs} g</Text>
+            <Text style={styles.line}>🧈 Fat: {summary.totals.fat} g</Text>
+            <Text style={styles.line}>🌾 Fiber: {summary.totals.fiber} g</Text>
+          </View>
+
+          {summary.hydration.drinks > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Hydration</Text>
+              <Text style={styles.bigValue}>{formatVolume(summary.hydration.waterMl, units)}</Text>
+              <Text style={styles.detail}>
+                {summary.hydration.drinks} drinks on {summary.hydratedDays} of {summary.days} days •{' '}
+                {formatVolume(averageWater, units)} per day with drinks
+              </Text>
+              <Text style={styles.detail}>
+                Reached your {formatVolume(waterGoal, units)} goal on {daysHydrated}{' '}
+                {daysHydrated === 1 ? 'day' : 'days'}
+              </Text>
+              <Text style={[styles.line, { marginTop: 8 }]}>☕ Caffeinated: {summary.hydration.caffeinated}</Text>
+              <Text style={styles.line}>🍷 Alcoholic: {summary.hydration.alcoholic}</Text>
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Meals</Text>
+            {mealRows.map((meal) => (
+              <Text key={meal.key} style={styles.line}>
+                {meal.emoji} {meal.label}: {meal.count}
+              </Text>
+            ))}
+            {summary.averageRating != null && (
+              <Text style={[styles.line, { marginTop: 8 }]}>
+                {'⭐'.repeat(Math.round(summary.averageRating))} ({summary.averageRating.toFixed(1)}/5 average)
+              </Text>
+            )}
+          </View>
+
+          {rows.length > 1 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>By Day</Text>
+              {rows.map((row) => {
+                const [y, m, d] = row.day.split('-').map(Number);
+                const date = new Date(y, m - 1, d);
+                return (
+                  <View key={row.day} style={styles.dayRow}>
+                    <Text style={styles.dayLabel}>
+                      {date.toLocaleDateString(undefined, { weekday: 'short', month: 'numeric', day: 'numeric' })}
+                      {row.day === dateKey(today, timeZone) ? ' (today)' : ''}
+                    </Text>
+                    {row.drinks > 0 && <Text style={styles.dayWater}>💧 {formatVolume(row.water_ml, units)}</Text>}
+                    <Text
+                      style={[
+                        styles.dayCalories,
+                        calorieGoal != null && (row.calories > calorieGoal ? styles.over : styles.under),
+                      ]}
+                    >
+                      {row.calories} cal
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#fff8dc',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  segment: {
+    flexDirection: 'row',
+    gap: 4,
+    marginBottom: 12,
+  },
+  segmentButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+  },
+  segmentButtonActive: {
+    backgroundColor: '#e3f2fd',
+  },
+  segmentText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  segmentTextActive: {
+    color: '#1976d2',
+    fontWeight: '600',
+  },
+  navRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  navButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  navText: {
+    fontSize: 28,
+    color: '#0066cc',
+  },
+  navDisabled: {
+    color: '#d1d5db',
+  },
+  rangeLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  pickerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  pickerSeparator: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  bigValue: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1976d2',
+  },
+  detail: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  over: {
+    color: '#dc2626',
+  },
+  under: {
+    color: '#10b981',
+  },
+  line: {
+    fontSize: 14,
+    color: '#4b5563',
+    marginBottom: 4,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  dayLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  dayWater: {
+    flex: 1,
+    textAlign: 'right',
+    marginRight: 12,
+    fontSize: 13,
+    color: '#0284c7',
+  },
+  dayCalories: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  error: {
+    color: '#dc2626',
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyEmoji: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  empty: {
+    color: '#374151',
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
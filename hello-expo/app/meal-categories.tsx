@@ -0,0 +1,321 @@
+import { router } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { useMealCategories } from '@/hooks/useMealCategories';
+import { MealCategoryInput, useRepository } from '@/lib/data';
+import { categoryKey, DEFAULT_MEAL_CATEGORIES, formatMinute, parseMinute } from '@/lib/mealCategories';
+import { sanitizeInput } from '@/lib/sanitize';
+
+const MAX_CATEGORIES = 12;
+
+/**
+ * A category while it is being edited; times stay as typed until saving.
+ * New categories have no key yet — it is derived from the name on save.
+ */
+type Draft = { id: string; key: string | null; label: string; emoji: string; start: string; end: string };
+
+const toDraft = (category: MealCategoryInput): Draft => ({
+  id: category.key,
+  key: category.key,
+  label: category.label,
+  emoji: category.emoji,
+  start: category.start_minute != null ? formatMinute(category.start_minute) : '',
+  end: category.end_minute != null ? formatMinute(category.end_minute) : '',
+});
+
+/** Validated categories, or the message to show for the first invalid row */
+function fromDrafts(drafts: Draft[]): { categories: MealCategoryInput[] } | { error: string } {
+  const categories: MealCategoryInput[] = [];
+  const taken = drafts.flatMap((draft) => (draft.key ? [draft.key] : []));
+  for (const draft of drafts) {
+    const label = draft.label.trim();
+    if (!label) return { error: 'Every category needs a name' };
+    const key = draft.key ?? categoryKey(label, taken);
+    taken.push(key);
+    const emoji = draft.emoji || '🍽️';
+
+    if (!draft.start.trim() && !draft.end.trim()) {
+      categories.push({ key, label, emoji, start_minute: null, end_minute: null });
+      continue;
+    }
+    const start = parseMinute(draft.start);
+    const end = parseMinute(draft.end);
+    if (start == null || end == null) return { error: `${label}: enter both times as HH:MM, or leave both empty` };
+    if (start % 1440 === end % 1440) return { error: `${label}: the window must not start and end at the same time` };
+    // 24:00 is accepted as an end time but stored as midnight
+    categories.push({ key, label, emoji, start_minute: start % 1440, end_minute: end % 1440 });
+  }
+  return { categories };
+}
+
+export default function MealCategoriesScreen() {
+  const { mealCategories } = useRepository();
+  const { categories, loading, error: loadError } = useMealCategories();
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading) setDrafts(categories.map(toDraft));
+  }, [categories, loading]);
+
+  const update = (index: number, patch: Partial<Draft>) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+  };
+
+  const move = (index: number, delta: number) => {
+    setDrafts((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const remove = (index: number) => {
+    setDrafts((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const add = () => {
+    setDrafts((prev) => [
+      ...prev,
+      { id: `new-${Date.now()}`, key: null, label: '', emoji: '🍽️', start: '', end: '' },
+    ]);
+  };
+
+  const save = async () => {
+    if (drafts.length === 0) {
+      Alert.alert('Error', 'Keep at least one category');
+      return;
+    }
+    const result = fromDrafts(drafts);
+    if ('error' in result) {
+      Alert.alert('Error', result.error);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { error: saveErr } = await mealCategories.replace(result.categories);
+    setSaving(false);
+
+    if (saveErr) setError(saveErr.message);
+    else router.back();
+  };
+
+  const resetToDefaults = () => {
+    Alert.alert('Reset categories', 'Replace your categories with Breakfast, Lunch, Dinner and Snack?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Reset', style: 'destructive', onPress: () => setDrafts(DEFAULT_MEAL_CATEGORIES.map(toDraft)) },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0066cc" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }} keyboardShouldPersistTaps="handled">
+      <Text style={styles.hint}>
+        New entries default to the category whose time window contains the current time. Categories without a
+        window are used outside every window. Existing entries keep their category even if you remove it here.
+      </Text>
+
+      {drafts.map((draft, index) => (
+        <View key={draft.id} style={styles.card}>
+          <View style={styles.row}>
+            <TextInput
+              value={draft.emoji}
+              onChangeText={(value) => update(index, { emoji: value.trim().slice(0, 4) })}
+              style={[styles.input, styles.emojiInput]}
+              editable={!saving}
+            />
+            <TextInput
+              value={draft.label}
+              onChangeText={(value) => update(index, { label: sanitizeInput(value) })}
+              placeholder="Name (e.g. Pre-workout)"
+              placeholderTextColor="#727272ff"
+              style={styles.input}
+              editable={!saving}
+              maxLength={40}
+            />
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.timeLabel}>From</Text>
+            <TextInput
+              value={draft.start}
+              onChangeText={(value) => update(index, { start: value })}
+              placeholder="HH:MM"
+              placeholderTextColor="#727272ff"
+              keyboardType="numbers-and-punctuation"
+              style={[styles.input, styles.timeInput]}
+              editable={!saving}
+              maxLength={5}
+            />
+            <Text style={styles.timeLabel}>to</Text>
+            <TextInput
+              value={draft.end}
+              onChangeText={(value) => update(index, { end: value })}
+              placeholder="HH:MM"
+              placeholderTextColor="#727272ff"
+              keyboardType="numbers-and-punctuation"
+              style={[styles.input, styles.timeInput]}
+              editable={!saving}
+              maxLength={5}
+            />
+          </View>
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => move(index, -1)} disabled={saving || index === 0}>
+              <Text style={[styles.action, index === 0 && styles.actionDisabled]}>↑</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => move(index, 1)} disabled={saving || index === drafts.length - 1}>
+              <Text style={[styles.action, index === drafts.length - 1 && styles.actionDisabled]}>↓</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.removeButton} onPress={() => remove(index)} disabled={saving}>
+              <Text style={styles.remove}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+
+      {drafts.length < MAX_CATEGORIES && (
+        <TouchableOpacity style={styles.addButton} onPress={add} disabled={saving}>
+          <Text style={styles.addText}>＋ Add Category</Text>
+        </TouchableOpacity>
+      )}
+
+      {(error ?? loadError) && <Text style={styles.error}>⚠️ {error ?? loadError}</Text>}
+
+      <Button title={saving ? 'Saving…' : 'Save Categories'} onPress={save} disabled={saving} color="#0066cc" />
+
+      <TouchableOpacity style={styles.resetButton} onPress={resetToDefaults} disabled={saving}>
+        <Text style={styles.resetText}>Reset to Defaults</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#fff8dc',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#f9f9f9',
+    fontSize: 16,
+  },
+  emojiInput: {
+    flex: 0,
+    width: 52,
+    textAlign: 'center',
+  },
+  timeInput: {
+    flex: 0,
+    width: 80,
+    textAlign: 'center',
+  },
+  timeLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  action: {
+    fontSize: 20,
+    color: '#0066cc',
+    paddingHorizontal: 4,
+  },
+  actionDisabled: {
+    color: '#d1d5db',
+  },
+  removeButton: {
+    marginLeft: 'auto',
+  },
+  remove: {
+    fontSize: 14,
+    color: '#ef4444',
+  },
+  addButton: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#0066cc',
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  addText: {
+    color: '#0066cc',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  error: {
+    color: '#dc2626',
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 12,
+  },
+  resetButton: {
+    marginTop: 16,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  resetText: {
+    color: '#6b7280',
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,268 @@
+import { router, useLocalSearchParams } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { MoodDimensionsForm } from '@/components/MoodDimensionsForm';
+import { MOOD_EMOJIS } from '@/constants/Entries';
+import { usePlaces } from '@/hooks/usePlaces';
+import { usePreferences } from '@/hooks/usePreferences';
+import { Mood, useRepository } from '@/lib/data';
+import { formatLocation } from '@/lib/location';
+import { dimensionsOf, EMPTY_DIMENSIONS, MoodDimensions } from '@/lib/moodDimensions';
+import { removeEntryPhotos } from '@/lib/photos';
+import { formatDateTime } from '@/lib/preferences';
+import { setUndoAction } from '@/lib/undo';
+import { formatWeather } from '@/lib/weather';
+
+export default function MoodDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { moods } = useRepository();
+  const { places } = usePlaces();
+  const { timeZone, units } = usePreferences();
+
+  const [entry, setEntry] = useState<Mood | null>(null);
+  const [text, setText] = useState('');
+  const [mood, setMood] = useState(3);
+  const [dimensions, setDimensions] = useState<MoodDimensions>(EMPTY_DIMENSIONS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const { data, error: getErr } = await moods.get(id);
+      if (getErr) {
+        setError(getErr.message);
+      } else {
+        setEntry(data);
+        setText(data.text);
+        setMood(data.mood ?? 3);
+        setDimensions(dimensionsOf(data));
+      }
+      setLoading(false);
+    })();
+  }, [id, moods]);
+
+  const save = async () => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      Alert.alert('Error', 'Entry text cannot be empty');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { error: updErr } = await moods.update(id, { text: trimmed, mood, ...dimensions });
+    setSaving(false);
+
+    if (updErr) {
+      setError(updErr.message);
+    } else {
+      router.back();
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!entry) return;
+    Alert.alert(
+      'Delete entry',
+      'Are you sure you want to delete this mood entry?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setSaving(true);
+            const { error: delErr } = await moods.remove(id);
+            setSaving(false);
+            if (delErr) {
+              setError(delErr.message);
+              return;
+            }
+            // Re-creating with the same id restores the entry exactly; its
+            // photos are kept until the undo is no longer offered
+            setUndoAction({
+              message: 'Mood entry deleted',
+              undo: () => moods.create(entry),
+              expire: () => removeEntryPhotos('mood', id),
+            });
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0066cc" />
+      </View>
+    );
+  }
+
+  if (!entry) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.error}>⚠️ {error ?? 'Entry not found'}</Text>
+      </View>
+    );
+  }
+
+  const when = entry.created_at ? formatDateTime(entry.created_at, timeZone) : '';
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }}>
+      <View style={styles.card}>
+        <Text style={styles.label}>Entry</Text>
+        <TextInput
+          value={text}
+          onChangeText={setText}
+          placeholder="How are you feeling?"
+          placeholderTextColor="#727272ff"
+          style={styles.input}
+          editable={!saving}
+          multiline
+          numberOfLines={3}
+        />
+
+        <Text style={styles.label}>Mood</Text>
+        <View style={styles.moodButtons}>
+          {[1, 2, 3, 4, 5].map(num => (
+            <TouchableOpacity
+              key={num}
+              style={[styles.moodButton, mood === num && styles.moodButtonActive]}
+              onPress={() => setMood(num)}
+              disabled={saving}
+            >
+              <Text style={styles.moodButtonText}>{MOOD_EMOJIS[num - 1]}</Text>
+              <Text style={styles.moodNumber}>{num}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.meta}>{when}</Text>
+        {formatWeather(entry) !== '' && <Text style={styles.meta}>{formatWeather(entry, units)}</Text>}
+        {formatLocation(entry, places) !== '' && <Text style={styles.meta}>{formatLocation(entry, places)}</Text>}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Check-in</Text>
+        <MoodDimensionsForm value={dimensions} onChange={setDimensions} disabled={saving} />
+      </View>
+
+      {error && <Text style={styles.error}>⚠️ {error}</Text>}
+
+      <Button title={saving ? 'Saving…' : 'Save Changes'} onPress={save} disabled={saving} color="#0066cc" />
+
+      <TouchableOpacity style={styles.deleteButton} onPress={confirmDelete} disabled={saving}>
+        <Text style={styles.deleteText}>Delete Entry</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: 'rgba(240, 255, 234, 1)',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+    color: '#374151',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#f9f9f9',
+    textAlignVertical: 'top',
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  moodButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  moodButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  moodButtonActive: {
+    backgroundColor: '#e3f2fd',
+    borderColor: '#1976d2',
+  },
+  moodButtonText: {
+    fontSize: 22,
+  },
+  moodNumber: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  error: {
+    color: '#dc2626',
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 12,
+  },
+  deleteButton: {
+    marginTop: 16,
+    backgroundColor: '#ef4444',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  deleteText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,248 @@
+import * as Location from 'expo-location';
+import { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { usePlaces } from '@/hooks/usePlaces';
+import { Place, useRepository } from '@/lib/data';
+import { DEFAULT_PLACE_RADIUS_M, formatLocation, PLACE_RADII } from '@/lib/location';
+import { sanitizeInput } from '@/lib/sanitize';
+
+const MAX_PLACES = 20;
+
+const formatRadius = (metres: number) => (metres >= 1000 ? `${metres / 1000} km` : `${metres} m`);
+
+export default function PlacesScreen() {
+  const { places: repo } = useRepository();
+  const { places, loading, error: loadError, reload } = usePlaces();
+  const [name, setName] = useState('');
+  const [radius, setRadius] = useState(DEFAULT_PLACE_RADIUS_M);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const addCurrentLocation = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      Alert.alert('Error', 'Give the place a name first');
+      return;
+    }
+    if (places.some((p) => p.name.toLowerCase() === trimmed.toLowerCase())) {
+      Alert.alert('Error', `You already have a place called ${trimmed}`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      setSaving(false);
+      Alert.alert('Location Off', 'Allow location access to save where you are as a place.');
+      return;
+    }
+
+    try {
+      const pos = await Location.getCurrentPositionAsync({});
+      const { error: createErr } = await repo.create({
+        name: trimmed,
+        lat: pos.coords.latitude,
+        lng: pos.coords.longitude,
+        radius_m: radius,
+      });
+      if (createErr) setError(createErr.message);
+      else {
+        setName('');
+        await reload();
+      }
+    } catch (locationError) {
+      console.warn('Location fetch failed:', locationError);
+      setError('Could not get your current location');
+    }
+    setSaving(false);
+  };
+
+  const remove = (place: Place) => {
+    Alert.alert('Remove place', `Remove ${place.name}? Entries logged there keep the name.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          const { error: removeErr } = await repo.remove(place.id);
+          if (removeErr) setError(removeErr.message);
+          else await reload();
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0066cc" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }} keyboardShouldPersistTaps="handled">
+      <Text style={styles.hint}>
+        Mood entries logged within a place&apos;s radius show its name instead of coordinates, and insights compare
+        your mood between places.
+      </Text>
+
+      {places.map((place) => (
+        <View key={place.id} style={styles.card}>
+          <View style={styles.row}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.placeName}>{place.name}</Text>
+              <Text style={styles.meta}>
+                {formatLocation({ lat: place.lat, lng: place.lng })} • within {formatRadius(place.radius_m)}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => remove(place)}>
+              <Text style={styles.remove}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+
+      {places.length < MAX_PLACES && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Add where you are now</Text>
+          <TextInput
+            value={name}
+            onChangeText={(value) => setName(sanitizeInput(value))}
+            placeholder="Name (e.g. Home, Office)"
+            placeholderTextColor="#727272ff"
+            style={styles.input}
+            editable={!saving}
+            maxLength={40}
+          />
+          <View style={styles.chips}>
+            {PLACE_RADII.map((value) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, radius === value && styles.chipActive]}
+                onPress={() => setRadius(value)}
+                disabled={saving}
+              >
+                <Text style={[styles.chipText, radius === value && styles.chipTextActive]}>{formatRadius(value)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Button
+            title={saving ? 'Saving…' : 'Save Current Location'}
+            onPress={addCurrentLocation}
+            disabled={saving}
+            color="#0066cc"
+          />
+        </View>
+      )}
+
+      {(error ?? loadError) && <Text style={styles.error}>⚠️ {error ?? loadError}</Text>}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#fff8dc',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  placeName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  remove: {
+    fontSize: 14,
+    color: '#ef4444',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#f9f9f9',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+  },
+  chipActive: {
+    backgroundColor: '#e3f2fd',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#1976d2',
+    fontWeight: '600',
+  },
+  error: {
+    color: '#dc2626',
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,384 @@
+import { router, useLocalSearchParams, useNavigation } from 'expo-router';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { RecipeIngredientInput, useRepository } from '@/lib/data';
+import {
+  FoodItem,
+  formatMacros,
+  ingredientFromFood,
+  recipeNutrition,
+  recipeTotals,
+  searchFoods,
+} from '@/lib/nutrition';
+import { sanitizeInput } from '@/lib/sanitize';
+
+const MAX_INGREDIENTS = 50;
+
+export default function RecipeEditorScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const isNew = id === 'new';
+  const { recipes } = useRepository();
+  const navigation = useNavigation();
+
+  const [name, setName] = useState('');
+  const [servings, setServings] = useState('1');
+  const [ingredients, setIngredients] = useState<RecipeIngredientInput[]>([]);
+  const [loading, setLoading] = useState(!isNew);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ingredient search
+  const [query, setQuery] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [expandedFood, setExpandedFood] = useState<FoodItem | null>(null);
+  const results = useMemo(() => (query.trim() ? searchFoods(query, 8) : []), [query]);
+
+  useEffect(() => {
+    navigation.setOptions({ title: isNew ? 'New Recipe' : 'Edit Recipe' });
+  }, [navigation, isNew]);
+
+  useEffect(() => {
+    if (isNew) return;
+    (async () => {
+      const { data, error: getErr } = await recipes.get(id);
+      if (getErr) {
+        setError(getErr.message);
+      } else {
+        setName(data.name);
+        setServings(String(data.servings));
+        setIngredients(data.ingredients.map(({ id: _id, recipe_id, user_id, position, ...ingredient }) => ingredient));
+      }
+      setLoading(false);
+    })();
+  }, [id, isNew, recipes]);
+
+  const servingsNumber = parseFloat(servings.replace(',', '.'));
+  const totals = recipeTotals(ingredients);
+  const perServing = recipeNutrition({ servings: servingsNumber > 0 ? servingsNumber : 1, ingredients });
+
+  const addIngredient = (item: FoodItem, serving: FoodItem['servings'][number]) => {
+    const amount = parseFloat(quantity.replace(',', '.'));
+    if (!(amount > 0)) {
+      Alert.alert('Error', 'Please enter a quantity greater than 0');
+      return;
+    }
+    if (ingredients.length >= MAX_INGREDIENTS) {
+      Alert.alert('Error', `A recipe can have at most ${MAX_INGREDIENTS} ingredients`);
+      return;
+    }
+    setIngredients((prev) => [...prev, ingredientFromFood(item, serving, amount)]);
+    setQuery('');
+    setQuantity('1');
+    setExpandedFood(null);
+  };
+
+  const removeIngredient = (index: number) => {
+    setIngredients((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const save = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      Alert.alert('Error', 'Please enter a recipe name');
+      return;
+    }
+    if (!(servingsNumber > 0) || servingsNumber > 100) {
+      Alert.alert('Error', 'Please enter a number of servings between 0 and 100');
+      return;
+    }
+    if (ingredients.length === 0) {
+      Alert.alert('Error', 'Add at least one ingredient');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { error: saveErr } = await recipes.save({
+      id: isNew ? undefined : id,
+      name: trimmedName,
+      servings: Math.round(servingsNumber * 10) / 10,
+      ingredients,
+    });
+    setSaving(false);
+
+    if (saveErr) setError(saveErr.message);
+    else router.back();
+  };
+
+  const confirmDelete = () => {
+    Alert.alert('Delete recipe', `Are you sure you want to delete "${name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          setSaving(true);
+          const { error: delErr } = await recipes.remove(id);
+          setSaving(false);
+          if (delErr) setError(delErr.message);
+          else router.back();
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0066cc" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }} keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <Text style={styles.label}>Name</Text>
+        <TextInput
+          value={name}
+          onChangeText={(value) => setName(sanitizeInput(value))}
+          placeholder="e.g. Usual breakfast"
+          placeholderTextColor="#727272ff"
+          style={styles.input}
+          editable={!saving}
+          maxLength={100}
+        />
+
+        <Text style={styles.label}>Makes how many servings?</Text>
+        <TextInput
+          value={servings}
+          onChangeText={setServings}
+          placeholder="1"
+          placeholderTextColor="#727272ff"
+          keyboardType="decimal-pad"
+          style={[styles.input, styles.inputSmall]}
+          editable={!saving}
+          maxLength={5}
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Ingredients</Text>
+        {ingredients.length === 0 ? (
+          <Text style={styles.meta}>No ingredients yet. Search below to add some.</Text>
+        ) : (
+          ingredients.map((ingredient, index) => (
+            <View key={`${ingredient.food_name}-${index}`} style={styles.ingredientRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.ingredientName}>{ingredient.food_name}</Text>
+                <Text style={styles.meta}>
+                  {ingredient.quantity} × {ingredient.serving_label} • {ingredient.calories} cal
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => removeIngredient(index)} disabled={saving}>
+                <Text style={styles.remove}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+
+        <View style={styles.searchRow}>
+          <TextInput
+            value={query}
+            onChangeText={(value) => {
+              setQuery(sanitizeInput(value));
+              setExpandedFood(null);
+            }}
+            placeholder="Add ingredient (e.g. egg, toast)"
+            placeholderTextColor="#727272ff"
+            style={styles.input}
+            editable={!saving}
+          />
+          <TextInput
+            value={quantity}
+            onChangeText={setQuantity}
+            placeholder="Qty"
+            placeholderTextColor="#727272ff"
+            keyboardType="decimal-pad"
+            style={[styles.input, styles.quantityInput]}
+            editable={!saving}
+            maxLength={5}
+          />
+        </View>
+        {results.map((item) => (
+          <TouchableOpacity
+            key={item.id}
+            style={styles.result}
+            onPress={() => setExpandedFood(expandedFood?.id === item.id ? null : item)}
+          >
+            <Text style={styles.resultName}>{item.name}</Text>
+            <Text style={styles.meta}>Per 100 g: {item.per100g.calories} cal</Text>
+            {expandedFood?.id === item.id && (
+              <View style={styles.servingList}>
+                {item.servings.map((serving) => (
+                  <TouchableOpacity
+                    key={serving.label}
+                    style={styles.servingButton}
+                    onPress={() => addIngredient(item, serving)}
+                  >
+                    <Text style={styles.servingText}>＋ {serving.label} ({serving.grams} g)</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {ingredients.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.label}>Nutrition</Text>
+          <Text style={styles.total}>Whole recipe: {totals.calories} cal</Text>
+          <Text style={styles.meta}>{formatMacros(totals)}</Text>
+          <Text style={[styles.total, { marginTop: 8 }]}>Per serving: {perServing.calories} cal</Text>
+          <Text style={styles.meta}>{formatMacros(perServing)}</Text>
+        </View>
+      )}
+
+      {error && <Text style={styles.error}>⚠️ {error}</Text>}
+
+      <Button title={saving ? 'Saving…' : 'Save Recipe'} onPress={save} disabled={saving} color="#0066cc" />
+
+      {!isNew && (
+        <TouchableOpacity style={styles.deleteButton} onPress={confirmDelete} disabled={saving}>
+          <Text style={styles.deleteText}>Delete Recipe</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#fff8dc',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+    color: '#374151',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#f9f9f9',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  inputSmall: {
+    flex: 0,
+    width: 80,
+    textAlign: 'center',
+  },
+  quantityInput: {
+    flex: 0,
+    width: 64,
+    textAlign: 'center',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  ingredientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  ingredientName: {
+    fontSize: 15,
+    color: '#2d3748',
+  },
+  remove: {
+    fontSize: 16,
+    color: '#ef4444',
+    paddingHorizontal: 8,
+  },
+  result: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  resultName: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  servingList: {
+    marginTop: 6,
+    gap: 4,
+  },
+  servingButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#e3f2fd',
+  },
+  servingText: {
+    fontSize: 13,
+    color: '#1976d2',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  total: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1976d2',
+  },
+  error: {
+    color: '#dc2626',
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 12,
+  },
+  deleteButton: {
+    marginTop: 16,
+    backgroundColor: '#ef4444',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  deleteText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
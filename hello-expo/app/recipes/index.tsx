@@ -0,0 +1,320 @@
+import { router, useFocusEffect } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { useMealCategories } from '@/hooks/useMealCategories';
+import { MealType, RecipeWithIngredients, useRepository } from '@/lib/data';
+import { categoryFor, DEFAULT_MEAL_CATEGORIES, inferMealType } from '@/lib/mealCategories';
+import { formatMacros, recipeNutrition } from '@/lib/nutrition';
+import { enqueue } from '@/lib/outbox';
+import { useSession } from '@/lib/session';
+
+const SERVING_STEP = 0.5;
+
+export default function RecipesScreen() {
+  const { recipes } = useRepository();
+  const [items, setItems] = useState<RecipeWithIngredients[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { userId } = useSession();
+  const { categories } = useMealCategories();
+  const [mealType, setMealType] = useState<MealType>(() => inferMealType(DEFAULT_MEAL_CATEGORIES));
+  const [mealTypePicked, setMealTypePicked] = useState(false);
+  // Servings to log per recipe; recipes not in the map log one serving
+  const [servings, setServings] = useState<Record<string, number>>({});
+  const [logging, setLogging] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setRefreshing(true);
+    setError(null);
+    const { data, error: listErr } = await recipes.list();
+    if (listErr) setError(listErr.message);
+    else setItems(data);
+    setRefreshing(false);
+    setLoading(false);
+  }, [recipes]);
+
+  useFocusEffect(useCallback(() => {
+    load();
+  }, [load]));
+
+  useEffect(() => {
+    if (!mealTypePicked) setMealType(inferMealType(categories));
+  }, [categories, mealTypePicked]);
+
+  const changeServings = (id: string, delta: number) => {
+    setServings((prev) => ({ ...prev, [id]: Math.max(SERVING_STEP, (prev[id] ?? 1) + delta) }));
+  };
+
+  const logRecipe = async (recipe: RecipeWithIngredients) => {
+    if (!userId) {
+      setError('User not authenticated');
+      return;
+    }
+    const count = servings[recipe.id] ?? 1;
+    const nutrition = recipeNutrition(recipe, count);
+    const name = count === 1 ? recipe.name : `${recipe.name} (${count} servings)`;
+
+    setLogging(recipe.id);
+    try {
+      await enqueue('food', {
+        food_name: name.slice(0, 100),
+        calories: nutrition.calories,
+        protein: nutrition.protein,
+        carbs: nutrition.carbs,
+        fat: nutrition.fat,
+        fiber: nutrition.fiber,
+        meal_type: mealType,
+        rating: null,
+        notes: null,
+        user_id: userId,
+      });
+      Alert.alert('Food Logged!', `${name} (${nutrition.calories} cal) added to ${categoryFor(categories, mealType).label}`);
+    } catch (queueErr) {
+      setError(queueErr instanceof Error ? queueErr.message : 'Could not log recipe');
+    }
+    setLogging(null);
+  };
+
+  const renderRecipe = (recipe: RecipeWithIngredients) => {
+    const count = servings[recipe.id] ?? 1;
+    const nutrition = recipeNutrition(recipe, count);
+    return (
+      <View key={recipe.id} style={styles.card}>
+        <TouchableOpacity onPress={() => router.push({ pathname: '/recipes/[id]', params: { id: recipe.id } })}>
+          <Text style={styles.recipeName}>{recipe.name}</Text>
+          <Text style={styles.meta}>
+            {recipe.ingredients.length} {recipe.ingredients.length === 1 ? 'ingredient' : 'ingredients'} • makes{' '}
+            {recipe.servings} {recipe.servings === 1 ? 'serving' : 'servings'}
+          </Text>
+          <Text style={styles.meta}>{recipe.ingredients.map((i) => i.food_name).join(', ')}</Text>
+        </TouchableOpacity>
+
+        <View style={styles.logRow}>
+          <View style={styles.stepper}>
+            <TouchableOpacity style={styles.stepButton} onPress={() => changeServings(recipe.id, -SERVING_STEP)}>
+              <Text style={styles.stepText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.quantity}>{count}</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => changeServings(recipe.id, SERVING_STEP)}>
+              <Text style={styles.stepText}>+</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity
+            style={styles.logButton}
+            onPress={() => logRecipe(recipe)}
+            disabled={logging === recipe.id}
+          >
+            <Text style={styles.logText}>{logging === recipe.id ? 'Logging…' : `Log ${nutrition.calories} cal`}</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.macros}>{formatMacros(nutrition)}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={{ paddingBottom: 40 }}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={load} tintColor="#0066cc" />}
+    >
+      <TouchableOpacity style={styles.newButton} onPress={() => router.push({ pathname: '/recipes/[id]', params: { id: 'new' } })}>
+        <Text style={styles.newButtonText}>＋ New Recipe or Saved Meal</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.label}>Log as:</Text>
+      <View style={styles.mealRow}>
+        {categories.map((meal) => (
+          <TouchableOpacity
+            key={meal.key}
+            style={[styles.mealButton, mealType === meal.key && styles.mealButtonActive]}
+            onPress={() => {
+              setMealTypePicked(true);
+              setMealType(meal.key);
+            }}
+          >
+            <Text style={styles.mealText}>{meal.emoji} {meal.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {error && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.error}>⚠️ {error}</Text>
+        </View>
+      )}
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#0066cc" style={{ marginTop: 40 }} />
+      ) : items.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyEmoji}>🍲</Text>
+          <Text style={styles.empty}>No recipes yet</Text>
+          <Text style={styles.emptySubtext}>Save a meal you eat often to log it in one tap</Text>
+        </View>
+      ) : (
+        items.map(renderRecipe)
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#fff8dc',
+  },
+  newButton: {
+    backgroundColor: '#ffa500',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  newButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  mealRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginBottom: 16,
+  },
+  mealButton: {
+    flexGrow: 1,
+    flexBasis: '22%',
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  mealButtonActive: {
+    backgroundColor: '#e3f2fd',
+    borderColor: '#1976d2',
+  },
+  mealText: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  recipeName: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#2d3748',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  logRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepText: {
+    fontSize: 18,
+    color: '#0066cc',
+  },
+  quantity: {
+    fontSize: 16,
+    fontWeight: '600',
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  logButton: {
+    backgroundColor: '#0066cc',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  logText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  macros: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  error: {
+    color: '#dc2626',
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyEmoji: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  empty: {
+    color: '#374151',
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    color: '#6b7280',
+    textAlign: 'center',
+    fontSize: 14,
+  },
+});
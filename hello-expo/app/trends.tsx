@@ -0,0 +1,237 @@
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { CalendarHeatmap } from '@/components/charts/CalendarHeatmap';
+import { LineChart } from '@/components/charts/LineChart';
+import { usePreferences } from '@/hooks/usePreferences';
+import { Mood, useRepository } from '@/lib/data';
+import { aggregateMoods, Granularity, heatmapDays, moodStreak } from '@/lib/trends';
+
+// A year of history covers the longest (monthly) view
+const HISTORY_DAYS = 365;
+const HEATMAP_WEEKS = 13;
+
+const PERIODS: { key: Granularity; label: string; buckets: number }[] = [
+  { key: 'day', label: 'Daily', buckets: 30 },
+  { key: 'week', label: 'Weekly', buckets: 26 },
+  { key: 'month', label: 'Monthly', buckets: 12 },
+];
+
+function bucketLabel(start: Date, granularity: Granularity, timeZone: string) {
+  if (granularity === 'month') return start.toLocaleDateString(undefined, { month: 'short', timeZone });
+  return start.toLocaleDateString(undefined, { month: 'numeric', day: 'numeric', timeZone });
+}
+
+export default function TrendsScreen() {
+  const { moods } = useRepository();
+  const { timeZone, weekStart } = usePreferences();
+  const [entries, setEntries] = useState<Mood[]>([]);
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setRefreshing(true);
+    setError(null);
+    const to = new Date();
+    const from = new Date(to.getTime() - HISTORY_DAYS * 86_400_000);
+    const { data, error: rangeErr } = await moods.listRange({ from, to });
+    if (rangeErr) setError(rangeErr.message);
+    else setEntries(data);
+    setRefreshing(false);
+    setLoading(false);
+  }, [moods]);
+
+  useFocusEffect(useCallback(() => {
+    load();
+  }, [load]));
+
+  const period = PERIODS.find((p) => p.key === granularity) ?? PERIODS[0];
+  const buckets = useMemo(
+    () => aggregateMoods(entries, granularity, weekStart, timeZone).slice(-period.buckets),
+    [entries, granularity, period.buckets, weekStart, timeZone]
+  );
+  const streak = useMemo(() => moodStreak(entries, new Date(), timeZone), [entries, timeZone]);
+  const heatmap = useMemo(
+    () => heatmapDays(entries, HEATMAP_WEEKS, new Date(), weekStart, timeZone),
+    [entries, weekStart, timeZone]
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#0066cc" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={{ paddingBottom: 40 }}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={load} tintColor="#0066cc" />}
+    >
+      {error && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.error}>⚠️ {error}</Text>
+        </View>
+      )}
+
+      <View style={styles.streakRow}>
+        <View style={styles.streakCard}>
+          <Text style={styles.streakValue}>🔥 {streak.current}</Text>
+          <Text style={styles.streakLabel}>Current streak (days)</Text>
+        </View>
+        <View style={styles.streakCard}>
+          <Text style={styles.streakValue}>🏆 {streak.longest}</Text>
+          <Text style={styles.streakLabel}>Longest this year</Text>
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Average Mood</Text>
+        <View style={styles.segment}>
+          {PERIODS.map((p) => (
+            <TouchableOpacity
+              key={p.key}
+              style={[styles.segmentButton, granularity === p.key && styles.segmentButtonActive]}
+              onPress={() => setGranularity(p.key)}
+            >
+              <Text style={[styles.segmentText, granularity === p.key && styles.segmentTextActive]}>
+                {p.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.chart}>
+          <LineChart
+            points={buckets.map((b) => ({
+              label: bucketLabel(b.start, granularity, timeZone),
+              value: b.average,
+              min: b.min,
+              max: b.max,
+            }))}
+          />
+        </View>
+        <Text style={styles.hint}>Line shows the average; the shaded band spans the lowest to highest mood.</Text>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Mood Calendar</Text>
+        <CalendarHeatmap days={heatmap} />
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: 'rgba(240, 255, 234, 1)',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  streakRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  streakCard: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  streakValue: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#2d3748',
+  },
+  streakLabel: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 12,
+  },
+  segment: {
+    flexDirection: 'row',
+    gap: 4,
+    marginBottom: 12,
+  },
+  segmentButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+  },
+  segmentButtonActive: {
+    backgroundColor: '#e3f2fd',
+  },
+  segmentText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  segmentTextActive: {
+    color: '#1976d2',
+    fontWeight: '600',
+  },
+  chart: {
+    alignItems: 'center',
+  },
+  hint: {
+    fontSize: 11,
+    color: '#9ca3af',
+    marginTop: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  error: {
+    color: '#dc2626',
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
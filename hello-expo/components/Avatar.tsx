@@ -0,0 +1,48 @@
+import { Image } from 'expo-image';
+import { useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { useRepository } from '@/lib/data';
+
+/** The user's avatar, or their initial on a coloured circle while there is none. */
+export function Avatar({ path, name, size = 64 }: { path: string | null; name: string; size?: number }) {
+  const { profile } = useRepository();
+  const [uri, setUri] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUri(null);
+    if (path) {
+      profile.avatarUrl(path).then(({ data }) => {
+        if (!cancelled) setUri(data);
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [profile, path]);
+
+  const circle = { width: size, height: size, borderRadius: size / 2 };
+  if (uri) return <Image source={{ uri }} style={[styles.image, circle]} contentFit="cover" transition={150} />;
+
+  return (
+    <View style={[styles.placeholder, circle]}>
+      <Text style={[styles.initial, { fontSize: size * 0.42 }]}>{name.trim().charAt(0).toUpperCase() || '?'}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    backgroundColor: '#e5e7eb',
+  },
+  placeholder: {
+    backgroundColor: '#e3f2fd',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  initial: {
+    color: '#1976d2',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { RESEND_COOLDOWN_SECONDS } from '@/lib/auth';
+import type { RepoResult } from '@/lib/data';
+
+export type EmailSentKind = 'verify' | 'magic' | 'reset';
+
+const COPY: Record<EmailSentKind, { title: string; body: string }> = {
+  verify: {
+    title: 'Verify your email',
+    body: 'We sent a confirmation link to {email}. Open it on this device to finish creating your account.',
+  },
+  magic: {
+    title: 'Check your email',
+    body: 'We sent a sign-in link to {email}. Open it on this device to sign in.',
+  },
+  reset: {
+    title: 'Reset your password',
+    body: 'If {email} has an account, we sent it a link to choose a new password.',
+  },
+};
+
+/**
+ * Shown after an auth email went out, in place of the form. Resending is
+ * held back for a minute at a time to stay under Supabase's email limits.
+ */
+export function CheckEmail({
+  kind,
+  email,
+  onResend,
+  onBack,
+}: {
+  kind: EmailSentKind;
+  email: string;
+  onResend: () => Promise<RepoResult<null>>;
+  onBack: () => void;
+}) {
+  const [cooldown, setCooldown] = useState(RESEND_COOLDOWN_SECONDS);
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown((s) => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const resend = async () => {
+    setSending(true);
+    setMessage(null);
+    const { error } = await onResend();
+    setSending(false);
+    setMessage(error ? error.message : 'Sent again. It can take a minute to arrive.');
+    if (!error) setCooldown(RESEND_COOLDOWN_SECONDS);
+  };
+
+  const { title, body } = COPY[kind];
+  const [before, after] = body.split('{email}');
+
+  return (
+    <View>
+      <Text style={styles.icon}>📬</Text>
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.body}>
+        {before}
+        <Text style={styles.email}>{email}</Text>
+        {after}
+      </Text>
+      <Text style={styles.hint}>Can&apos;t find it? Check your spam folder.</Text>
+
+      <TouchableOpacity
+        style={[styles.resendButton, (cooldown > 0 || sending) && styles.resendDisabled]}
+        onPress={resend}
+        disabled={cooldown > 0 || sending}
+      >
+        <Text style={styles.resendText}>
+          {sending ? 'Sending…' : cooldown > 0 ? `Resend in ${cooldown}s` : 'Resend email'}
+        </Text>
+      </TouchableOpacity>
+      {message && <Text style={styles.message}>{message}</Text>}
+
+      <TouchableOpacity style={styles.backButton} onPress={onBack}>
+        <Text style={styles.backText}>Use a different email</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  icon: {
+    fontSize: 48,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 12,
+    color: '#2d3748',
+  },
+  body: {
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    color: '#4b5563',
+  },
+  email: {
+    fontWeight: '600',
+    color: '#2d3748',
+  },
+  hint: {
+    fontSize: 13,
+    textAlign: 'center',
+    color: '#9ca3af',
+    marginTop: 12,
+    marginBottom: 24,
+  },
+  resendButton: {
+    borderWidth: 1,
+    borderColor: '#3b82f6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  resendDisabled: {
+    borderColor: '#d1d5db',
+  },
+  resendText: {
+    color: '#3b82f6',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  message: {
+    fontSize: 13,
+    textAlign: 'center',
+    color: '#6b7280',
+    marginTop: 12,
+  },
+  backButton: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  backText: {
+    color: '#3b82f6',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,69 @@
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { useState } from 'react';
+import { Platform, StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+/**
+ * Date-only picker. iOS renders the compact inline control; Android opens
+ * the system dialog from a button showing the current value.
+ */
+export function DateField({
+  value,
+  onChange,
+  minimumDate,
+  maximumDate,
+}: {
+  value: Date;
+  onChange: (date: Date) => void;
+  minimumDate?: Date;
+  maximumDate?: Date;
+}) {
+  const [open, setOpen] = useState(false);
+
+  const handleChange = (event: DateTimePickerEvent, date?: Date) => {
+    setOpen(false);
+    if (event.type === 'set' && date) onChange(date);
+  };
+
+  if (Platform.OS === 'ios') {
+    return (
+      <DateTimePicker
+        value={value}
+        mode="date"
+        display="compact"
+        onChange={handleChange}
+        minimumDate={minimumDate}
+        maximumDate={maximumDate}
+      />
+    );
+  }
+
+  return (
+    <>
+      <TouchableOpacity style={styles.button} onPress={() => setOpen(true)}>
+        <Text style={styles.text}>📅 {value.toLocaleDateString()}</Text>
+      </TouchableOpacity>
+      {open && (
+        <DateTimePicker
+          value={value}
+          mode="date"
+          onChange={handleChange}
+          minimumDate={minimumDate}
+          maximumDate={maximumDate}
+        />
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  text: {
+    fontSize: 14,
+    color: '#374151',
+  },
+});
@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import type { DrinkInput, ListBeverage } from '@/hooks/useHydration';
+import { usePreferences } from '@/hooks/usePreferences';
+import {
+  DRINK_PRESETS,
+  drinkEmoji,
+  formatVolume,
+  HydrationTotals,
+  QUICK_VOLUMES_ML,
+} from '@/lib/nutrition';
+import { discardOutboxItem, retryOutboxItem } from '@/lib/outbox';
+
+/** Today's water progress with one-tap buttons for logging a drink. */
+export function HydrationCard({
+  entries,
+  totals,
+  goalMl,
+  onAdd,
+  onRemove,
+}: {
+  entries: ListBeverage[];
+  totals: HydrationTotals;
+  goalMl: number;
+  onAdd: (drink: DrinkInput) => void;
+  onRemove: (entry: ListBeverage) => void;
+}) {
+  const { timeZone, units } = usePreferences();
+  const [preset, setPreset] = useState(DRINK_PRESETS[0]);
+  const [caffeine, setCaffeine] = useState(preset.caffeine);
+  const [alcohol, setAlcohol] = useState(preset.alcohol);
+
+  const progress = goalMl > 0 ? Math.min(1, totals.waterMl / goalMl) : 0;
+  const remaining = goalMl - totals.waterMl;
+
+  const pickPreset = (next: typeof preset) => {
+    setPreset(next);
+    setCaffeine(next.caffeine);
+    setAlcohol(next.alcohol);
+  };
+
+  const confirmRemove = (entry: ListBeverage) => {
+    if (entry.syncFailed) {
+      Alert.alert('Couldn’t save drink', entry.syncError ?? 'The server rejected it.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => discardOutboxItem(entry.id) },
+        { text: 'Try Again', onPress: () => retryOutboxItem(entry.id) },
+      ]);
+      return;
+    }
+    if (entry.pending) {
+      Alert.alert('Still syncing', 'This drink can be removed once it has been saved to the server.');
+      return;
+    }
+    Alert.alert('Remove drink', `Remove ${entry.drink} (${formatVolume(entry.volume_ml, units)})?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => onRemove(entry) },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>💧 Hydration</Text>
+        <Text style={[styles.remaining, remaining <= 0 && styles.reached]}>
+          {remaining > 0 ? `${formatVolume(remaining, units)} to go` : 'Goal reached'}
+        </Text>
+      </View>
+
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${progress * 100}%` }]} />
+      </View>
+      <Text style={styles.meta}>
+        {formatVolume(totals.waterMl, units)} of {formatVolume(goalMl, units)} • {totals.drinks}{' '}
+        {totals.drinks === 1 ? 'drink' : 'drinks'}
+        {totals.caffeinated > 0 ? ` • ☕ ${totals.caffeinated} caffeinated` : ''}
+        {totals.alcoholic > 0 ? ` • 🍷 ${totals.alcoholic} alcoholic` : ''}
+      </Text>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {DRINK_PRESETS.map((p) => (
+          <TouchableOpacity
+            key={p.drink}
+            style={[styles.chip, preset.drink === p.drink && styles.chipActive]}
+            onPress={() => pickPreset(p)}
+          >
+            <Text style={styles.chipText}>{p.emoji} {p.drink}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={styles.flags}>
+        <TouchableOpacity style={[styles.flag, caffeine && styles.flagActive]} onPress={() => setCaffeine(!caffeine)}>
+          <Text style={styles.chipText}>{caffeine ? '✓' : '○'} Caffeine</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.flag, alcohol && styles.flagActive]} onPress={() => setAlcohol(!alcohol)}>
+          <Text style={styles.chipText}>{alcohol ? '✓' : '○'} Alcohol</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.volumes}>
+        {QUICK_VOLUMES_ML.map((volume) => (
+          <TouchableOpacity
+            key={volume}
+            style={styles.volumeButton}
+            onPress={() => onAdd({ drink: preset.drink, volume_ml: volume, caffeine, alcohol })}
+          >
+            <Text style={styles.volumeText}>+{formatVolume(volume, units)}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {entries.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {entries.map((entry) => (
+            <TouchableOpacity
+              key={entry.id}
+              style={styles.logged}
+              onPress={entry.syncFailed ? () => confirmRemove(entry) : undefined}
+              onLongPress={() => confirmRemove(entry)}
+            >
+              <Text style={styles.loggedText}>
+                {drinkEmoji(entry)} {formatVolume(entry.volume_ml, units)}
+                {entry.syncFailed ? ' ⚠️' : entry.pending ? ' ⏳' : ''}
+              </Text>
+              <Text style={styles.loggedTime}>
+                {new Date(entry.created_at).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit', timeZone })}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  remaining: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0284c7',
+  },
+  reached: {
+    color: '#10b981',
+  },
+  track: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#e0f2fe',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 5,
+    backgroundColor: '#0ea5e9',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 6,
+  },
+  chips: {
+    gap: 6,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  chipActive: {
+    backgroundColor: '#e3f2fd',
+    borderColor: '#1976d2',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  flags: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 8,
+  },
+  flag: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  flagActive: {
+    backgroundColor: '#fef3c7',
+    borderColor: '#f59e0b',
+  },
+  volumes: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 12,
+  },
+  volumeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#0ea5e9',
+    alignItems: 'center',
+  },
+  volumeText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  logged: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f0f9ff',
+    alignItems: 'center',
+  },
+  loggedText: {
+    fontSize: 13,
+    color: '#0369a1',
+  },
+  loggedTime: {
+    fontSize: 11,
+    color: '#6b7280',
+  },
+});
@@ -0,0 +1,203 @@
+import Slider from '@react-native-community/slider';
+import { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import {
+  formatSleep,
+  MAX_SLEEP_HOURS,
+  MAX_TAGS,
+  MOOD_SCALES,
+  MoodDimensions,
+  normalizeTag,
+  PRESET_TAGS,
+  SLEEP_STEP_HOURS,
+  toggleTag,
+} from '@/lib/moodDimensions';
+
+/**
+ * Sliders for energy, anxiety and sleep plus tag chips. A slider stays unset
+ * ("–") until it is moved, and ✕ clears it again.
+ */
+export function MoodDimensionsForm({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: MoodDimensions;
+  onChange: (value: MoodDimensions) => void;
+  disabled?: boolean;
+}) {
+  const [customTag, setCustomTag] = useState('');
+
+  const set = (patch: Partial<MoodDimensions>) => onChange({ ...value, ...patch });
+
+  const addCustomTag = () => {
+    const tag = normalizeTag(customTag);
+    if (tag && !value.tags.includes(tag)) set({ tags: toggleTag(value.tags, tag) });
+    setCustomTag('');
+  };
+
+  // Custom tags already on the entry are shown as chips alongside the presets
+  const tagChips = [...PRESET_TAGS, ...value.tags.filter((tag) => !PRESET_TAGS.includes(tag))];
+
+  return (
+    <View>
+      {MOOD_SCALES.map((scale) => {
+        const current = value[scale.key];
+        return (
+          <View key={scale.key} style={styles.scale}>
+            <View style={styles.scaleHeader}>
+              <Text style={styles.scaleLabel}>{scale.emoji} {scale.label}</Text>
+              <Text style={styles.scaleValue}>{current != null ? `${current}/5` : '–'}</Text>
+              {current != null && (
+                <TouchableOpacity onPress={() => set({ [scale.key]: null })} disabled={disabled}>
+                  <Text style={styles.clear}>✕</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <Slider
+              minimumValue={1}
+              maximumValue={5}
+              step={1}
+              value={current ?? 3}
+              onValueChange={(next) => set({ [scale.key]: next })}
+              minimumTrackTintColor={current != null ? '#0066cc' : '#d1d5db'}
+              maximumTrackTintColor="#d1d5db"
+              thumbTintColor={current != null ? '#0066cc' : '#9ca3af'}
+              disabled={disabled}
+            />
+            <View style={styles.ends}>
+              <Text style={styles.endText}>{scale.low}</Text>
+              <Text style={styles.endText}>{scale.high}</Text>
+            </View>
+          </View>
+        );
+      })}
+
+      <View style={styles.scale}>
+        <View style={styles.scaleHeader}>
+          <Text style={styles.scaleLabel}>😴 Hours slept</Text>
+          <Text style={styles.scaleValue}>{value.sleep_hours != null ? formatSleep(value.sleep_hours) : '–'}</Text>
+          {value.sleep_hours != null && (
+            <TouchableOpacity onPress={() => set({ sleep_hours: null })} disabled={disabled}>
+              <Text style={styles.clear}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <Slider
+          minimumValue={0}
+          maximumValue={MAX_SLEEP_HOURS}
+          step={SLEEP_STEP_HOURS}
+          value={value.sleep_hours ?? 7}
+          onValueChange={(next) => set({ sleep_hours: next })}
+          minimumTrackTintColor={value.sleep_hours != null ? '#0066cc' : '#d1d5db'}
+          maximumTrackTintColor="#d1d5db"
+          thumbTintColor={value.sleep_hours != null ? '#0066cc' : '#9ca3af'}
+          disabled={disabled}
+        />
+      </View>
+
+      <Text style={styles.scaleLabel}>🏷️ Tags</Text>
+      <View style={styles.tags}>
+        {tagChips.map((tag) => {
+          const active = value.tags.includes(tag);
+          return (
+            <TouchableOpacity
+              key={tag}
+              style={[styles.tag, active && styles.tagActive]}
+              onPress={() => set({ tags: toggleTag(value.tags, tag) })}
+              disabled={disabled || (!active && value.tags.length >= MAX_TAGS)}
+            >
+              <Text style={[styles.tagText, active && styles.tagTextActive]}>#{tag}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {value.tags.length < MAX_TAGS && (
+        <TextInput
+          value={customTag}
+          onChangeText={setCustomTag}
+          onSubmitEditing={addCustomTag}
+          onBlur={addCustomTag}
+          placeholder="Add your own tag"
+          placeholderTextColor="#727272ff"
+          style={styles.tagInput}
+          editable={!disabled}
+          autoCapitalize="none"
+          returnKeyType="done"
+          maxLength={30}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  scale: {
+    marginBottom: 8,
+  },
+  scaleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  scaleLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 4,
+  },
+  scaleValue: {
+    marginLeft: 'auto',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0066cc',
+  },
+  clear: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  ends: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  endText: {
+    fontSize: 11,
+    color: '#6b7280',
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  tag: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  tagActive: {
+    backgroundColor: '#e3f2fd',
+    borderColor: '#1976d2',
+  },
+  tagText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  tagTextActive: {
+    color: '#1976d2',
+    fontWeight: '600',
+  },
+  tagInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#f9f9f9',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,33 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { PASSWORD_RULES } from '@/lib/auth';
+
+/** Live checklist of the password rules, ticking each one off as it's met */
+export function PasswordChecklist({ password }: { password: string }) {
+  return (
+    <View style={styles.container}>
+      {PASSWORD_RULES.map(({ label, test }) => {
+        const met = test(password);
+        return (
+          <Text key={label} style={[styles.rule, met && styles.ruleMet]}>
+            {met ? '✓' : '○'} {label}
+          </Text>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    gap: 2,
+  },
+  rule: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  ruleMet: {
+    color: '#047857',
+  },
+});
@@ -0,0 +1,144 @@
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { discardPhotos, MAX_PHOTOS, PreparedPhoto, preparePhoto } from '@/lib/photos';
+
+/**
+ * Camera and library buttons plus thumbnails of the photos picked so far.
+ * Photos are compressed as soon as they are picked, so saving the entry only
+ * has to queue them.
+ */
+export function PhotoPicker({
+  photos,
+  onChange,
+  disabled,
+}: {
+  photos: PreparedPhoto[];
+  onChange: (photos: PreparedPhoto[]) => void;
+  disabled?: boolean;
+}) {
+  const [preparing, setPreparing] = useState(false);
+  const remaining = MAX_PHOTOS - photos.length;
+
+  const addAssets = async (assets: ImagePicker.ImagePickerAsset[]) => {
+    setPreparing(true);
+    try {
+      const prepared = await Promise.all(assets.slice(0, remaining).map(preparePhoto));
+      onChange([...photos, ...prepared]);
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Could not process photo');
+    }
+    setPreparing(false);
+  };
+
+  const takePhoto = async () => {
+    const { granted } = await ImagePicker.requestCameraPermissionsAsync();
+    if (!granted) {
+      Alert.alert('Camera access needed', 'Allow camera access in Settings to take photos of your entries.');
+      return;
+    }
+    const result = await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 1 });
+    if (!result.canceled) await addAssets(result.assets);
+  };
+
+  const pickFromLibrary = async () => {
+    const { granted } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!granted) {
+      Alert.alert('Photo access needed', 'Allow photo library access in Settings to attach photos.');
+      return;
+    }
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsMultipleSelection: true,
+      selectionLimit: remaining,
+      quality: 1,
+    });
+    if (!result.canceled) await addAssets(result.assets);
+  };
+
+  const removePhoto = (photo: PreparedPhoto) => {
+    onChange(photos.filter((it) => it.id !== photo.id));
+    discardPhotos([photo]);
+  };
+
+  const busy = disabled || preparing;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.buttons}>
+        <TouchableOpacity style={styles.button} onPress={takePhoto} disabled={busy || remaining <= 0}>
+          <Text style={[styles.buttonText, remaining <= 0 && styles.buttonTextDisabled]}>📷 Camera</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={pickFromLibrary} disabled={busy || remaining <= 0}>
+          <Text style={[styles.buttonText, remaining <= 0 && styles.buttonTextDisabled]}>🖼️ Library</Text>
+        </TouchableOpacity>
+        {preparing && <ActivityIndicator size="small" color="#0066cc" />}
+      </View>
+
+      {photos.length > 0 && (
+        <View style={styles.thumbs}>
+          {photos.map((photo) => (
+            <View key={photo.id}>
+              <Image source={{ uri: photo.thumbnailUri }} style={styles.thumb} contentFit="cover" />
+              <TouchableOpacity style={styles.remove} onPress={() => removePhoto(photo)} disabled={disabled}>
+                <Text style={styles.removeText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  buttons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  buttonText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  buttonTextDisabled: {
+    color: '#9ca3af',
+  },
+  thumbs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  thumb: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#e5e7eb',
+  },
+  remove: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#374151',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeText: {
+    color: '#fff',
+    fontSize: 11,
+  },
+});
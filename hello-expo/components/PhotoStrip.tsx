@@ -0,0 +1,83 @@
+import { Image } from 'expo-image';
+import { useState } from 'react';
+import { Alert, Modal, Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import type { PhotoThumb } from '@/hooks/useEntryPhotos';
+import { discardPhotoUpload, retryPhotoUpload } from '@/lib/photos';
+
+/**
+ * A row of entry photo thumbnails; tapping one shows it full screen. A photo
+ * whose upload failed for good asks whether to try again or discard it.
+ */
+export function PhotoStrip({ photos }: { photos: PhotoThumb[] | undefined }) {
+  const [open, setOpen] = useState<PhotoThumb | null>(null);
+
+  if (!photos || photos.length === 0) return null;
+
+  const select = (photo: PhotoThumb) => {
+    if (!photo.failed) {
+      setOpen(photo);
+      return;
+    }
+    Alert.alert('Couldn’t upload photo', photo.error ?? 'The server rejected it.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => discardPhotoUpload(photo.id) },
+      { text: 'Try Again', onPress: () => retryPhotoUpload(photo.id) },
+    ]);
+  };
+
+  return (
+    <View style={styles.strip}>
+      {photos.map((photo) => (
+        <TouchableOpacity key={photo.id} onPress={() => select(photo)}>
+          <Image source={{ uri: photo.thumbnailUri }} style={styles.thumb} contentFit="cover" transition={150} />
+          {photo.pending && <Text style={styles.pending}>{photo.failed ? '⚠️' : '⏳'}</Text>}
+        </TouchableOpacity>
+      ))}
+
+      <Modal visible={open !== null} transparent animationType="fade" onRequestClose={() => setOpen(null)}>
+        <Pressable style={styles.backdrop} onPress={() => setOpen(null)}>
+          {open && (
+            <Image
+              source={{ uri: open.uri }}
+              placeholder={{ uri: open.thumbnailUri }}
+              style={styles.full}
+              contentFit="contain"
+            />
+          )}
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  strip: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  thumb: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: '#e5e7eb',
+  },
+  pending: {
+    position: 'absolute',
+    bottom: 2,
+    right: 2,
+    fontSize: 11,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  full: {
+    width: '100%',
+    height: '80%',
+  },
+});
@@ -0,0 +1,76 @@
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import type { FoodSuggestion } from '@/lib/suggestions';
+
+/** Horizontal row of one-tap suggestions shown above the food form. */
+export function QuickLogStrip({
+  suggestions,
+  onSelect,
+  disabled,
+}: {
+  suggestions: FoodSuggestion[];
+  onSelect: (suggestion: FoodSuggestion) => void;
+  disabled?: boolean;
+}) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>⚡ Recent & Frequent</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {suggestions.map((suggestion) => (
+          <TouchableOpacity
+            key={suggestion.key}
+            style={[styles.chip, disabled && styles.chipDisabled]}
+            onPress={() => onSelect(suggestion)}
+            disabled={disabled}
+          >
+            <Text style={styles.name} numberOfLines={1}>
+              {suggestion.entry.food_name}
+            </Text>
+            <Text style={styles.meta}>
+              {suggestion.entry.calories ?? 0} cal • ×{suggestion.count}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  row: {
+    gap: 8,
+  },
+  chip: {
+    maxWidth: 160,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#ffd59e',
+  },
+  chipDisabled: {
+    opacity: 0.5,
+  },
+  name: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2d3748',
+  },
+  meta: {
+    fontSize: 11,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+});
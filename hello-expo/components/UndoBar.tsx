@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { setUndoAction, subscribeUndo, UndoAction } from '@/lib/undo';
+
+const VISIBLE_MS = 8000;
+
+/**
+ * Snackbar offering to undo the latest destructive action.
+ * `onUndone` runs after a successful undo so the list can refresh.
+ */
+export function UndoBar({ onUndone }: { onUndone?: () => void }) {
+  const [action, setAction] = useState<UndoAction | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeUndo((next) => {
+    setAction(next);
+    setError(null);
+  }), []);
+
+  useEffect(() => {
+    if (!action || busy) return;
+    const timer = setTimeout(() => setUndoAction(null), VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [action, busy]);
+
+  if (!action) return null;
+
+  const handleUndo = async () => {
+    setBusy(true);
+    const { error: undoErr } = await action.undo();
+    setBusy(false);
+    if (undoErr) {
+      setError(undoErr.message);
+      return;
+    }
+    setUndoAction(null, { undone: true });
+    onUndone?.();
+  };
+
+  return (
+    <View style={styles.bar}>
+      <Text style={styles.message} numberOfLines={2}>
+        {error ? `⚠️ ${error}` : action.message}
+      </Text>
+      <TouchableOpacity onPress={handleUndo} disabled={busy} style={styles.button}>
+        <Text style={styles.buttonText}>{busy ? 'Undoing…' : 'Undo'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#374151',
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+    elevation: 6,
+  },
+  message: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    marginRight: 12,
+  },
+  button: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  buttonText: {
+    color: '#93c5fd',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,55 @@
+import { StyleSheet, Text, View } from 'react-native';
+import Svg, { Line, Rect, Text as SvgText } from 'react-native-svg';
+
+type Bar = { label: string; value: number; count: number };
+
+/** Horizontal-axis bar chart on a fixed 0..`max` scale (mood is 1-5). */
+export function BarChart({
+  bars,
+  max = 5,
+  width = 280,
+  height = 140,
+  color = '#0066cc',
+}: {
+  bars: Bar[];
+  max?: number;
+  width?: number;
+  height?: number;
+  color?: string;
+}) {
+  const labelSpace = 18;
+  const plotHeight = height - labelSpace * 2;
+  const slot = width / Math.max(1, bars.length);
+  const barWidth = Math.min(64, slot * 0.6);
+
+  return (
+    <View>
+      <Svg width={width} height={height}>
+        <Line x1={0} y1={labelSpace + plotHeight} x2={width} y2={labelSpace + plotHeight} stroke="#d1d5db" />
+        {bars.map((bar, i) => {
+          const h = Math.max(0, Math.min(1, bar.value / max)) * plotHeight;
+          const x = i * slot + (slot - barWidth) / 2;
+          const y = labelSpace + plotHeight - h;
+          return [
+            <Rect key={`bar-${i}`} x={x} y={y} width={barWidth} height={h} rx={4} fill={color} />,
+            <SvgText key={`value-${i}`} x={x + barWidth / 2} y={y - 4} fontSize={12} fontWeight="600" fill="#374151" textAnchor="middle">
+              {bar.value.toFixed(1)}
+            </SvgText>,
+            <SvgText key={`label-${i}`} x={x + barWidth / 2} y={height - 4} fontSize={11} fill="#6b7280" textAnchor="middle">
+              {`${bar.label} (n=${bar.count})`}
+            </SvgText>,
+          ];
+        })}
+      </Svg>
+      {bars.length === 0 && <Text style={styles.empty}>No data</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  empty: {
+    textAlign: 'center',
+    color: '#9ca3af',
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,75 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { moodColor } from '@/constants/Entries';
+import type { HeatmapDay } from '@/lib/trends';
+
+/** GitHub-style grid: one column per week, one cell per day. */
+export function CalendarHeatmap({ days, cellSize = 16 }: { days: HeatmapDay[]; cellSize?: number }) {
+  const weeks: HeatmapDay[][] = [];
+  for (let i = 0; i < days.length; i += 7) weeks.push(days.slice(i, i + 7));
+  const today = new Date();
+
+  return (
+    <View>
+      <View style={styles.grid}>
+        {weeks.map((week) => (
+          <View key={week[0].key} style={styles.column}>
+            {week.map((day) => (
+              <View
+                key={day.key}
+                style={[
+                  styles.cell,
+                  { width: cellSize, height: cellSize },
+                  day.average != null && { backgroundColor: moodColor(day.average) },
+                  day.date > today && styles.future,
+                ]}
+              />
+            ))}
+          </View>
+        ))}
+      </View>
+      <View style={styles.legend}>
+        <Text style={styles.legendText}>Low</Text>
+        {[1, 2, 3, 4, 5].map((mood) => (
+          <View key={mood} style={[styles.legendCell, { backgroundColor: moodColor(mood) }]} />
+        ))}
+        <Text style={styles.legendText}>High</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    gap: 3,
+    justifyContent: 'center',
+  },
+  column: {
+    gap: 3,
+  },
+  cell: {
+    borderRadius: 3,
+    backgroundColor: '#e5e7eb',
+  },
+  future: {
+    opacity: 0.3,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 3,
+    marginTop: 8,
+  },
+  legendCell: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  legendText: {
+    fontSize: 10,
+    color: '#6b7280',
+    marginHorizontal: 2,
+  },
+});
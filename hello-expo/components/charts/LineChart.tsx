@@ -0,0 +1,73 @@
+import { StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle, Line, Path, Polygon, Text as SvgText } from 'react-native-svg';
+
+type Point = { label: string; value: number; min?: number; max?: number };
+
+/**
+ * Line chart on a fixed y domain, with an optional shaded min/max band
+ * drawn behind the line.
+ */
+export function LineChart({
+  points,
+  yDomain = [1, 5],
+  width = 300,
+  height = 180,
+  color = '#0066cc',
+}: {
+  points: Point[];
+  yDomain?: [number, number];
+  width?: number;
+  height?: number;
+  color?: string;
+}) {
+  if (points.length === 0) {
+    return <Text style={styles.empty}>No data for this period</Text>;
+  }
+
+  const pad = 24;
+  const [minY, maxY] = yDomain;
+  const step = points.length > 1 ? (width - pad * 2) / (points.length - 1) : 0;
+  const sx = (i: number) => (points.length > 1 ? pad + i * step : width / 2);
+  const sy = (y: number) => height - pad - ((y - minY) / (maxY - minY)) * (height - pad * 2);
+
+  const band = points.some((p) => p.min != null && p.max != null)
+    ? [
+        ...points.map((p, i) => `${sx(i)},${sy(p.max ?? p.value)}`),
+        ...points.map((p, i) => `${sx(i)},${sy(p.min ?? p.value)}`).reverse(),
+      ].join(' ')
+    : null;
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${sx(i)},${sy(p.value)}`).join(' ');
+  const labelEvery = Math.max(1, Math.ceil(points.length / 6));
+
+  return (
+    <View>
+      <Svg width={width} height={height}>
+        {Array.from({ length: maxY - minY + 1 }, (_, i) => minY + i).map((y) => [
+          <Line key={`grid-${y}`} x1={pad} y1={sy(y)} x2={width - pad} y2={sy(y)} stroke="#f0f0f0" />,
+          <SvgText key={`tick-${y}`} x={4} y={sy(y) + 4} fontSize={10} fill="#9ca3af">{y}</SvgText>,
+        ])}
+        {band && <Polygon points={band} fill={color} fillOpacity={0.15} />}
+        <Path d={line} stroke={color} strokeWidth={2} fill="none" />
+        {points.map((p, i) => (
+          <Circle key={`pt-${i}`} cx={sx(i)} cy={sy(p.value)} r={3} fill={color} />
+        ))}
+        {points.map((p, i) =>
+          i % labelEvery === 0 ? (
+            <SvgText key={`lbl-${i}`} x={sx(i)} y={height - 6} fontSize={10} fill="#6b7280" textAnchor="middle">
+              {p.label}
+            </SvgText>
+          ) : null
+        )}
+      </Svg>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  empty: {
+    textAlign: 'center',
+    color: '#9ca3af',
+    fontSize: 14,
+    paddingVertical: 40,
+  },
+});
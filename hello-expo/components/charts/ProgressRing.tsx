@@ -0,0 +1,83 @@
+import { StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle } from 'react-native-svg';
+
+/** Circular progress towards `goal`; the ring turns red once `value` passes it. */
+export function ProgressRing({
+  value,
+  goal,
+  label,
+  unit,
+  size = 72,
+  strokeWidth = 8,
+  color = '#0066cc',
+  overColor = '#dc2626',
+}: {
+  value: number;
+  goal: number;
+  label: string;
+  unit: string;
+  size?: number;
+  strokeWidth?: number;
+  color?: string;
+  overColor?: string;
+}) {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const progress = goal > 0 ? value / goal : 0;
+  const over = progress > 1;
+  const dash = Math.min(1, progress) * circumference;
+
+  return (
+    <View style={styles.container}>
+      <View style={{ width: size, height: size }}>
+        <Svg width={size} height={size}>
+          <Circle cx={size / 2} cy={size / 2} r={radius} stroke="#e5e7eb" strokeWidth={strokeWidth} fill="none" />
+          <Circle
+            cx={size / 2}
+            cy={size / 2}
+            r={radius}
+            stroke={over ? overColor : color}
+            strokeWidth={strokeWidth}
+            fill="none"
+            strokeLinecap="round"
+            strokeDasharray={`${dash} ${circumference}`}
+            // Start at 12 o'clock instead of 3 o'clock
+            transform={`rotate(-90 ${size / 2} ${size / 2})`}
+          />
+        </Svg>
+        <View style={[StyleSheet.absoluteFill, styles.center]}>
+          <Text style={[styles.percent, over && { color: overColor }]}>{Math.round(progress * 100)}%</Text>
+        </View>
+      </View>
+      <Text style={styles.label}>{label}</Text>
+      <Text style={styles.amount}>
+        {Math.round(value)}/{goal} {unit}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  center: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  percent: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#374151',
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 4,
+  },
+  amount: {
+    fontSize: 11,
+    color: '#6b7280',
+  },
+});
@@ -0,0 +1,59 @@
+import { StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle, Line, Text as SvgText } from 'react-native-svg';
+
+type Point = { x: number; y: number };
+
+/** Scatter plot with auto-scaled x axis and a fixed 1-5 mood y axis. */
+export function ScatterChart({
+  points,
+  xLabel,
+  yLabel,
+  yDomain = [1, 5],
+  width = 280,
+  height = 160,
+  color = '#0066cc',
+}: {
+  points: Point[];
+  xLabel: string;
+  yLabel: string;
+  yDomain?: [number, number];
+  width?: number;
+  height?: number;
+  color?: string;
+}) {
+  const pad = 24;
+  const xs = points.map((p) => p.x);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const spanX = maxX - minX || 1;
+  const [minY, maxY] = yDomain;
+
+  const sx = (x: number) => pad + ((x - minX) / spanX) * (width - pad * 2);
+  const sy = (y: number) => height - pad - ((y - minY) / (maxY - minY)) * (height - pad * 2);
+
+  return (
+    <View>
+      <Svg width={width} height={height}>
+        <Line x1={pad} y1={height - pad} x2={width - pad} y2={height - pad} stroke="#d1d5db" />
+        <Line x1={pad} y1={pad} x2={pad} y2={height - pad} stroke="#d1d5db" />
+        {points.map((p, i) => (
+          <Circle key={i} cx={sx(p.x)} cy={sy(p.y)} r={4} fill={color} fillOpacity={0.5} />
+        ))}
+        <SvgText x={pad} y={height - 6} fontSize={10} fill="#6b7280">{minX.toFixed(0)}</SvgText>
+        <SvgText x={width - pad} y={height - 6} fontSize={10} fill="#6b7280" textAnchor="end">{maxX.toFixed(0)}</SvgText>
+        <SvgText x={4} y={sy(maxY) + 4} fontSize={10} fill="#6b7280">{maxY}</SvgText>
+        <SvgText x={4} y={sy(minY) + 4} fontSize={10} fill="#6b7280">{minY}</SvgText>
+      </Svg>
+      <Text style={styles.axis}>{yLabel} vs. {xLabel}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  axis: {
+    textAlign: 'center',
+    color: '#6b7280',
+    fontSize: 11,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,8 @@
+/** Emoji for mood 1-5, indexed by `mood - 1` */
+export const MOOD_EMOJIS = ['😢', '😕', '😐', '😊', '😄'];
+
+/** Heatmap / chart color for an average mood, from low (red) to high (green) */
+export function moodColor(average: number) {
+  const palette = ['#ef4444', '#f97316', '#facc15', '#84cc16', '#22c55e'];
+  return palette[Math.min(4, Math.max(0, Math.round(average) - 1))];
+}
@@ -5,6 +5,7 @@ const expoConfig = require('eslint-config-expo/flat');
 module.exports = defineConfig([
   expoConfig,
   {
-    ignores: ['dist/*'],
+    // Deno code, checked by `npm run check:functions` and `npm run lint:functions`
+    ignores: ['dist/*', 'supabase/functions/**'],
   },
 ]);
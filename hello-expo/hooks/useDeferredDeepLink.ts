@@ -0,0 +1,60 @@
+import * as Linking from 'expo-linking';
+import * as Notifications from 'expo-notifications';
+import { Href, router } from 'expo-router';
+import { useEffect, useRef } from 'react';
+
+import { reminderHref } from '@/lib/reminders';
+
+// Routes that work signed out, so links to them never need deferring
+const PUBLIC_PATHS = ['login', 'auth/'];
+
+function hrefOf(url: string): string | null {
+  const { path, queryParams } = Linking.parse(url);
+  if (!path || PUBLIC_PATHS.some((prefix) => path.startsWith(prefix))) return null;
+  const query = Object.entries(queryParams ?? {})
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  return `/${path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * A deep link opened while signed out lands on the sign-in screen, since the
+ * screen it points at is protected. Remember it and open it once the user
+ * has signed in. Reminder taps take the same path, so the one that launched
+ * the app waits for the stack to mount instead of navigating before it.
+ */
+export function useDeferredDeepLink(signedIn: boolean, ready: boolean) {
+  const url = Linking.useURL();
+  const response = Notifications.useLastNotificationResponse();
+  const handled = useRef<string | null>(null);
+  const handledResponse = useRef<Notifications.NotificationResponse | null>(null);
+  const pending = useRef<string | null>(null);
+
+  useEffect(() => {
+    // useURL keeps returning the last link, so only a new one counts
+    if (!url || !ready || url === handled.current) return;
+    handled.current = url;
+    if (!signedIn) pending.current = hrefOf(url);
+  }, [url, ready, signedIn]);
+
+  useEffect(() => {
+    if (!response || !ready || response === handledResponse.current) return;
+    handledResponse.current = response;
+    // The last response survives restarts; clear it so the next launch doesn't open it again
+    Notifications.clearLastNotificationResponseAsync().catch((err) =>
+      console.warn('Clearing notification response failed:', err)
+    );
+    const href = reminderHref(response);
+    if (!href) return;
+    if (signedIn) router.push(href as Href);
+    else pending.current = href;
+  }, [response, ready, signedIn]);
+
+  useEffect(() => {
+    if (!signedIn || !pending.current) return;
+    const href = pending.current;
+    pending.current = null;
+    router.replace(href as Href);
+  }, [signedIn]);
+}
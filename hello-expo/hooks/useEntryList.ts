@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { EntryRepository } from '@/lib/data';
+import { compareNewestFirst, CursorKey } from '@/lib/data/cursor';
+
+type Listable<T> = Pick<EntryRepository<T, unknown, unknown>, 'list' | 'count'>;
+
+/**
+ * Merge a freshly fetched first page into what's already loaded: rows inside
+ * the page's range come from the page (so edits and deletes show up), older
+ * rows that were paged in before are kept.
+ */
+function mergeFirstPage<T extends CursorKey>(loaded: T[], page: T[], pageHasMore: boolean) {
+  if (!pageHasMore || page.length === 0) return page;
+  const oldest = page[page.length - 1];
+  const pageIds = new Set(page.map((it) => it.id));
+  const older = loaded.filter((it) => !pageIds.has(it.id) && compareNewestFirst(oldest, it) > 0);
+  return [...page, ...older];
+}
+
+/**
+ * Keyset-paginated entry list, newest first. `refresh` merges the newest page
+ * into the loaded rows; `loadMore` appends the next older page.
+ */
+export function useEntryList<T extends CursorKey>(repo: Listable<T>, enabled: boolean) {
+  const [items, setItems] = useState<T[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursor = useRef<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+
+    setRefreshing(true);
+    setError(null);
+
+    const [page, count] = await Promise.all([repo.list(), repo.count()]);
+
+    if (page.error) {
+      setError(page.error.message);
+    } else {
+      const hasMore = page.data.nextCursor !== null;
+      setItems((loaded) => {
+        const merged = mergeFirstPage(loaded, page.data.items, hasMore);
+        // Keep the deeper cursor if older pages are still loaded below the first one
+        if (!hasMore || merged.length === page.data.items.length) cursor.current = page.data.nextCursor;
+        return merged;
+      });
+    }
+    if (!count.error) setTotal(count.data);
+    setRefreshing(false);
+  }, [repo, enabled]);
+
+  const loadMore = useCallback(async () => {
+    if (!enabled || loadingMore || !cursor.current) return;
+
+    setLoadingMore(true);
+    const { data, error: pageErr } = await repo.list({ cursor: cursor.current });
+    if (pageErr) {
+      setError(pageErr.message);
+    } else {
+      cursor.current = data.nextCursor;
+      setItems((loaded) => {
+        const ids = new Set(loaded.map((it) => it.id));
+        return [...loaded, ...data.items.filter((it) => !ids.has(it.id))];
+      });
+    }
+    setLoadingMore(false);
+  }, [repo, enabled, loadingMore]);
+
+  useEffect(() => {
+    // Another user's (or a signed-out) list must never linger
+    setItems([]);
+    setTotal(null);
+    cursor.current = null;
+
+    if (enabled) {
+      (async () => {
+        setLoading(true);
+        await refresh();
+        setLoading(false);
+      })();
+    }
+  }, [refresh, enabled]);
+
+  return {
+    items,
+    total,
+    loading,
+    refreshing,
+    loadingMore,
+    hasMore: cursor.current !== null,
+    error,
+    refresh,
+    loadMore,
+  };
+}
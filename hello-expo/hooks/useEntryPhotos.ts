@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { EntryPhoto, PhotoEntryKind, useRepository } from '@/lib/data';
+import { PhotoUpload, subscribePhotoUploads } from '@/lib/photos';
+
+/** A photo ready to display, either from Storage or still on the device */
+export type PhotoThumb = {
+  id: string;
+  thumbnailUri: string;
+  uri: string;
+  pending: boolean;
+  /** Parked in the upload queue after a permanent failure, with the reason */
+  failed: boolean;
+  error: string | null;
+};
+
+/**
+ * Photos attached to the given entries, keyed by entry id. Photos still in
+ * the upload queue are shown from their local files until they are stored.
+ */
+export function useEntryPhotos(kind: PhotoEntryKind, entryIds: string[]) {
+  const { photos } = useRepository();
+  const [stored, setStored] = useState<EntryPhoto[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [queued, setQueued] = useState<PhotoUpload[]>([]);
+  // A stable key so a re-rendered list with the same entries doesn't refetch
+  const idsKey = entryIds.join(',');
+
+  const reload = useCallback(async () => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    if (ids.length === 0) {
+      setStored([]);
+      return;
+    }
+    const { data, error } = await photos.listFor(kind, ids);
+    if (error) {
+      console.warn('Loading photos failed:', error.message);
+      return;
+    }
+    setStored(data);
+    if (data.length === 0) return;
+
+    const { data: signed, error: urlErr } = await photos.signedUrls(
+      data.flatMap((photo) => [photo.path, photo.thumbnail_path])
+    );
+    if (urlErr) console.warn('Signing photo URLs failed:', urlErr.message);
+    else setUrls(signed);
+  }, [photos, kind, idsKey]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const reloadRef = useRef(reload);
+  reloadRef.current = reload;
+
+  useEffect(() => {
+    let previous = new Set<string>();
+    return subscribePhotoUploads((uploads) => {
+      const mine = uploads.filter((it) => it.kind === kind);
+      const current = new Set(mine.map((it) => it.id));
+      const uploaded = [...previous].some((id) => !current.has(id));
+      previous = current;
+      setQueued(mine);
+      if (uploaded) reloadRef.current();
+    });
+  }, [kind]);
+
+  const byEntry = useMemo(() => {
+    const result: Record<string, PhotoThumb[]> = {};
+    const add = (entryId: string, thumb: PhotoThumb) => {
+      (result[entryId] ??= []).push(thumb);
+    };
+
+    const queuedIds = new Set(queued.map((it) => it.id));
+    for (const photo of stored) {
+      const thumbnailUri = urls[photo.thumbnail_path];
+      if (queuedIds.has(photo.id) || !thumbnailUri) continue;
+      add(photo.entry_id, {
+        id: photo.id,
+        thumbnailUri,
+        uri: urls[photo.path] ?? thumbnailUri,
+        pending: false,
+        failed: false,
+        error: null,
+      });
+    }
+    for (const upload of [...queued].sort((a, b) => a.position - b.position)) {
+      add(upload.entryId, {
+        id: upload.id,
+        thumbnailUri: upload.thumbnailUri,
+        uri: upload.uri,
+        pending: true,
+        failed: upload.failed,
+        error: upload.lastError,
+      });
+    }
+    return result;
+  }, [stored, urls, queued]);
+
+  return { photos: byEntry, reload };
+}
@@ -0,0 +1,80 @@
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useMemo, useState } from 'react';
+
+import { usePendingEntries } from '@/hooks/useOutbox';
+import { usePreferences } from '@/hooks/usePreferences';
+import { Beverage, useRepository } from '@/lib/data';
+import { hydrationTotals } from '@/lib/nutrition';
+import { enqueue } from '@/lib/outbox';
+import { addDays, dateKey, startOfDay } from '@/lib/trends';
+
+export type ListBeverage = Beverage & { pending?: boolean; syncError?: string | null; syncFailed?: boolean };
+
+export type DrinkInput = Pick<Beverage, 'drink' | 'volume_ml' | 'caffeine' | 'alcohol'>;
+
+/**
+ * Today's drinks for `userId`, including ones still in the outbox, plus
+ * helpers to log and delete them. "Today" follows the preferred time zone.
+ * Drinks are logged through the outbox like food so quick-adds work offline.
+ */
+export function useHydration(userId: string | null) {
+  const { beverages } = useRepository();
+  const { timeZone } = usePreferences();
+  const [synced, setSynced] = useState<Beverage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const from = startOfDay(new Date(), timeZone);
+    const to = addDays(from, 1, timeZone);
+    const { data, error: listErr } = await beverages.listRange({ from, to });
+    if (listErr) setError(listErr.message);
+    else {
+      setSynced(data);
+      setError(null);
+    }
+  }, [beverages, timeZone]);
+
+  useFocusEffect(useCallback(() => {
+    reload();
+  }, [reload]));
+
+  const pending = usePendingEntries('beverages', reload);
+
+  const entries = useMemo<ListBeverage[]>(() => {
+    const today = dateKey(new Date(), timeZone);
+    const queued: ListBeverage[] = pending
+      .filter((it) => it.payload.user_id === userId)
+      .map((it) => ({
+        ...(it.payload as Omit<Beverage, 'id'>),
+        id: it.id,
+        pending: true,
+        syncError: it.lastError,
+        syncFailed: it.failed,
+      }))
+      .filter((it) => dateKey(new Date(it.created_at), timeZone) === today);
+    const queuedIds = new Set(queued.map((it) => it.id));
+    return [...queued, ...synced.filter((it) => !queuedIds.has(it.id)).reverse()];
+  }, [pending, synced, userId, timeZone]);
+
+  const totals = useMemo(() => hydrationTotals(entries), [entries]);
+
+  const add = useCallback(async (drink: DrinkInput) => {
+    if (!userId) {
+      setError('User not authenticated');
+      return;
+    }
+    try {
+      await enqueue('beverages', { ...drink, user_id: userId });
+    } catch (queueErr) {
+      setError(queueErr instanceof Error ? queueErr.message : 'Could not log drink');
+    }
+  }, [userId]);
+
+  const remove = useCallback(async (id: string) => {
+    const { error: removeErr } = await beverages.remove(id);
+    if (removeErr) setError(removeErr.message);
+    else setSynced((prev) => prev.filter((it) => it.id !== id));
+  }, [beverages]);
+
+  return { entries, totals, error, reload, add, remove };
+}
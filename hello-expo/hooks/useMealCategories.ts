@@ -0,0 +1,35 @@
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useState } from 'react';
+
+import { MealCategoryInput, useRepository } from '@/lib/data';
+import { DEFAULT_MEAL_CATEGORIES } from '@/lib/mealCategories';
+
+/**
+ * The user's meal categories, or the built-in defaults until they have
+ * customised them. Reloaded on focus so edits apply when navigating back.
+ */
+export function useMealCategories() {
+  const { mealCategories } = useRepository();
+  const [categories, setCategories] = useState<MealCategoryInput[]>(DEFAULT_MEAL_CATEGORIES);
+  const [customised, setCustomised] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const { data, error: listErr } = await mealCategories.list();
+    if (listErr) {
+      setError(listErr.message);
+    } else {
+      setCategories(data.length > 0 ? data : DEFAULT_MEAL_CATEGORIES);
+      setCustomised(data.length > 0);
+      setError(null);
+    }
+    setLoading(false);
+  }, [mealCategories]);
+
+  useFocusEffect(useCallback(() => {
+    reload();
+  }, [reload]));
+
+  return { categories, customised, loading, error, reload };
+}
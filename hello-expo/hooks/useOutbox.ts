@@ -0,0 +1,27 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { OutboxItem, OutboxKind, subscribeOutbox } from '@/lib/outbox';
+
+/**
+ * Entries of `kind` that are still waiting in the local outbox.
+ * `onSynced` fires whenever one of them has been pushed to Supabase.
+ */
+export function usePendingEntries(kind: OutboxKind, onSynced?: () => void) {
+  const [pending, setPending] = useState<OutboxItem[]>([]);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  useEffect(() => {
+    let previous = new Set<string>();
+    return subscribeOutbox((items) => {
+      const mine = items.filter((it) => it.kind === kind);
+      const current = new Set(mine.map((it) => it.id));
+      const synced = [...previous].some((id) => !current.has(id));
+      previous = current;
+      setPending(mine);
+      if (synced) onSyncedRef.current?.();
+    });
+  }, [kind]);
+
+  return pending;
+}
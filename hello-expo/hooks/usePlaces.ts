@@ -0,0 +1,31 @@
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useState } from 'react';
+
+import { Place, useRepository } from '@/lib/data';
+
+/**
+ * The user's saved places, reloaded on focus so places added on the Places
+ * screen apply when navigating back.
+ */
+export function usePlaces() {
+  const { places: repo } = useRepository();
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const { data, error: listErr } = await repo.list();
+    if (listErr) setError(listErr.message);
+    else {
+      setPlaces(data);
+      setError(null);
+    }
+    setLoading(false);
+  }, [repo]);
+
+  useFocusEffect(useCallback(() => {
+    reload();
+  }, [reload]));
+
+  return { places, loading, error, reload };
+}
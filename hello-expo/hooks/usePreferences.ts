@@ -0,0 +1,10 @@
+import { useMemo } from 'react';
+
+import { preferencesFromProfile } from '@/lib/preferences';
+import { useSession } from '@/lib/session';
+
+/** Time zone, units and week start for the signed-in user, falling back to the device's */
+export function usePreferences() {
+  const { profile } = useSession();
+  return useMemo(() => preferencesFromProfile(profile), [profile]);
+}
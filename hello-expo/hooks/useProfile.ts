@@ -0,0 +1,10 @@
+import { useSession } from '@/lib/session';
+
+/**
+ * The signed-in user's profile from the shared session state, so an edit on
+ * the Profile tab shows up on every screen at once.
+ */
+export function useProfile() {
+  const { profile, profileLoading, error, reloadProfile, saveProfile } = useSession();
+  return { profile, loading: profileLoading, error, reload: reloadProfile, save: saveProfile };
+}
@@ -0,0 +1,33 @@
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useState } from 'react';
+
+import { usePreferences } from '@/hooks/usePreferences';
+import { UserStats, useRepository } from '@/lib/data';
+
+/**
+ * The user's lifetime statistics, reloaded on focus so entries logged on
+ * other tabs are counted when coming back.
+ */
+export function useStats() {
+  const { stats: repo } = useRepository();
+  const { timeZone } = usePreferences();
+  const [stats, setStats] = useState<UserStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const { data, error: getErr } = await repo.get(timeZone);
+    if (getErr) setError(getErr.message);
+    else {
+      setStats(data);
+      setError(null);
+    }
+    setLoading(false);
+  }, [repo, timeZone]);
+
+  useFocusEffect(useCallback(() => {
+    reload();
+  }, [reload]));
+
+  return { stats, loading, error, reload };
+}
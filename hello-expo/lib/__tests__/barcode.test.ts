@@ -0,0 +1,98 @@
+import { expandUpcE, lookupBarcode, normalizeBarcode } from '../barcode';
+import { invokeFunction } from '../functions';
+
+jest.mock('../functions', () => ({ invokeFunction: jest.fn() }));
+
+const invoke = invokeFunction as jest.MockedFunction<typeof invokeFunction>;
+
+const cereal = {
+  barcode: '0012345000065',
+  name: 'Corn flakes',
+  brand: 'Acme',
+  per100g: { calories: 357, protein: 7.5, carbs: 84, fat: 0.4, fiber: 3 },
+  servings: [{ label: '1 cup', grams: 28 }],
+  source: 'usda',
+};
+
+beforeEach(() => {
+  invoke.mockReset();
+});
+
+describe('normalizeBarcode', () => {
+  it('keeps valid EAN-13 and EAN-8 codes as scanned', () => {
+    expect(normalizeBarcode('5449000000996')).toBe('5449000000996');
+    expect(normalizeBarcode('96385074')).toBe('96385074');
+  });
+
+  it('reads UPC-A and zero-padded GTIN-14 as the equivalent EAN-13', () => {
+    expect(normalizeBarcode('036000291452')).toBe('0036000291452');
+    expect(normalizeBarcode('00036000291452')).toBe('0036000291452');
+  });
+
+  it('ignores spaces and dashes in typed codes', () => {
+    expect(normalizeBarcode(' 5 449000-000996 ')).toBe('5449000000996');
+  });
+
+  it('rejects wrong check digits and lengths', () => {
+    expect(normalizeBarcode('5449000000997')).toBeNull();
+    expect(normalizeBarcode('96385075')).toBeNull();
+    expect(normalizeBarcode('12345')).toBeNull();
+    expect(normalizeBarcode('10036000291452')).toBeNull();
+    expect(normalizeBarcode('')).toBeNull();
+  });
+
+  it('expands UPC-E when the scanner reports it', () => {
+    expect(normalizeBarcode('01234565', 'upc_e')).toBe('0012345000065');
+    expect(normalizeBarcode('04252614', 'org.gs1.UPC-E')).toBe('0042100005264');
+    // Without its number system and check digit
+    expect(normalizeBarcode('425261', 'upc_e')).toBe('0042100005264');
+    expect(normalizeBarcode('01234566', 'upc_e')).toBeNull();
+  });
+
+  it('reads eight digits as EAN-8 without a UPC-E type', () => {
+    expect(normalizeBarcode('04252614')).toBeNull();
+    expect(normalizeBarcode('96385074', 'ean8')).toBe('96385074');
+  });
+});
+
+describe('expandUpcE', () => {
+  it('fills in the zeros the last digit stands for', () => {
+    expect(expandUpcE('01234505')).toBe('012000003455');
+    expect(expandUpcE('0123453')).toBe('012300000451');
+    expect(expandUpcE('0123444')).toBe('012340000046');
+    expect(expandUpcE('0123457')).toBe('012345000072');
+  });
+
+  it('only accepts number systems 0 and 1', () => {
+    expect(expandUpcE('21234565')).toBeNull();
+    expect(expandUpcE('12345')).toBeNull();
+  });
+});
+
+describe('lookupBarcode', () => {
+  it('finds bundled products without a request', async () => {
+    const result = await lookupBarcode('5449000000996');
+    expect(result).toMatchObject({ status: 'found', product: { barcode: '5449000000996', source: 'local' } });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('asks the nutrition function for unknown codes, normalised', async () => {
+    invoke.mockResolvedValue({ data: { products: [cereal] }, error: null });
+    const result = await lookupBarcode('01234565', 'upc_e');
+    expect(invoke).toHaveBeenCalledWith('nutrition', { action: 'barcode', barcode: '0012345000065' });
+    expect(result).toEqual({ status: 'found', product: cereal });
+  });
+
+  it('tells not found apart from a failed lookup', async () => {
+    invoke.mockResolvedValueOnce({ data: { products: [] }, error: null });
+    expect(await lookupBarcode('036000291452')).toEqual({ status: 'not_found', barcode: '0036000291452' });
+
+    invoke.mockResolvedValueOnce({ data: null, error: { code: 'network', message: 'No connection' } });
+    expect(await lookupBarcode('036000291452')).toEqual({ status: 'error', message: 'No connection' });
+  });
+
+  it('rejects invalid codes before any provider', async () => {
+    expect(await lookupBarcode('123')).toEqual({ status: 'invalid' });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { repository } from '../data';
+import { backoff, discardOutboxItem, enqueue, getPending, retryOutboxItem } from '../outbox';
+import { supabase } from '../supabase';
+import { setWeatherProvider, WeatherReading } from '../weather';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock'));
+// Entry ids must differ between entries; the preset's native module mock returns a constant
+jest.mock('expo-crypto', () => ({ randomUUID: () => jest.requireActual('crypto').randomUUID() }));
+jest.mock('../supabase', () => ({
+  supabase: { auth: { getSession: jest.fn(), onAuthStateChange: jest.fn() } },
+}));
+jest.mock('../data/context', () => ({
+  repository: jest.requireActual('../data/memoryRepository').createMemoryRepository('user-1'),
+}));
+
+const getSession = supabase.auth.getSession as jest.Mock;
+
+const signIn = (userId: string) => getSession.mockResolvedValue({ data: { session: { user: { id: userId } } } });
+
+/** Lets the background push started by `enqueue` or a retry timer run to the end */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+const MINUTE = 60_000;
+
+const clouds: WeatherReading = {
+  condition: 'Clouds',
+  conditionCode: 803,
+  temperature: 14.2,
+  humidity: 71,
+  pressure: 1012,
+  daylightHours: 10.4,
+  observedAt: '2026-10-19T12:00:00.000Z',
+  source: 'test',
+};
+
+beforeEach(() => {
+  jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+  jest.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+  jest.restoreAllMocks();
+  setWeatherProvider(null);
+  signIn('user-1');
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+});
+
+describe('backoff', () => {
+  it('doubles with every attempt, with jitter, up to ten minutes', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(backoff(1)).toBeGreaterThanOrEqual(1_000);
+      expect(backoff(1)).toBeLessThanOrEqual(2_000);
+      expect(backoff(4)).toBeGreaterThanOrEqual(8_000);
+      expect(backoff(4)).toBeLessThanOrEqual(16_000);
+      expect(backoff(30)).toBeGreaterThanOrEqual(5 * MINUTE);
+      expect(backoff(30)).toBeLessThanOrEqual(10 * MINUTE);
+    }
+  });
+});
+
+describe('outbox', () => {
+  it('pushes a new entry under its queued id and drops it from the queue', async () => {
+    const item = await enqueue('food', { user_id: 'user-1', food_name: 'Apple', calories: 95 });
+    await settle();
+
+    expect(await getPending('food')).toEqual([]);
+    const { data } = await repository.food.get(item.id);
+    expect(data).toMatchObject({ id: item.id, food_name: 'Apple', calories: 95 });
+  });
+
+  it('keeps entries that fail for a passing reason and retries them after the backoff', async () => {
+    const create = jest.spyOn(repository.food, 'create')
+      .mockResolvedValueOnce({ data: null, error: { code: 'network', message: 'No connection. Please try again.' } });
+
+    const item = await enqueue('food', { user_id: 'user-1', food_name: 'Toast', calories: 120 });
+    await settle();
+    expect(await getPending('food')).toMatchObject([
+      { id: item.id, attempts: 1, failed: false, lastError: 'No connection. Please try again.' },
+    ]);
+
+    jest.advanceTimersByTime(2_000);
+    await settle();
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(await getPending('food')).toEqual([]);
+    expect((await repository.food.get(item.id)).data?.food_name).toBe('Toast');
+  });
+
+  it('parks entries the server rejects until they are retried with a fix', async () => {
+    const create = jest.spyOn(repository.food, 'create')
+      .mockResolvedValueOnce({ data: null, error: { code: 'invalid', message: 'calories must not be negative' } });
+
+    const item = await enqueue('food', { user_id: 'user-1', food_name: 'Soup', calories: -5 });
+    await settle();
+    jest.advanceTimersByTime(60 * MINUTE);
+    await settle();
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(await getPending('food')).toMatchObject([{ id: item.id, failed: true, lastError: 'calories must not be negative' }]);
+
+    await retryOutboxItem(item.id, { calories: 150 });
+    await settle();
+    expect(await getPending('food')).toEqual([]);
+    expect((await repository.food.get(item.id)).data?.calories).toBe(150);
+  });
+
+  it("leaves another account's entries queued for that account", async () => {
+    signIn('user-2');
+    const create = jest.spyOn(repository.beverages, 'create');
+
+    const item = await enqueue('beverages', { user_id: 'user-1', drink: 'Water', volume_ml: 250 });
+    await settle();
+    expect(create).not.toHaveBeenCalled();
+    expect(await getPending('beverages')).toMatchObject([{ id: item.id, attempts: 0 }]);
+
+    await discardOutboxItem(item.id);
+    expect(await getPending('beverages')).toEqual([]);
+  });
+});
+
+describe('weather for queued moods', () => {
+  const mood = { user_id: 'user-1', mood: 4, text: 'Walk in the park', lat: 52.52, lng: 13.4 };
+
+  it('fills in the weather before the push', async () => {
+    setWeatherProvider({ name: 'test', current: jest.fn().mockResolvedValue(clouds) });
+
+    const item = await enqueue('moods', mood);
+    await settle();
+    expect((await repository.moods.get(item.id)).data).toMatchObject({ weather: 'Clouds', temperature: 14.2 });
+  });
+
+  it('saves the mood without weather when the lookup fails, then backfills it', async () => {
+    const current = jest.fn().mockRejectedValueOnce(new Error('Weather service down')).mockResolvedValue(clouds);
+    setWeatherProvider({ name: 'test', current });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const item = await enqueue('moods', { ...mood, text: 'Rainy?' });
+    await settle();
+    expect(await getPending('moods')).toEqual([]);
+    expect((await repository.moods.get(item.id)).data).toMatchObject({ text: 'Rainy?', weather: null });
+
+    jest.advanceTimersByTime(2_000);
+    await settle();
+    expect(current).toHaveBeenCalledTimes(2);
+    expect((await repository.moods.get(item.id)).data).toMatchObject({ weather: 'Clouds', humidity: 71 });
+  });
+});
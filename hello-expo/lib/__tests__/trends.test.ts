@@ -0,0 +1,95 @@
+import type { Mood } from '../data';
+import { addDays, aggregateMoods, dateKey, heatmapDays, moodStreak, startOfDay, startOfWeek, zonedDate } from '../trends';
+
+const mood = (createdAt: string, value: number | null) => ({ id: createdAt, created_at: createdAt, mood: value }) as Mood;
+
+describe('calendar days in a time zone', () => {
+  it('keys an instant by the date it has in the given zone', () => {
+    const at = new Date('2026-10-19T23:30:00Z');
+    expect(dateKey(at, 'UTC')).toBe('2026-10-19');
+    expect(dateKey(at, 'Europe/Berlin')).toBe('2026-10-20');
+    expect(dateKey(at, 'America/Los_Angeles')).toBe('2026-10-19');
+  });
+
+  it('starts the day at local midnight', () => {
+    const at = new Date('2026-10-19T02:00:00Z');
+    expect(startOfDay(at, 'Europe/Berlin').toISOString()).toBe('2026-10-18T22:00:00.000Z');
+    expect(startOfDay(at, 'America/New_York').toISOString()).toBe('2026-10-18T04:00:00.000Z');
+  });
+
+  it('steps over daylight saving changes by calendar day, not by 24 hours', () => {
+    // New York springs forward on 8 March 2026, so that day is 23 hours long
+    const start = zonedDate(2026, 2, 8, 'America/New_York');
+    const next = addDays(start, 1, 'America/New_York');
+    expect(next.getTime() - start.getTime()).toBe(23 * 3_600_000);
+    expect(dateKey(next, 'America/New_York')).toBe('2026-03-09');
+    // Falls back on 1 November 2026: a 25 hour day
+    const autumn = zonedDate(2026, 10, 1, 'America/New_York');
+    expect(addDays(autumn, 1, 'America/New_York').getTime() - autumn.getTime()).toBe(25 * 3_600_000);
+  });
+
+  it('starts weeks on the chosen day', () => {
+    // A Wednesday
+    const at = new Date('2026-10-21T12:00:00Z');
+    expect(dateKey(startOfWeek(at, 1, 'UTC'), 'UTC')).toBe('2026-10-19');
+    expect(dateKey(startOfWeek(at, 0, 'UTC'), 'UTC')).toBe('2026-10-18');
+    expect(dateKey(startOfWeek(at, 6, 'UTC'), 'UTC')).toBe('2026-10-17');
+  });
+});
+
+describe('aggregateMoods', () => {
+  const moods = [
+    mood('2026-10-19T08:00:00Z', 2),
+    mood('2026-10-19T20:00:00Z', 4),
+    // Late evening in New York, but already the next day in UTC
+    mood('2026-10-20T02:00:00Z', 5),
+    mood('2026-10-20T12:00:00Z', null),
+  ];
+
+  it('averages each day of the given zone, oldest first', () => {
+    expect(aggregateMoods(moods, 'day', 1, 'UTC').map(({ key, average, min, max, count }) => ({ key, average, min, max, count })))
+      .toEqual([
+        { key: '2026-10-19', average: 3, min: 2, max: 4, count: 2 },
+        { key: '2026-10-20', average: 5, min: 5, max: 5, count: 1 },
+      ]);
+    expect(aggregateMoods(moods, 'day', 1, 'America/New_York').map(({ key, count }) => ({ key, count })))
+      .toEqual([{ key: '2026-10-19', count: 3 }]);
+  });
+
+  it('groups weeks and months by their first day', () => {
+    expect(aggregateMoods(moods, 'week', 1, 'UTC').map((b) => b.key)).toEqual(['2026-10-19']);
+    expect(aggregateMoods(moods, 'month', 1, 'UTC').map((b) => b.key)).toEqual(['2026-10-01']);
+  });
+});
+
+describe('moodStreak', () => {
+  const days = ['2026-10-10', '2026-10-11', '2026-10-12', '2026-10-16', '2026-10-17', '2026-10-18'];
+  const moods = days.map((day) => mood(`${day}T12:00:00Z`, 3));
+
+  it('counts a streak through yesterday as current', () => {
+    expect(moodStreak(moods, new Date('2026-10-19T12:00:00Z'), 'UTC')).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('ends the current streak after a day without entries', () => {
+    expect(moodStreak(moods, new Date('2026-10-20T12:00:00Z'), 'UTC')).toEqual({ current: 0, longest: 3 });
+  });
+
+  it('uses the days of the given zone', () => {
+    // 23:30 UTC on the 18th is already the 19th in Berlin, which extends the run
+    const late = [...moods, mood('2026-10-18T23:30:00Z', 3)];
+    expect(moodStreak(late, new Date('2026-10-19T08:00:00Z'), 'Europe/Berlin').current).toBe(4);
+    expect(moodStreak(late, new Date('2026-10-19T08:00:00Z'), 'UTC').current).toBe(3);
+    expect(moodStreak([], new Date(), 'UTC')).toEqual({ current: 0, longest: 0 });
+  });
+});
+
+describe('heatmapDays', () => {
+  it('lays out whole weeks ending with the current one', () => {
+    const cells = heatmapDays([mood('2026-10-19T12:00:00Z', 4)], 2, new Date('2026-10-21T12:00:00Z'), 1, 'UTC');
+    expect(cells).toHaveLength(14);
+    expect(cells[0].key).toBe('2026-10-12');
+    expect(cells[13].key).toBe('2026-10-25');
+    expect(cells.find((cell) => cell.key === '2026-10-19')?.average).toBe(4);
+    expect(cells.filter((cell) => cell.average != null)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,250 @@
+import type { AuthError } from '@supabase/supabase-js';
+import { isAuthError, isAuthRetryableFetchError } from '@supabase/supabase-js';
+import * as AppleAuthentication from 'expo-apple-authentication';
+import * as Crypto from 'expo-crypto';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { Platform } from 'react-native';
+import { RepoError, RepoResult, toRepoError } from './data';
+import { supabase } from './supabase';
+
+/**
+ * Sign-in flows beyond email and password: magic links, password reset and
+ * OAuth. Emailed links and OAuth providers redirect back into the app
+ * through the routes under app/auth, which finish the sign-in with
+ * `completeAuthRedirect`.
+ */
+
+export type OAuthProvider = 'apple' | 'google';
+
+/** Seconds before another email can be requested; Supabase rejects sooner resends */
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+export const PASSWORD_RULES: { label: string; test: (password: string) => boolean }[] = [
+  { label: 'At least 8 characters', test: (p) => p.length >= 8 },
+  { label: 'A lowercase letter', test: (p) => /[a-z]/.test(p) },
+  { label: 'An uppercase letter', test: (p) => /[A-Z]/.test(p) },
+  { label: 'A number', test: (p) => /\d/.test(p) },
+];
+
+export function isStrongPassword(password: string) {
+  return PASSWORD_RULES.every((rule) => rule.test(password));
+}
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+/** Why an email address can't be used, or null if it looks deliverable */
+export function emailProblem(email: string): string | null {
+  const value = normalizeEmail(email);
+  if (!value) return 'Enter your email address';
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(value)) return 'Enter a valid email address';
+  return null;
+}
+
+/** Deep link into the app, e.g. helloexpo://auth/callback */
+export const authRedirectUrl = (path: 'auth/callback' | 'auth/reset-password' = 'auth/callback') =>
+  Linking.createURL(path);
+
+function toAuthError(err: AuthError | Error): RepoError {
+  if (isAuthRetryableFetchError(err)) return { code: 'network', message: 'No connection. Please try again.' };
+  if (isAuthError(err)) {
+    const { code } = err;
+    if (code?.startsWith('over_')) {
+      return { code: 'rate_limited', message: 'Too many attempts. Please wait a minute and try again.' };
+    }
+    if (code === 'invalid_credentials') return { code: 'unauthenticated', message: 'Incorrect email or password' };
+    if (code === 'user_already_exists' || code === 'email_exists') {
+      return { code: 'conflict', message: 'An account with this email already exists. Sign in instead.' };
+    }
+    if (code === 'otp_expired') return { code: 'invalid', message: 'This link has expired. Request a new one.' };
+    if (code === 'weak_password' || code === 'same_password' || code === 'email_address_invalid') {
+      return { code: 'invalid', message: err.message };
+    }
+  }
+  return toRepoError(err);
+}
+
+function fail<T>(err: AuthError | Error): RepoResult<T> {
+  return { data: null, error: toAuthError(err) };
+}
+
+const ok = <T,>(data: T): RepoResult<T> => ({ data, error: null });
+
+/** `verified` is false when the account exists but its email isn't confirmed yet */
+export async function signInWithPassword(email: string, password: string): Promise<RepoResult<{ verified: boolean }>> {
+  try {
+    const { error } = await supabase.auth.signInWithPassword({ email: normalizeEmail(email), password });
+    if (error?.code === 'email_not_confirmed') return ok({ verified: false });
+    return error ? fail(error) : ok({ verified: true });
+  } catch (err) {
+    return fail(err as Error);
+  }
+}
+
+/** `verified` is false when the project requires confirming the email before signing in */
+export async function signUp(email: string, password: string): Promise<RepoResult<{ verified: boolean }>> {
+  try {
+    const { data, error } = await supabase.auth.signUp({
+      email: normalizeEmail(email),
+      password,
+      options: { emailRedirectTo: authRedirectUrl() },
+    });
+    return error ? fail(error) : ok({ verified: data.session != null });
+  } catch (err) {
+    return fail(err as Error);
+  }
+}
+
+export async function resendVerification(email: string): Promise<RepoResult<null>> {
+  try {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email: normalizeEmail(email),
+      options: { emailRedirectTo: authRedirectUrl() },
+    });
+    return error ? fail(error) : ok(null);
+  } catch (err) {
+    return fail(err as Error);
+  }
+}
+
+/** Emails a one-tap sign-in link, creating the account on first use */
+export async function sendMagicLink(email: string): Promise<RepoResult<null>> {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: normalizeEmail(email),
+      options: { emailRedirectTo: authRedirectUrl() },
+    });
+    return error ? fail(error) : ok(null);
+  } catch (err) {
+    return fail(err as Error);
+  }
+}
+
+export async function sendPasswordReset(email: string): Promise<RepoResult<null>> {
+  try {
+    const { error } = await supabase.auth.resetPasswordForEmail(normalizeEmail(email), {
+      redirectTo: authRedirectUrl('auth/reset-password'),
+    });
+    return error ? fail(error) : ok(null);
+  } catch (err) {
+    return fail(err as Error);
+  }
+}
+
+/** Sets a new password for the signed-in user, e.g. after following a reset link */
+export async function updatePassword(password: string): Promise<RepoResult<null>> {
+  try {
+    const { error } = await supabase.auth.updateUser({ password });
+    return error ? fail(error) : ok(null);
+  } catch (err) {
+    return fail(err as Error);
+  }
+}
+
+/**
+ * Query and fragment parameters of a redirect; implicit-flow tokens arrive in
+ * the fragment. Parsed by hand: React Native's URLSearchParams can't parse strings.
+ */
+function redirectParams(url: string) {
+  const params = new Map<string, string>();
+  const [beforeHash, hash = ''] = url.split('#');
+  const query = beforeHash.split('?')[1] ?? '';
+  for (const pair of `${query}&${hash}`.split('&')) {
+    const [key, value = ''] = pair.split('=');
+    if (key) params.set(decodeURIComponent(key), decodeURIComponent(value.replace(/\+/g, ' ')));
+  }
+  return params;
+}
+
+/**
+ * Finishes a sign-in from a redirect URL: an emailed link (confirmation,
+ * magic link, password reset) or an OAuth callback. `recovery` is true for
+ * password reset links. Resolves to null data when the URL carries no
+ * credentials, e.g. the app was opened from a bare link.
+ */
+export async function completeAuthRedirect(url: string): Promise<RepoResult<{ recovery: boolean } | null>> {
+  const params = redirectParams(url);
+  const description = params.get('error_description');
+  if (description) {
+    const expired = params.get('error_code') === 'otp_expired';
+    return {
+      data: null,
+      error: expired
+        ? { code: 'invalid', message: 'This link has expired. Request a new one.' }
+        : { code: 'unauthenticated', message: description },
+    };
+  }
+
+  try {
+    const recovery = params.get('type') === 'recovery';
+    const code = params.get('code');
+    if (code) {
+      const { error } = await supabase.auth.exchangeCodeForSession(code);
+      return error ? fail(error) : ok({ recovery });
+    }
+    const accessToken = params.get('access_token');
+    const refreshToken = params.get('refresh_token');
+    if (accessToken && refreshToken) {
+      const { error } = await supabase.auth.setSession({ access_token: accessToken, refresh_token: refreshToken });
+      return error ? fail(error) : ok({ recovery });
+    }
+    return ok(null);
+  } catch (err) {
+    return fail(err as Error);
+  }
+}
+
+/** Sign in with Apple's native sheet, only offered on iOS */
+async function signInWithAppleNative(): Promise<RepoResult<boolean>> {
+  // Apple signs a hash of the nonce; Supabase checks it against the raw value
+  const nonce = Crypto.randomUUID();
+  const hashedNonce = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, nonce);
+  try {
+    const credential = await AppleAuthentication.signInAsync({
+      requestedScopes: [
+        AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+        AppleAuthentication.AppleAuthenticationScope.EMAIL,
+      ],
+      nonce: hashedNonce,
+    });
+    if (!credential.identityToken) {
+      return { data: null, error: { code: 'unknown', message: 'Apple did not return an identity token' } };
+    }
+    const { error } = await supabase.auth.signInWithIdToken({ provider: 'apple', token: credential.identityToken, nonce });
+    return error ? fail(error) : ok(true);
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ERR_REQUEST_CANCELED') return ok(false);
+    return fail(err as Error);
+  }
+}
+
+/**
+ * Signs in through an OAuth provider. Apple uses the native sheet on iOS;
+ * everything else goes through the provider's page in an auth browser
+ * session that closes itself when Supabase redirects back. Resolves to false
+ * if the user cancelled.
+ */
+export async function signInWithProvider(provider: OAuthProvider): Promise<RepoResult<boolean>> {
+  if (provider === 'apple' && Platform.OS === 'ios' && (await AppleAuthentication.isAvailableAsync())) {
+    return signInWithAppleNative();
+  }
+
+  try {
+    const redirectTo = authRedirectUrl();
+    const { data, error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo, skipBrowserRedirect: true },
+    });
+    if (error) return fail(error);
+
+    const result = await WebBrowser.openAuthSessionAsync(data.url, redirectTo);
+    if (result.type !== 'success') return ok(false);
+    const completed = await completeAuthRedirect(result.url);
+    return completed.error ? completed : ok(completed.data != null);
+  } catch (err) {
+    return fail(err as Error);
+  }
+}
@@ -0,0 +1,92 @@
+import { localProvider } from './local';
+import { remoteProvider } from './remote';
+import type { Product, ProductProvider } from './types';
+
+export type { Product, ProductProvider, ScanPrefill } from './types';
+export { localProvider } from './local';
+export { remoteProvider } from './remote';
+
+const providers: ProductProvider[] = [localProvider, remoteProvider];
+
+/** Adds a provider that is asked after the ones already registered */
+export function registerProductProvider(provider: ProductProvider) {
+  if (!providers.some((p) => p.name === provider.name)) providers.push(provider);
+}
+
+function checkDigit(body: string) {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    // Weights alternate 3, 1, ... starting from the digit next to the check digit
+    const weight = (body.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(body[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+function checkDigitValid(digits: string) {
+  return checkDigit(digits.slice(0, -1)) === Number(digits[digits.length - 1]);
+}
+
+/**
+ * The UPC-A (12 digits) a zero-suppressed UPC-E code stands for. Scanners
+ * report UPC-E with or without its number system and check digit, so 6, 7
+ * and 8 digits are accepted; a missing check digit is computed.
+ */
+export function expandUpcE(digits: string): string | null {
+  const code = digits.length === 6 ? `0${digits}` : digits;
+  if ((code.length !== 7 && code.length !== 8) || (code[0] !== '0' && code[0] !== '1')) return null;
+  const [system, d1, d2, d3, d4, d5, d6] = code;
+  const body =
+    d6 <= '2' ? `${system}${d1}${d2}${d6}0000${d3}${d4}${d5}`
+    : d6 === '3' ? `${system}${d1}${d2}${d3}00000${d4}${d5}`
+    : d6 === '4' ? `${system}${d1}${d2}${d3}${d4}00000${d5}`
+    : `${system}${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return body + (code.length === 8 ? code[7] : String(checkDigit(body)));
+}
+
+/** Whether the scanner reported a UPC-E symbol, e.g. "upc_e" or "org.gs1.UPC-E" */
+const isUpcE = (type?: string) => type != null && /upc[-_]?e$/i.test(type);
+
+/**
+ * EAN-8 and EAN-13 are kept as scanned; UPC-A (12 digits) gets the leading
+ * zero that makes it the equivalent EAN-13, and a GTIN-14 with a zero
+ * indicator loses it. UPC-E, which has as many digits as EAN-8, is told apart
+ * by the scanner's `type` and expanded to UPC-A first. Returns null for
+ * anything that isn't a valid retail barcode.
+ */
+export function normalizeBarcode(raw: string, type?: string): string | null {
+  let digits = raw.replace(/\D/g, '');
+  if (isUpcE(type)) {
+    const upcA = expandUpcE(digits);
+    if (!upcA) return null;
+    digits = upcA;
+  }
+  const code =
+    digits.length === 12 ? `0${digits}` : digits.length === 14 && digits.startsWith('0') ? digits.slice(1) : digits;
+  if (code.length !== 8 && code.length !== 13) return null;
+  return checkDigitValid(code) ? code : null;
+}
+
+export type LookupResult =
+  | { status: 'found'; product: Product }
+  | { status: 'not_found'; barcode: string }
+  | { status: 'invalid' }
+  | { status: 'error'; message: string };
+
+/** `type` is the symbology the scanner reported, if any; typed-in codes have none */
+export async function lookupBarcode(raw: string, type?: string): Promise<LookupResult> {
+  const barcode = normalizeBarcode(raw, type);
+  if (!barcode) return { status: 'invalid' };
+
+  let lastError: string | null = null;
+  for (const provider of providers) {
+    try {
+      const product = await provider.lookup(barcode);
+      if (product) return { status: 'found', product };
+    } catch (err) {
+      // Try the next provider; only report the failure if nobody knows it
+      lastError = err instanceof Error ? err.message : String(err);
+    }
+  }
+  return lastError ? { status: 'error', message: lastError } : { status: 'not_found', barcode };
+}
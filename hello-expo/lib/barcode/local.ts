@@ -0,0 +1,38 @@
+import type { Product, ProductProvider } from './types';
+
+/**
+ * Products bundled with the app in `assets/data/products.json`. The checked-in
+ * file only holds a handful of sample products, so most scans fall through to
+ * the remote provider; `npm run build:products` streams the Open Food Facts
+ * export and replaces it with the most scanned products in the same format.
+ */
+
+type ProductRow = [string, string, string, number, number, number, number, number, [string, number][]];
+
+let products: Map<string, ProductRow> | null = null;
+
+function getProducts() {
+  if (!products) {
+    const rows: ProductRow[] = require('../../assets/data/products.json');
+    products = new Map(rows.map((row) => [row[0], row]));
+  }
+  return products;
+}
+
+export const localProvider: ProductProvider = {
+  name: 'local',
+  async lookup(barcode) {
+    const row = getProducts().get(barcode);
+    if (!row) return null;
+    const [code, name, brand, calories, protein, carbs, fat, fiber, servings] = row;
+    const product: Product = {
+      barcode: code,
+      name,
+      brand: brand || null,
+      per100g: { calories, protein, carbs, fat, fiber },
+      servings: servings.map(([label, grams]) => ({ label, grams })),
+      source: 'local',
+    };
+    return product;
+  },
+};
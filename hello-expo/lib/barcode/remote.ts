@@ -0,0 +1,14 @@
+import { invokeFunction } from '../functions';
+import type { ProductProvider } from './types';
+
+/** Branded foods from USDA FoodData Central, through the `nutrition` Edge Function */
+export const remoteProvider: ProductProvider = {
+  name: 'usda',
+  async lookup(barcode) {
+    const { data, error } = await invokeFunction('nutrition', { action: 'barcode', barcode });
+    if (error) throw new Error(error.message);
+    const [first] = data.products;
+    if (!first) return null;
+    return { ...first, barcode: first.barcode ?? barcode };
+  },
+};
@@ -0,0 +1,25 @@
+import type { Macros, Serving } from '../nutrition';
+
+export type Product = {
+  /** GTIN digits as printed, normalised to 8 or 13 digits */
+  barcode: string;
+  name: string;
+  brand: string | null;
+  per100g: Macros;
+  servings: Serving[];
+  /** Name of the provider that found it */
+  source: string;
+};
+
+/**
+ * A source of product data. Providers are asked in registration order and
+ * the first non-null answer wins, so cheap local lookups go first.
+ */
+export interface ProductProvider {
+  name: string;
+  /** null when the provider doesn't know the barcode; throws on transport errors */
+  lookup(barcode: string): Promise<Product | null>;
+}
+
+/** What the Food screen form is prefilled with, passed as a JSON route param */
+export type ScanPrefill = Macros & { food_name: string };
@@ -0,0 +1,18 @@
+import { createContext, PropsWithChildren, useContext } from 'react';
+import { supabase } from '../supabase';
+import { createSupabaseRepository } from './supabaseRepository';
+import type { Repository } from './types';
+
+/** The app-wide Supabase-backed repository */
+export const repository = createSupabaseRepository(supabase);
+
+const RepositoryContext = createContext<Repository>(repository);
+
+/** Swap the data source for a subtree, e.g. `createMemoryRepository()` in tests. */
+export function RepositoryProvider({ value, children }: PropsWithChildren<{ value: Repository }>) {
+  return <RepositoryContext.Provider value={value}>{children}</RepositoryContext.Provider>;
+}
+
+export function useRepository() {
+  return useContext(RepositoryContext);
+}
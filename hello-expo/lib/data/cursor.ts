@@ -0,0 +1,25 @@
+/**
+ * Keyset cursors over (created_at, id), newest first. The cursor is opaque
+ * to screens; only the repositories know how to read it.
+ */
+
+export type CursorKey = { created_at: string | null; id: string };
+
+export function encodeCursor(row: CursorKey) {
+  return `${row.created_at ?? ''}|${row.id}`;
+}
+
+export function decodeCursor(cursor: string): CursorKey {
+  const sep = cursor.lastIndexOf('|');
+  return { created_at: cursor.slice(0, sep) || null, id: cursor.slice(sep + 1) };
+}
+
+function toTime(value: string | null) {
+  return value ? Date.parse(value) : 0;
+}
+
+/** Newest-first ordering used by every entry list */
+export function compareNewestFirst(a: CursorKey, b: CursorKey) {
+  const byDate = toTime(b.created_at) - toTime(a.created_at);
+  return byDate !== 0 ? byDate : b.id.localeCompare(a.id);
+}
@@ -0,0 +1,5 @@
+export { repository, RepositoryProvider, useRepository } from './context';
+export { createMemoryRepository } from './memoryRepository';
+export type { MemorySeed } from './memoryRepository';
+export { createSupabaseRepository, toRepoError } from './supabaseRepository';
+export * from './types';
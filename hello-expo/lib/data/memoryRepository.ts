@@ -0,0 +1,484 @@
+import * as Crypto from 'expo-crypto';
+import { computeStats } from '../stats';
+import { compareNewestFirst, decodeCursor, encodeCursor } from './cursor';
+import {
+  Beverage,
+  BeveragePatch,
+  BeverageRepository,
+  DEFAULT_PAGE_SIZE,
+  EntryPhoto,
+  EntryRepository,
+  FoodEntry,
+  FoodDaySummary,
+  FoodEntryPatch,
+  FoodRepository,
+  MealCategory,
+  MealCategoryRepository,
+  Mood,
+  MoodPatch,
+  MoodRepository,
+  NewBeverage,
+  NewFoodEntry,
+  NewMood,
+  PhotoRepository,
+  Place,
+  PlaceRepository,
+  Profile,
+  ProfilePatch,
+  ProfileRepository,
+  RecipeRepository,
+  RecipeWithIngredients,
+  RepoResult,
+  Repository,
+  StatsRepository,
+} from './types';
+
+const notFound = <T,>(): RepoResult<T> => ({
+  data: null,
+  error: { code: 'not_found', message: 'Entry not found' },
+});
+
+function createMemoryEntries<T extends { id: string; created_at: string | null; user_id: string }, TNew, TPatch>(
+  userId: string,
+  defaults: (input: TNew) => T,
+  seed: T[]
+): EntryRepository<T, TNew, TPatch> {
+  let rows = [...seed];
+
+  const get = async (id: string): Promise<RepoResult<T>> => {
+    const row = rows.find((r) => r.id === id && r.user_id === userId);
+    return row ? { data: row, error: null } : notFound();
+  };
+
+  return {
+    async list({ cursor, limit = DEFAULT_PAGE_SIZE } = {}) {
+      let mine = rows.filter((r) => r.user_id === userId).sort(compareNewestFirst);
+      if (cursor) {
+        const key = decodeCursor(cursor);
+        mine = mine.filter((r) => compareNewestFirst(key, r) > 0);
+      }
+      const items = mine.slice(0, limit);
+      const nextCursor = mine.length > limit ? encodeCursor(items[items.length - 1]) : null;
+      return { data: { items, nextCursor }, error: null };
+    },
+
+    async count() {
+      return { data: rows.filter((r) => r.user_id === userId).length, error: null };
+    },
+
+    async listRange({ from, to }) {
+      const inRange = rows.filter((r) => {
+        const at = r.created_at ? Date.parse(r.created_at) : NaN;
+        return r.user_id === userId && at >= from.getTime() && at < to.getTime();
+      });
+      return { data: inRange.sort((a, b) => compareNewestFirst(b, a)), error: null };
+    },
+
+    get,
+
+    async create(input) {
+      const row = defaults(input);
+      const existing = rows.find((r) => r.id === row.id);
+      if (existing) return { data: existing, error: null };
+      rows = [...rows, row];
+      return { data: row, error: null };
+    },
+
+    async update(id, patch) {
+      const found = await get(id);
+      if (found.error) return found;
+      const updated = { ...found.data, ...patch };
+      rows = rows.map((r) => (r.id === id ? updated : r));
+      return { data: updated, error: null };
+    },
+
+    async remove(id) {
+      const found = await get(id);
+      if (found.error) return { data: null, error: found.error };
+      rows = rows.filter((r) => r.id !== id);
+      return { data: null, error: null };
+    },
+  };
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Same grouping and totals as the `food_summary` RPC */
+function createMemoryFood(
+  entries: EntryRepository<FoodEntry, NewFoodEntry, FoodEntryPatch>,
+  beverages: BeverageRepository
+): FoodRepository {
+  return {
+    ...entries,
+
+    async summary(range, timeZone) {
+      const [food, drinks] = await Promise.all([entries.listRange(range), beverages.listRange(range)]);
+      if (food.error) return { data: null, error: food.error };
+      if (drinks.error) return { data: null, error: drinks.error };
+
+      // en-CA formats dates as YYYY-MM-DD
+      const format = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+      const days = new Map<string, FoodDaySummary & { ratingSum: number }>();
+      const dayFor = (createdAt: string) => {
+        const day = format.format(new Date(createdAt));
+        const sum = days.get(day) ?? {
+          day, entries: 0, calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0,
+          rated_entries: 0, average_rating: null, meal_counts: {},
+          water_ml: 0, drinks: 0, caffeinated_drinks: 0, alcoholic_drinks: 0, ratingSum: 0,
+        };
+        days.set(day, sum);
+        return sum;
+      };
+
+      for (const entry of food.data) {
+        const sum = dayFor(entry.created_at as string);
+        sum.entries++;
+        sum.calories += entry.calories ?? 0;
+        sum.protein = round1(sum.protein + (entry.protein ?? 0));
+        sum.carbs = round1(sum.carbs + (entry.carbs ?? 0));
+        sum.fat = round1(sum.fat + (entry.fat ?? 0));
+        sum.fiber = round1(sum.fiber + (entry.fiber ?? 0));
+        sum.meal_counts[entry.meal_type] = (sum.meal_counts[entry.meal_type] ?? 0) + 1;
+        if (entry.rating != null) {
+          sum.rated_entries++;
+          sum.ratingSum += entry.rating;
+        }
+      }
+      for (const drink of drinks.data) {
+        const sum = dayFor(drink.created_at);
+        sum.drinks++;
+        if (!drink.alcohol) sum.water_ml += drink.volume_ml;
+        if (drink.caffeine) sum.caffeinated_drinks++;
+        if (drink.alcohol) sum.alcoholic_drinks++;
+      }
+
+      const summaries = [...days.values()]
+        .map(({ ratingSum, ...sum }) => ({
+          ...sum,
+          average_rating: sum.rated_entries > 0 ? Math.round((ratingSum / sum.rated_entries) * 100) / 100 : null,
+        }))
+        .sort((a, b) => a.day.localeCompare(b.day));
+      return { data: summaries, error: null };
+    },
+  };
+}
+
+/** Stored files are just the local URIs they were uploaded from */
+function createMemoryPhotos(userId: string, seed: EntryPhoto[]): PhotoRepository {
+  let photos = [...seed];
+  const files = new Map<string, string>();
+
+  return {
+    async listFor(kind, entryIds) {
+      const matching = photos.filter((p) => p.user_id === userId && p.entry_kind === kind && entryIds.includes(p.entry_id));
+      return { data: matching.sort((a, b) => a.position - b.position), error: null };
+    },
+
+    async upload(path, localUri) {
+      files.set(path, localUri);
+      return { data: null, error: null };
+    },
+
+    async create(input) {
+      const existing = input.id ? photos.find((p) => p.id === input.id) : undefined;
+      if (existing) return { data: existing, error: null };
+      const photo: EntryPhoto = {
+        position: 0,
+        ...input,
+        id: input.id ?? Crypto.randomUUID(),
+        created_at: input.created_at ?? new Date().toISOString(),
+        user_id: userId,
+      };
+      photos = [...photos, photo];
+      return { data: photo, error: null };
+    },
+
+    async remove(photo) {
+      photos = photos.filter((p) => p.id !== photo.id);
+      files.delete(photo.path);
+      files.delete(photo.thumbnail_path);
+      return { data: null, error: null };
+    },
+
+    async signedUrls(paths) {
+      const urls: Record<string, string> = {};
+      for (const path of paths) {
+        const uri = files.get(path);
+        if (uri) urls[path] = uri;
+      }
+      return { data: urls, error: null };
+    },
+  };
+}
+
+/** Avatars are kept as the local URIs they were picked from */
+function createMemoryProfile(userId: string, seed: Profile | null): ProfileRepository {
+  let profile = seed;
+
+  const upsert = async (patch: ProfilePatch): Promise<RepoResult<Profile>> => {
+    const now = new Date().toISOString();
+    profile = {
+      id: userId,
+      display_name: null,
+      calorie_goal: null,
+      protein_goal: null,
+      carbs_goal: null,
+      fat_goal: null,
+      fiber_goal: null,
+      water_goal_ml: null,
+      reminders: null,
+      location_precision: 'exact',
+      avatar_path: null,
+      timezone: null,
+      units: null,
+      week_start: null,
+      created_at: now,
+      ...profile,
+      ...patch,
+      updated_at: now,
+    };
+    return { data: profile, error: null };
+  };
+
+  return {
+    async get() {
+      return { data: profile, error: null };
+    },
+    upsert,
+    async setAvatar(localUri) {
+      return upsert({ avatar_path: localUri });
+    },
+    async avatarUrl(path) {
+      return { data: path, error: null };
+    },
+  };
+}
+
+function createMemoryRecipes(userId: string, seed: RecipeWithIngredients[]): RecipeRepository {
+  let recipes = [...seed];
+
+  const get = async (id: string): Promise<RepoResult<RecipeWithIngredients>> => {
+    const recipe = recipes.find((r) => r.id === id && r.user_id === userId);
+    return recipe ? { data: recipe, error: null } : notFound();
+  };
+
+  return {
+    async list() {
+      const mine = recipes.filter((r) => r.user_id === userId);
+      return { data: mine.sort((a, b) => a.name.localeCompare(b.name)), error: null };
+    },
+
+    get,
+
+    async save({ id, name, servings, ingredients }) {
+      const now = new Date().toISOString();
+      const existing = id ? recipes.find((r) => r.id === id) : undefined;
+      const recipeId = existing?.id ?? id ?? Crypto.randomUUID();
+      const recipe: RecipeWithIngredients = {
+        id: recipeId,
+        user_id: userId,
+        name,
+        servings,
+        created_at: existing?.created_at ?? now,
+        updated_at: now,
+        ingredients: ingredients.map((ingredient, position) => ({
+          ...ingredient,
+          id: Crypto.randomUUID(),
+          recipe_id: recipeId,
+          user_id: userId,
+          position,
+        })),
+      };
+      recipes = [...recipes.filter((r) => r.id !== recipeId), recipe];
+      return { data: recipe, error: null };
+    },
+
+    async remove(id) {
+      const found = await get(id);
+      if (found.error) return { data: null, error: found.error };
+      recipes = recipes.filter((r) => r.id !== id);
+      return { data: null, error: null };
+    },
+  };
+}
+
+function createMemoryMealCategories(userId: string, seed: MealCategory[]): MealCategoryRepository {
+  let categories = [...seed];
+  const mine = () => categories.filter((c) => c.user_id === userId).sort((a, b) => a.position - b.position);
+
+  return {
+    async list() {
+      return { data: mine(), error: null };
+    },
+
+    async replace(input) {
+      const existing = new Map(mine().map((c) => [c.key, c]));
+      const now = new Date().toISOString();
+      categories = [
+        ...categories.filter((c) => c.user_id !== userId),
+        ...input.map((category, position) => ({
+          id: existing.get(category.key)?.id ?? Crypto.randomUUID(),
+          created_at: existing.get(category.key)?.created_at ?? now,
+          user_id: userId,
+          position,
+          ...category,
+        })),
+      ];
+      return { data: mine(), error: null };
+    },
+  };
+}
+
+function createMemoryPlaces(userId: string, seed: Place[]): PlaceRepository {
+  let places = [...seed];
+
+  const get = (id: string) => places.find((p) => p.id === id && p.user_id === userId);
+  const nameTaken = (name: string, exceptId?: string) =>
+    places.some((p) => p.user_id === userId && p.name === name && p.id !== exceptId);
+  const conflict = <T,>(): RepoResult<T> => ({
+    data: null,
+    error: { code: 'conflict', message: 'You already have a place with that name' },
+  });
+
+  return {
+    async list() {
+      const mine = places.filter((p) => p.user_id === userId);
+      return { data: mine.sort((a, b) => a.name.localeCompare(b.name)), error: null };
+    },
+
+    async create(input) {
+      if (nameTaken(input.name)) return conflict();
+      const place: Place = { id: Crypto.randomUUID(), user_id: userId, created_at: new Date().toISOString(), ...input };
+      places = [...places, place];
+      return { data: place, error: null };
+    },
+
+    async update(id, patch) {
+      const existing = get(id);
+      if (!existing) return notFound();
+      if (patch.name != null && nameTaken(patch.name, id)) return conflict();
+      const place = { ...existing, ...patch };
+      places = places.map((p) => (p.id === id ? place : p));
+      return { data: place, error: null };
+    },
+
+    async remove(id) {
+      if (!get(id)) return notFound();
+      places = places.filter((p) => p.id !== id);
+      return { data: null, error: null };
+    },
+  };
+}
+
+/** Same numbers as the `user_stats` RPC; the profile's creation stands in for sign-up */
+function createMemoryStats(moods: MoodRepository, food: FoodRepository, profile: ProfileRepository): StatsRepository {
+  return {
+    async get(timeZone) {
+      const range = { from: new Date(0), to: new Date(Date.now() + 1) };
+      const [moodList, foodList, current] = await Promise.all([moods.listRange(range), food.listRange(range), profile.get()]);
+      if (moodList.error) return { data: null, error: moodList.error };
+      if (foodList.error) return { data: null, error: foodList.error };
+      return {
+        data: computeStats({
+          moods: moodList.data,
+          food: foodList.data,
+          joinedAt: current.data?.created_at ?? null,
+          timeZone,
+        }),
+        error: null,
+      };
+    },
+  };
+}
+
+export type MemorySeed = {
+  moods?: Mood[];
+  food?: FoodEntry[];
+  beverages?: Beverage[];
+  photos?: EntryPhoto[];
+  profile?: Profile | null;
+  recipes?: RecipeWithIngredients[];
+  mealCategories?: MealCategory[];
+  places?: Place[];
+};
+
+/**
+ * Backend-free repository for tests and previews. Everything lives in memory
+ * for the lifetime of the returned object and is scoped to `userId`.
+ */
+export function createMemoryRepository(userId = 'local-user', seed: MemorySeed = {}): Repository {
+  const base = (input: { id?: string; created_at?: string | null }) => ({
+    id: input.id ?? Crypto.randomUUID(),
+    created_at: input.created_at ?? new Date().toISOString(),
+    user_id: userId,
+  });
+
+  const beverages = createMemoryEntries<Beverage, NewBeverage, BeveragePatch>(
+    userId,
+    (input) => ({
+      drink: 'Water',
+      caffeine: false,
+      alcohol: false,
+      ...input,
+      ...base(input),
+    }),
+    seed.beverages ?? []
+  );
+
+  const moods = createMemoryEntries<Mood, NewMood, MoodPatch>(
+    userId,
+    (input) => ({
+      anxiety: null,
+      daylight_hours: null,
+      energy: null,
+      humidity: null,
+      lat: null,
+      lng: null,
+      location_label: null,
+      mood: null,
+      place_id: null,
+      pressure: null,
+      sleep_hours: null,
+      sleep_quality: null,
+      tags: [],
+      temperature: null,
+      weather: null,
+      weather_code: null,
+      weather_observed_at: null,
+      ...input,
+      ...base(input),
+    }),
+    seed.moods ?? []
+  );
+
+  const food = createMemoryFood(createMemoryEntries<FoodEntry, NewFoodEntry, FoodEntryPatch>(
+    userId,
+    (input) => ({
+      calories: null,
+      meal_type: 'breakfast',
+      protein: null,
+      carbs: null,
+      fat: null,
+      fiber: null,
+      notes: null,
+      rating: null,
+      ...input,
+      ...base(input),
+    }),
+    seed.food ?? []
+  ), beverages);
+
+  const profile = createMemoryProfile(userId, seed.profile ?? null);
+
+  return {
+    moods,
+    food,
+    beverages,
+    photos: createMemoryPhotos(userId, seed.photos ?? []),
+    profile,
+    recipes: createMemoryRecipes(userId, seed.recipes ?? []),
+    mealCategories: createMemoryMealCategories(userId, seed.mealCategories ?? []),
+    places: createMemoryPlaces(userId, seed.places ?? []),
+    stats: createMemoryStats(moods, food, profile),
+  };
+}
@@ -0,0 +1,596 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import * as Crypto from 'expo-crypto';
+import type { Database } from '../database.types';
+import { decodeCursor, encodeCursor } from './cursor';
+import {
+  Beverage,
+  BeveragePatch,
+  DEFAULT_PAGE_SIZE,
+  EntryRepository,
+  FoodEntry,
+  FoodEntryPatch,
+  FoodRepository,
+  MealCategory,
+  MealCategoryRepository,
+  Mood,
+  MoodPatch,
+  NewBeverage,
+  NewFoodEntry,
+  NewMood,
+  PhotoRepository,
+  Place,
+  PlaceRepository,
+  Profile,
+  ProfilePatch,
+  ProfileRepository,
+  RecipeIngredient,
+  RecipeRepository,
+  RecipeWithIngredients,
+  RepoError,
+  RepoErrorCode,
+  RepoResult,
+  Repository,
+  StatsRepository,
+  UserStats,
+} from './types';
+
+type Client = SupabaseClient<Database>;
+type EntryTable = 'data' | 'food_entries' | 'beverage_entries';
+
+export function toRepoError(err: PostgrestError | Error | { message: string; code?: string }): RepoError {
+  const code = 'code' in err ? err.code : undefined;
+  const message = err.message || 'Unexpected error';
+
+  if (code === 'PGRST116') return { code: 'not_found', message: 'Entry not found' };
+  if (code === 'PGRST301' || code === '401') return { code: 'unauthenticated', message };
+  if (code === '42501') return { code: 'forbidden', message };
+  if (code === '23505') return { code: 'conflict', message };
+  if (code?.startsWith('22') || code?.startsWith('23')) return { code: 'invalid', message };
+  if (/network request failed|failed to fetch|network error/i.test(message)) {
+    return { code: 'network', message: 'No connection. Please try again.' };
+  }
+  return { code: 'unknown', message };
+}
+
+function fail<T>(err: Parameters<typeof toRepoError>[0]): RepoResult<T> {
+  return { data: null, error: toRepoError(err) };
+}
+
+/** Storage reports HTTP statuses rather than Postgres codes; a row level security denial is a 403 */
+function storageFail<T>(err: Error & { status?: number; statusCode?: string }): RepoResult<T> {
+  const status = Number(err.statusCode ?? err.status);
+  const code: RepoErrorCode | null =
+    status === 401 ? 'unauthenticated'
+    : status === 403 ? 'forbidden'
+    : status === 404 ? 'not_found'
+    : status === 409 ? 'conflict'
+    : status === 429 ? 'rate_limited'
+    : status >= 400 && status < 500 ? 'invalid'
+    : null;
+  return code ? { data: null, error: { code, message: err.message } } : fail(err);
+}
+
+async function currentUserId(client: Client) {
+  const { data } = await client.auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
+/** Rows requested per page by `listRange`; the server may return fewer */
+const RANGE_PAGE_SIZE = 1000;
+
+const NOT_SIGNED_IN: RepoError = { code: 'unauthenticated', message: 'User not authenticated' };
+
+/**
+ * Shared CRUD for the per-user entry tables. Queries are built untyped here
+ * and the public signatures carry the generated row types.
+ */
+function createEntryRepository<T extends { id: string; created_at: string | null }, TNew, TPatch>(
+  client: Client,
+  table: EntryTable
+): EntryRepository<T, TNew, TPatch> {
+  const from = () => (client as unknown as SupabaseClient).from(table);
+
+  return {
+    async list({ cursor, limit = DEFAULT_PAGE_SIZE } = {}) {
+      try {
+        const userId = await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        let query = from()
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          // One extra row tells us whether another page exists
+          .limit(limit + 1);
+
+        if (cursor) {
+          const key = decodeCursor(cursor);
+          query = key.created_at
+            ? query.or(`created_at.lt."${key.created_at}",and(created_at.eq."${key.created_at}",id.lt.${key.id})`)
+            : query.lt('id', key.id);
+        }
+
+        const { data, error } = await query.returns<T[]>();
+        if (error) return fail(error);
+
+        const items = data.slice(0, limit);
+        const nextCursor = data.length > limit ? encodeCursor(items[items.length - 1]) : null;
+        return { data: { items, nextCursor }, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async count() {
+      try {
+        const userId = await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        const { count, error } = await from()
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId);
+        return error ? fail(error) : { data: count ?? 0, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async listRange({ from: start, to: end }) {
+      try {
+        const userId = await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        // PostgREST silently caps every response at the project's max_rows, so
+        // page until a request comes back empty rather than trusting one page
+        const rows: T[] = [];
+        for (;;) {
+          const { data, error } = await from()
+            .select('*')
+            .eq('user_id', userId)
+            .gte('created_at', start.toISOString())
+            .lt('created_at', end.toISOString())
+            .order('created_at', { ascending: true })
+            .order('id', { ascending: true })
+            .range(rows.length, rows.length + RANGE_PAGE_SIZE - 1)
+            .returns<T[]>();
+          if (error) return fail(error);
+          if (data.length === 0) return { data: rows, error: null };
+          rows.push(...data);
+        }
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async get(id) {
+      try {
+        const { data, error } = await from().select('*').eq('id', id).single<T>();
+        return error ? fail(error) : { data, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async create(input) {
+      try {
+        const userId = (input as { user_id?: string }).user_id ?? await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        const row = { ...input, user_id: userId };
+        const { id } = row as { id?: string };
+        const { data, error } = id
+          ? await from().upsert(row, { onConflict: 'id', ignoreDuplicates: true }).select('*').maybeSingle<T>()
+          : await from().insert(row).select('*').single<T>();
+        if (error) return fail(error);
+        // An ignored duplicate returns no row; the existing one is what the caller wants
+        if (!data && id) return this.get(id);
+        return { data: data as T, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async update(id, patch) {
+      try {
+        const { data, error } = await from().update(patch).eq('id', id).select('*').single<T>();
+        return error ? fail(error) : { data, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async remove(id) {
+      try {
+        const { error } = await from().delete().eq('id', id);
+        return error ? fail(error) : { data: null, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+  };
+}
+
+function createFoodRepository(client: Client): FoodRepository {
+  return {
+    ...createEntryRepository<FoodEntry, NewFoodEntry, FoodEntryPatch>(client, 'food_entries'),
+
+    async summary({ from: start, to: end }, timeZone) {
+      try {
+        const { data, error } = await client.rpc('food_summary', {
+          range_start: start.toISOString(),
+          range_end: end.toISOString(),
+          tz: timeZone,
+        });
+        if (error) return fail(error);
+        return {
+          data: data.map((row) => ({ ...row, meal_counts: row.meal_counts as Record<string, number> })),
+          error: null,
+        };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+  };
+}
+
+const PHOTO_BUCKET = 'entry-photos';
+const SIGNED_URL_SECONDS = 60 * 60;
+
+function createPhotoRepository(client: Client): PhotoRepository {
+  const bucket = () => client.storage.from(PHOTO_BUCKET);
+
+  return {
+    async listFor(kind, entryIds) {
+      try {
+        if (entryIds.length === 0) return { data: [], error: null };
+        const { data, error } = await client
+          .from('entry_photos')
+          .select('*')
+          .eq('entry_kind', kind)
+          .in('entry_id', entryIds)
+          .order('position', { ascending: true });
+        return error ? fail(error) : { data, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async upload(path, localUri) {
+      try {
+        const body = await (await fetch(localUri)).arrayBuffer();
+        const { error } = await bucket().upload(path, body, { contentType: 'image/jpeg', upsert: true });
+        return error ? storageFail(error) : { data: null, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async create(input) {
+      try {
+        const userId = input.user_id ?? await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        const row = { ...input, user_id: userId };
+        const { data, error } = row.id
+          ? await client.from('entry_photos').upsert(row, { onConflict: 'id', ignoreDuplicates: true }).select('*').maybeSingle()
+          : await client.from('entry_photos').insert(row).select('*').single();
+        if (error) return fail(error);
+        if (data) return { data, error: null };
+
+        // An ignored duplicate returns no row; the existing one is what the caller wants
+        const existing = await client.from('entry_photos').select('*').eq('id', row.id as string).single();
+        return existing.error ? fail(existing.error) : { data: existing.data, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async remove(photo) {
+      try {
+        const { error } = await client.from('entry_photos').delete().eq('id', photo.id);
+        if (error) return fail(error);
+        // A leftover file is harmless once the row is gone, so this isn't checked
+        await bucket().remove([photo.path, photo.thumbnail_path]);
+        return { data: null, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async signedUrls(paths) {
+      try {
+        if (paths.length === 0) return { data: {}, error: null };
+        const { data, error } = await bucket().createSignedUrls(paths, SIGNED_URL_SECONDS);
+        if (error) return fail(error);
+        const urls: Record<string, string> = {};
+        for (const item of data) {
+          if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+        }
+        return { data: urls, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+  };
+}
+
+const AVATAR_BUCKET = 'avatars';
+
+function createProfileRepository(client: Client): ProfileRepository {
+  const avatars = () => client.storage.from(AVATAR_BUCKET);
+
+  const upsert = async (patch: ProfilePatch): Promise<RepoResult<Profile>> => {
+    try {
+      const userId = await currentUserId(client);
+      if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+      const { data, error } = await client
+        .from('profiles')
+        .upsert({ ...patch, id: userId, updated_at: new Date().toISOString() })
+        .select('*')
+        .single();
+      return error ? fail(error) : { data: data as Profile, error: null };
+    } catch (err) {
+      return fail(err as Error);
+    }
+  };
+
+  return {
+    async get() {
+      try {
+        const userId = await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        const { data, error } = await client.from('profiles').select('*').eq('id', userId).maybeSingle();
+        return error ? fail(error) : { data: data as Profile | null, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    upsert,
+
+    async setAvatar(localUri) {
+      try {
+        const userId = await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        const { data: current, error: getErr } = await client
+          .from('profiles')
+          .select('avatar_path')
+          .eq('id', userId)
+          .maybeSingle();
+        if (getErr) return fail(getErr);
+
+        // A fresh path per upload, so cached signed URLs never show the old picture
+        let path: string | null = null;
+        if (localUri) {
+          path = `${userId}/${Crypto.randomUUID()}.jpg`;
+          const body = await (await fetch(localUri)).arrayBuffer();
+          const { error } = await avatars().upload(path, body, { contentType: 'image/jpeg' });
+          if (error) return storageFail(error);
+        }
+
+        const result = await upsert({ avatar_path: path });
+        // A leftover file is harmless, so this isn't checked
+        if (!result.error && current?.avatar_path) await avatars().remove([current.avatar_path]);
+        return result;
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async avatarUrl(path) {
+      try {
+        const { data, error } = await avatars().createSignedUrl(path, SIGNED_URL_SECONDS);
+        return error ? fail(error) : { data: data.signedUrl, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+  };
+}
+
+type RecipeRow = Omit<RecipeWithIngredients, 'ingredients'> & { recipe_ingredients: RecipeIngredient[] };
+
+const toRecipe = ({ recipe_ingredients, ...recipe }: RecipeRow): RecipeWithIngredients => ({
+  ...recipe,
+  ingredients: [...recipe_ingredients].sort((a, b) => a.position - b.position),
+});
+
+function createRecipeRepository(client: Client): RecipeRepository {
+  const get = async (id: string): Promise<RepoResult<RecipeWithIngredients>> => {
+    try {
+      const { data, error } = await client
+        .from('recipes')
+        .select('*, recipe_ingredients(*)')
+        .eq('id', id)
+        .single();
+      return error ? fail(error) : { data: toRecipe(data), error: null };
+    } catch (err) {
+      return fail(err as Error);
+    }
+  };
+
+  return {
+    async list() {
+      try {
+        const userId = await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        const { data, error } = await client
+          .from('recipes')
+          .select('*, recipe_ingredients(*)')
+          .eq('user_id', userId)
+          .order('name', { ascending: true });
+        return error ? fail(error) : { data: data.map(toRecipe), error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    get,
+
+    async save({ id, name, servings, ingredients }) {
+      try {
+        const userId = await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        // One transaction, so the ingredient list is never left half replaced
+        const { data: recipeId, error } = await client.rpc('save_recipe', {
+          name,
+          servings,
+          ingredients,
+          ...(id ? { recipe_id: id } : {}),
+        });
+        if (error) return fail(error);
+        return get(recipeId);
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async remove(id) {
+      try {
+        const { error } = await client.from('recipes').delete().eq('id', id);
+        return error ? fail(error) : { data: null, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+  };
+}
+
+function createMealCategoryRepository(client: Client): MealCategoryRepository {
+  const list = async (userId: string): Promise<RepoResult<MealCategory[]>> => {
+    const { data, error } = await client
+      .from('meal_categories')
+      .select('*')
+      .eq('user_id', userId)
+      .order('position', { ascending: true });
+    return error ? fail(error) : { data, error: null };
+  };
+
+  return {
+    async list() {
+      try {
+        const userId = await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+        return await list(userId);
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async replace(categories) {
+      try {
+        const userId = await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        if (categories.length > 0) {
+          const { error } = await client
+            .from('meal_categories')
+            .upsert(
+              categories.map((category, position) => ({ ...category, position, user_id: userId })),
+              { onConflict: 'user_id,key' }
+            );
+          if (error) return fail(error);
+        }
+
+        // Anything not in the new list was removed by the user
+        let stale = client.from('meal_categories').delete().eq('user_id', userId);
+        if (categories.length > 0) {
+          stale = stale.not('key', 'in', `(${categories.map((c) => `"${c.key}"`).join(',')})`);
+        }
+        const { error: deleteErr } = await stale;
+        if (deleteErr) return fail(deleteErr);
+
+        return await list(userId);
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+  };
+}
+
+function createPlaceRepository(client: Client): PlaceRepository {
+  return {
+    async list() {
+      try {
+        const userId = await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        const { data, error } = await client
+          .from('places')
+          .select('*')
+          .eq('user_id', userId)
+          .order('name', { ascending: true });
+        return error ? fail(error) : { data, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async create(input) {
+      try {
+        const userId = await currentUserId(client);
+        if (!userId) return { data: null, error: NOT_SIGNED_IN };
+
+        const { data, error } = await client
+          .from('places')
+          .insert({ ...input, user_id: userId })
+          .select('*')
+          .single();
+        return error ? fail(error) : { data: data as Place, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async update(id, patch) {
+      try {
+        const { data, error } = await client.from('places').update(patch).eq('id', id).select('*').single();
+        return error ? fail(error) : { data: data as Place, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+
+    async remove(id) {
+      try {
+        const { error } = await client.from('places').delete().eq('id', id);
+        return error ? fail(error) : { data: null, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+  };
+}
+
+function createStatsRepository(client: Client): StatsRepository {
+  return {
+    async get(timeZone) {
+      try {
+        const { data, error } = await client.rpc('user_stats', { tz: timeZone }).single();
+        return error ? fail(error) : { data: data as UserStats, error: null };
+      } catch (err) {
+        return fail(err as Error);
+      }
+    },
+  };
+}
+
+export function createSupabaseRepository(client: Client): Repository {
+  return {
+    moods: createEntryRepository<Mood, NewMood, MoodPatch>(client, 'data'),
+    food: createFoodRepository(client),
+    beverages: createEntryRepository<Beverage, NewBeverage, BeveragePatch>(client, 'beverage_entries'),
+    photos: createPhotoRepository(client),
+    profile: createProfileRepository(client),
+    recipes: createRecipeRepository(client),
+    mealCategories: createMealCategoryRepository(client),
+    places: createPlaceRepository(client),
+    stats: createStatsRepository(client),
+  };
+}
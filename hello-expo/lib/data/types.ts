@@ -0,0 +1,208 @@
+import type { Tables, TablesInsert, TablesUpdate } from '../database.types';
+
+/** Key of one of the user's meal categories, e.g. 'breakfast' or 'pre-workout' */
+export type MealType = string;
+
+export type Mood = Tables<'data'>;
+export type NewMood = Omit<TablesInsert<'data'>, 'user_id'> & { user_id?: string };
+export type MoodPatch = Omit<TablesUpdate<'data'>, 'id' | 'user_id'>;
+
+export type FoodEntry = Tables<'food_entries'>;
+export type NewFoodEntry = Omit<TablesInsert<'food_entries'>, 'user_id'> & { user_id?: string };
+export type FoodEntryPatch = Omit<TablesUpdate<'food_entries'>, 'id' | 'user_id'>;
+
+export type Beverage = Tables<'beverage_entries'>;
+export type NewBeverage = Omit<TablesInsert<'beverage_entries'>, 'user_id'> & { user_id?: string };
+export type BeveragePatch = Omit<TablesUpdate<'beverage_entries'>, 'id' | 'user_id'>;
+
+export type EntryPhoto = Tables<'entry_photos'>;
+export type NewEntryPhoto = Omit<TablesInsert<'entry_photos'>, 'user_id'> & { user_id?: string };
+/** Which entry table a photo belongs to */
+export type PhotoEntryKind = 'food' | 'mood';
+
+export type MealCategory = Tables<'meal_categories'>;
+/** A category as edited in the app; ownership and order are assigned on save */
+export type MealCategoryInput = Pick<MealCategory, 'key' | 'label' | 'emoji' | 'start_minute' | 'end_minute'>;
+
+export type Place = Tables<'places'>;
+/** A place as edited in the app; ownership is assigned on save */
+export type PlaceInput = Pick<Place, 'name' | 'lat' | 'lng' | 'radius_m'>;
+
+export type Profile = Tables<'profiles'>;
+export type ProfilePatch = Omit<TablesUpdate<'profiles'>, 'id' | 'created_at' | 'updated_at'>;
+
+export type Recipe = Tables<'recipes'>;
+export type RecipeIngredient = Tables<'recipe_ingredients'>;
+export type RecipeWithIngredients = Recipe & { ingredients: RecipeIngredient[] };
+/** Ingredient as edited in the app; ids, ownership and order are assigned on save */
+export type RecipeIngredientInput = Omit<RecipeIngredient, 'id' | 'recipe_id' | 'user_id' | 'position'>;
+export type RecipeInput = {
+  /** Omit to create a new recipe */
+  id?: string;
+  name: string;
+  servings: number;
+  ingredients: RecipeIngredientInput[];
+};
+
+export type RepoErrorCode =
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'invalid'
+  | 'network'
+  | 'rate_limited'
+  | 'unknown';
+
+/** The one error shape every repository method reports. */
+export type RepoError = {
+  code: RepoErrorCode;
+  message: string;
+};
+
+export type RepoResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: RepoError };
+
+export type ListOptions = {
+  /** Opaque keyset cursor returned by the previous page */
+  cursor?: string | null;
+  limit?: number;
+};
+
+export type DateRange = {
+  from: Date;
+  /** Exclusive */
+  to: Date;
+};
+
+export type Page<T> = {
+  items: T[];
+  /** Pass back to `list` for the next (older) page; null when there is none */
+  nextCursor: string | null;
+};
+
+export interface EntryRepository<T, TNew, TPatch> {
+  list(options?: ListOptions): Promise<RepoResult<Page<T>>>;
+  /** Exact number of rows the user has, counted server-side */
+  count(): Promise<RepoResult<number>>;
+  /** Every row created within `range`, oldest first. Meant for analysis, not lists. */
+  listRange(range: DateRange): Promise<RepoResult<T[]>>;
+  get(id: string): Promise<RepoResult<T>>;
+  /** Idempotent when `id` is supplied: creating the same id twice keeps the first row */
+  create(input: TNew): Promise<RepoResult<T>>;
+  update(id: string, patch: TPatch): Promise<RepoResult<T>>;
+  remove(id: string): Promise<RepoResult<null>>;
+}
+
+export type MoodRepository = EntryRepository<Mood, NewMood, MoodPatch>;
+
+/** Food totals for one calendar day, as computed by the `food_summary` RPC */
+export type FoodDaySummary = {
+  /** Local calendar date, YYYY-MM-DD */
+  day: string;
+  entries: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  rated_entries: number;
+  average_rating: number | null;
+  meal_counts: Record<string, number>;
+  /** Millilitres of non-alcoholic drinks */
+  water_ml: number;
+  drinks: number;
+  caffeinated_drinks: number;
+  alcoholic_drinks: number;
+};
+
+/** Lifetime statistics for the signed-in user, as computed by the `user_stats` RPC */
+export type UserStats = {
+  mood_entries: number;
+  meals_logged: number;
+  /** Consecutive days with a mood or food entry, through today or yesterday */
+  current_streak: number;
+  longest_streak: number;
+  /** Null without a scored mood in the last 30 days */
+  average_mood_30d: number | null;
+  /** Most-logged food in its most common spelling, null before the first meal */
+  top_food: string | null;
+  top_food_count: number;
+  joined_at: string | null;
+  days_since_joining: number | null;
+};
+
+export interface FoodRepository extends EntryRepository<FoodEntry, NewFoodEntry, FoodEntryPatch> {
+  /** Per-day totals within `range`, oldest first, grouped by days in `timeZone` */
+  summary(range: DateRange, timeZone: string): Promise<RepoResult<FoodDaySummary[]>>;
+}
+
+export type BeverageRepository = EntryRepository<Beverage, NewBeverage, BeveragePatch>;
+
+export interface PhotoRepository {
+  /** Photos attached to any of `entryIds`, in attachment order */
+  listFor(kind: PhotoEntryKind, entryIds: string[]): Promise<RepoResult<EntryPhoto[]>>;
+  /** Uploads a local image file to `path` in the photo bucket, replacing any existing object */
+  upload(path: string, localUri: string): Promise<RepoResult<null>>;
+  /** Idempotent when `id` is supplied: recording the same photo twice keeps the first row */
+  create(input: NewEntryPhoto): Promise<RepoResult<EntryPhoto>>;
+  /** Deletes the row and both stored files */
+  remove(photo: EntryPhoto): Promise<RepoResult<null>>;
+  /** Short-lived URLs for displaying stored files, keyed by path */
+  signedUrls(paths: string[]): Promise<RepoResult<Record<string, string>>>;
+}
+
+export interface ProfileRepository {
+  /** The signed-in user's profile, or null if it hasn't been created yet */
+  get(): Promise<RepoResult<Profile | null>>;
+  upsert(patch: ProfilePatch): Promise<RepoResult<Profile>>;
+  /** Uploads a local image as the avatar and deletes the previous one; null just removes it */
+  setAvatar(localUri: string | null): Promise<RepoResult<Profile>>;
+  /** Short-lived URL for displaying a stored avatar */
+  avatarUrl(path: string): Promise<RepoResult<string>>;
+}
+
+export interface RecipeRepository {
+  /** All of the user's recipes with their ingredients, by name */
+  list(): Promise<RepoResult<RecipeWithIngredients[]>>;
+  get(id: string): Promise<RepoResult<RecipeWithIngredients>>;
+  /** Creates or replaces a recipe together with its whole ingredient list */
+  save(input: RecipeInput): Promise<RepoResult<RecipeWithIngredients>>;
+  remove(id: string): Promise<RepoResult<null>>;
+}
+
+export interface MealCategoryRepository {
+  /** The user's categories in display order; empty until they customise them */
+  list(): Promise<RepoResult<MealCategory[]>>;
+  /** Replaces the whole list, keeping the given order */
+  replace(categories: MealCategoryInput[]): Promise<RepoResult<MealCategory[]>>;
+}
+
+export interface PlaceRepository {
+  /** The user's saved places, by name */
+  list(): Promise<RepoResult<Place[]>>;
+  create(input: PlaceInput): Promise<RepoResult<Place>>;
+  update(id: string, patch: Partial<PlaceInput>): Promise<RepoResult<Place>>;
+  /** Entries tagged with the place keep its name but lose the link */
+  remove(id: string): Promise<RepoResult<null>>;
+}
+
+export interface StatsRepository {
+  /** Statistics with calendar days counted in `timeZone` */
+  get(timeZone: string): Promise<RepoResult<UserStats>>;
+}
+
+export type Repository = {
+  moods: MoodRepository;
+  food: FoodRepository;
+  beverages: BeverageRepository;
+  photos: PhotoRepository;
+  profile: ProfileRepository;
+  recipes: RecipeRepository;
+  mealCategories: MealCategoryRepository;
+  places: PlaceRepository;
+  stats: StatsRepository;
+};
+
+export const DEFAULT_PAGE_SIZE = 50;
@@ -0,0 +1,520 @@
+// Generated by `npm run gen:types` (supabase gen types typescript). Do not edit by hand.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.3 (519615d)"
+  }
+  public: {
+    Tables: {
+      beverage_entries: {
+        Row: {
+          alcohol: boolean
+          caffeine: boolean
+          created_at: string
+          drink: string
+          id: string
+          user_id: string
+          volume_ml: number
+        }
+        Insert: {
+          alcohol?: boolean
+          caffeine?: boolean
+          created_at?: string
+          drink?: string
+          id?: string
+          user_id: string
+          volume_ml: number
+        }
+        Update: {
+          alcohol?: boolean
+          caffeine?: boolean
+          created_at?: string
+          drink?: string
+          id?: string
+          user_id?: string
+          volume_ml?: number
+        }
+        Relationships: []
+      }
+      data: {
+        Row: {
+          anxiety: number | null
+          created_at: string | null
+          daylight_hours: number | null
+          energy: number | null
+          humidity: number | null
+          id: string
+          lat: number | null
+          lng: number | null
+          location_label: string | null
+          mood: number | null
+          place_id: string | null
+          pressure: number | null
+          sleep_hours: number | null
+          sleep_quality: number | null
+          tags: string[]
+          temperature: number | null
+          text: string
+          user_id: string
+          weather: string | null
+          weather_code: number | null
+          weather_observed_at: string | null
+        }
+        Insert: {
+          anxiety?: number | null
+          created_at?: string | null
+          daylight_hours?: number | null
+          energy?: number | null
+          humidity?: number | null
+          id?: string
+          lat?: number | null
+          lng?: number | null
+          location_label?: string | null
+          mood?: number | null
+          place_id?: string | null
+          pressure?: number | null
+          sleep_hours?: number | null
+          sleep_quality?: number | null
+          tags?: string[]
+          temperature?: number | null
+          text: string
+          user_id: string
+          weather?: string | null
+          weather_code?: number | null
+          weather_observed_at?: string | null
+        }
+        Update: {
+          anxiety?: number | null
+          created_at?: string | null
+          daylight_hours?: number | null
+          energy?: number | null
+          humidity?: number | null
+          id?: string
+          lat?: number | null
+          lng?: number | null
+          location_label?: string | null
+          mood?: number | null
+          place_id?: string | null
+          pressure?: number | null
+          sleep_hours?: number | null
+          sleep_quality?: number | null
+          tags?: string[]
+          temperature?: number | null
+          text?: string
+          user_id?: string
+          weather?: string | null
+          weather_code?: number | null
+          weather_observed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      entry_photos: {
+        Row: {
+          created_at: string
+          entry_id: string
+          entry_kind: string
+          height: number
+          id: string
+          path: string
+          position: number
+          thumbnail_path: string
+          user_id: string
+          width: number
+        }
+        Insert: {
+          created_at?: string
+          entry_id: string
+          entry_kind: string
+          height: number
+          id?: string
+          path: string
+          position?: number
+          thumbnail_path: string
+          user_id: string
+          width: number
+        }
+        Update: {
+          created_at?: string
+          entry_id?: string
+          entry_kind?: string
+          height?: number
+          id?: string
+          path?: string
+          position?: number
+          thumbnail_path?: string
+          user_id?: string
+          width?: number
+        }
+        Relationships: []
+      }
+      food_entries: {
+        Row: {
+          calories: number | null
+          carbs: number | null
+          created_at: string | null
+          fat: number | null
+          fiber: number | null
+          food_name: string
+          id: string
+          meal_type: string
+          notes: string | null
+          protein: number | null
+          rating: number | null
+          user_id: string
+        }
+        Insert: {
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string | null
+          fat?: number | null
+          fiber?: number | null
+          food_name: string
+          id?: string
+          meal_type?: string
+          notes?: string | null
+          protein?: number | null
+          rating?: number | null
+          user_id: string
+        }
+        Update: {
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string | null
+          fat?: number | null
+          fiber?: number | null
+          food_name?: string
+          id?: string
+          meal_type?: string
+          notes?: string | null
+          protein?: number | null
+          rating?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      function_rate_limit_settings: {
+        Row: {
+          function_name: string
+          max_calls: number
+          window_seconds: number
+        }
+        Insert: {
+          function_name: string
+          max_calls: number
+          window_seconds: number
+        }
+        Update: {
+          function_name?: string
+          max_calls?: number
+          window_seconds?: number
+        }
+        Relationships: []
+      }
+      function_rate_limits: {
+        Row: {
+          calls: number
+          function_name: string
+          user_id: string
+          window_start: string
+        }
+        Insert: {
+          calls?: number
+          function_name: string
+          user_id: string
+          window_start?: string
+        }
+        Update: {
+          calls?: number
+          function_name?: string
+          user_id?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      meal_categories: {
+        Row: {
+          created_at: string
+          emoji: string
+          end_minute: number | null
+          id: string
+          key: string
+          label: string
+          position: number
+          start_minute: number | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji?: string
+          end_minute?: number | null
+          id?: string
+          key: string
+          label: string
+          position?: number
+          start_minute?: number | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          end_minute?: number | null
+          id?: string
+          key?: string
+          label?: string
+          position?: number
+          start_minute?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      places: {
+        Row: {
+          created_at: string
+          id: string
+          lat: number
+          lng: number
+          name: string
+          radius_m: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          lat: number
+          lng: number
+          name: string
+          radius_m?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          lat?: number
+          lng?: number
+          name?: string
+          radius_m?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_path: string | null
+          calorie_goal: number | null
+          carbs_goal: number | null
+          created_at: string
+          display_name: string | null
+          fat_goal: number | null
+          fiber_goal: number | null
+          id: string
+          location_precision: string
+          protein_goal: number | null
+          reminders: Json | null
+          timezone: string | null
+          units: string | null
+          updated_at: string
+          water_goal_ml: number | null
+          week_start: number | null
+        }
+        Insert: {
+          avatar_path?: string | null
+          calorie_goal?: number | null
+          carbs_goal?: number | null
+          created_at?: string
+          display_name?: string | null
+          fat_goal?: number | null
+          fiber_goal?: number | null
+          id: string
+          location_precision?: string
+          protein_goal?: number | null
+          reminders?: Json | null
+          timezone?: string | null
+          units?: string | null
+          updated_at?: string
+          water_goal_ml?: number | null
+          week_start?: number | null
+        }
+        Update: {
+          avatar_path?: string | null
+          calorie_goal?: number | null
+          carbs_goal?: number | null
+          created_at?: string
+          display_name?: string | null
+          fat_goal?: number | null
+          fiber_goal?: number | null
+          id?: string
+          location_precision?: string
+          protein_goal?: number | null
+          reminders?: Json | null
+          timezone?: string | null
+          units?: string | null
+          updated_at?: string
+          water_goal_ml?: number | null
+          week_start?: number | null
+        }
+        Relationships: []
+      }
+      recipe_ingredients: {
+        Row: {
+          calories: number
+          carbs: number
+          fat: number
+          fiber: number
+          food_name: string
+          id: string
+          position: number
+          protein: number
+          quantity: number
+          recipe_id: string
+          serving_label: string
+          user_id: string
+        }
+        Insert: {
+          calories?: number
+          carbs?: number
+          fat?: number
+          fiber?: number
+          food_name: string
+          id?: string
+          position?: number
+          protein?: number
+          quantity?: number
+          recipe_id: string
+          serving_label: string
+          user_id: string
+        }
+        Update: {
+          calories?: number
+          carbs?: number
+          fat?: number
+          fiber?: number
+          food_name?: string
+          id?: string
+          position?: number
+          protein?: number
+          quantity?: number
+          recipe_id?: string
+          serving_label?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_ingredients_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipes: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          servings: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          servings?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          servings?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      consume_rate_limit: {
+        Args: { caller: string; fn: string }
+        Returns: boolean
+      }
+      food_summary: {
+        Args: { range_end: string; range_start: string; tz?: string }
+        Returns: {
+          alcoholic_drinks: number
+          average_rating: number
+          caffeinated_drinks: number
+          calories: number
+          carbs: number
+          day: string
+          drinks: number
+          entries: number
+          fat: number
+          fiber: number
+          meal_counts: Json
+          protein: number
+          rated_entries: number
+          water_ml: number
+        }[]
+      }
+      save_recipe: {
+        Args: { ingredients: Json; name: string; recipe_id?: string; servings: number }
+        Returns: string
+      }
+      user_stats: {
+        Args: { tz?: string }
+        Returns: {
+          average_mood_30d: number
+          current_streak: number
+          days_since_joining: number
+          joined_at: string
+          longest_streak: number
+          meals_logged: number
+          mood_entries: number
+          top_food: string
+          top_food_count: number
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DefaultSchema = Database["public"]
+
+export type Tables<T extends keyof DefaultSchema["Tables"]> =
+  DefaultSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends keyof DefaultSchema["Tables"]> =
+  DefaultSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof DefaultSchema["Tables"]> =
+  DefaultSchema["Tables"][T]["Update"]
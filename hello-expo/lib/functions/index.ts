@@ -0,0 +1,66 @@
+import { FunctionsFetchError, FunctionsHttpError } from '@supabase/supabase-js';
+import type { RepoError, RepoErrorCode, RepoResult } from '../data';
+import { supabase } from '../supabase';
+import type { FunctionName, Functions } from './types';
+
+export type * from './types';
+export { createFunctionStub } from './stub';
+
+/**
+ * Calls to our Supabase Edge Functions. Third-party API keys live in the
+ * functions' secrets; the app only knows the function names. Results use the
+ * repositories' `{ data, error }` shape.
+ */
+
+export type FunctionInvoker = <N extends FunctionName>(
+  name: N,
+  body: Functions[N]['request']
+) => Promise<RepoResult<Functions[N]['response']>>;
+
+const STATUS_CODES: Record<number, RepoErrorCode> = {
+  400: 'invalid',
+  401: 'unauthenticated',
+  403: 'forbidden',
+  404: 'not_found',
+  429: 'rate_limited',
+};
+
+async function httpError(err: FunctionsHttpError): Promise<RepoError> {
+  const response: Response = err.context;
+  let message = err.message;
+  try {
+    // Functions report errors as { error: { code, message } }
+    const body = await response.json();
+    if (typeof body?.error?.message === 'string') message = body.error.message;
+  } catch {
+    // Not JSON, e.g. a gateway error page; keep the generic message
+  }
+  return { code: STATUS_CODES[response.status] ?? 'unknown', message };
+}
+
+const supabaseInvoker: FunctionInvoker = async (name, body) => {
+  try {
+    const { data, error } = await supabase.functions.invoke(name, { body });
+    if (error) {
+      if (error instanceof FunctionsHttpError) return { data: null, error: await httpError(error) };
+      if (error instanceof FunctionsFetchError) {
+        return { data: null, error: { code: 'network', message: 'No connection. Please try again.' } };
+      }
+      return { data: null, error: { code: 'unknown', message: error.message } };
+    }
+    return { data, error: null };
+  } catch (err) {
+    return { data: null, error: { code: 'unknown', message: err instanceof Error ? err.message : String(err) } };
+  }
+};
+
+let invoker: FunctionInvoker = supabaseInvoker;
+
+/** Replaces the transport, e.g. with `createFunctionStub()` in tests. null restores Supabase. */
+export function setFunctionInvoker(next: FunctionInvoker | null) {
+  invoker = next ?? supabaseInvoker;
+}
+
+export function invokeFunction<N extends FunctionName>(name: N, body: Functions[N]['request']) {
+  return invoker(name, body);
+}
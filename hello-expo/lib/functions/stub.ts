@@ -0,0 +1,46 @@
+import { localProvider } from '../barcode/local';
+import type { RepoResult } from '../data';
+import { searchFoods } from '../nutrition';
+import { mockWeatherProvider } from '../weather/mock';
+import type { FunctionInvoker } from './index';
+import type { FunctionName, Functions, NutritionProduct } from './types';
+
+type Handlers = {
+  [N in FunctionName]: (body: Functions[N]['request']) => Promise<Functions[N]['response']>;
+};
+
+/**
+ * Answers function calls on the device: weather from the mock provider and
+ * nutrition from the bundled databases. Pass handlers to override a function,
+ * e.g. to return a fixed reading or to throw and exercise error handling.
+ */
+export function createFunctionStub(overrides: Partial<Handlers> = {}): FunctionInvoker {
+  const handlers: Handlers = {
+    async weather({ lat, lng, at }) {
+      const reading = at
+        ? await mockWeatherProvider.historical!(lat, lng, new Date(at))
+        : await mockWeatherProvider.current(lat, lng);
+      return { reading };
+    },
+    async nutrition(request) {
+      if (request.action === 'barcode') {
+        const product = await localProvider.lookup(request.barcode);
+        return { products: product ? [product] : [] };
+      }
+      const products = searchFoods(request.query).map(
+        ({ name, per100g, servings }): NutritionProduct => ({ name, brand: null, barcode: null, per100g, servings, source: 'local' })
+      );
+      return { products };
+    },
+    ...overrides,
+  };
+
+  return (async (name: FunctionName, body: unknown): Promise<RepoResult<unknown>> => {
+    try {
+      const handler = handlers[name] as (body: unknown) => Promise<unknown>;
+      return { data: await handler(body), error: null };
+    } catch (err) {
+      return { data: null, error: { code: 'unknown', message: err instanceof Error ? err.message : String(err) } };
+    }
+  }) as FunctionInvoker;
+}
@@ -0,0 +1,44 @@
+import type { Macros, Serving } from '../nutrition';
+
+/**
+ * Request and response bodies of the Edge Functions in supabase/functions.
+ * The functions declare the same shapes in `_shared/types.ts`; change both
+ * together.
+ */
+
+export type WeatherRequest = { lat: number; lng: number; at?: string };
+
+export type RemoteWeatherReading = {
+  condition: string;
+  conditionCode: number | null;
+  temperature: number | null;
+  humidity: number | null;
+  pressure: number | null;
+  /** null when the upstream API didn't report sunrise and sunset */
+  daylightHours: number | null;
+  observedAt: string;
+  source: string;
+};
+
+export type WeatherResponse = { reading: RemoteWeatherReading | null };
+
+export type NutritionRequest = { action: 'barcode'; barcode: string } | { action: 'search'; query: string };
+
+export type NutritionProduct = {
+  name: string;
+  brand: string | null;
+  barcode: string | null;
+  per100g: Macros;
+  servings: Serving[];
+  source: string;
+};
+
+export type NutritionResponse = { products: NutritionProduct[] };
+
+/** Every function by name, with its request and response bodies */
+export type Functions = {
+  weather: { request: WeatherRequest; response: WeatherResponse };
+  nutrition: { request: NutritionRequest; response: NutritionResponse };
+};
+
+export type FunctionName = keyof Functions;
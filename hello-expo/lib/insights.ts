@@ -0,0 +1,332 @@
+import type { Beverage, FoodEntry, MealCategoryInput, MealType, Mood, Place } from './data';
+import { placeLabel } from './location';
+import { categoryFor, DEFAULT_MEAL_CATEGORIES } from './mealCategories';
+import { dateKey } from './trends';
+
+/**
+ * Mood–food correlation insights. Everything here is pure so it can run on
+ * whatever the screen loaded (or on fixtures) without touching the backend.
+ * Days are calendar days in the `timeZone` given to buildInsights.
+ */
+
+export type Confidence = 'low' | 'medium' | 'high';
+
+export type InsightChart =
+  | { kind: 'bars'; bars: { label: string; value: number; count: number }[] }
+  | { kind: 'scatter'; points: { x: number; y: number }[]; xLabel: string; yLabel: string };
+
+export type Insight = {
+  id: string;
+  title: string;
+  summary: string;
+  confidence: Confidence;
+  sampleSize: number;
+  chart: InsightChart;
+};
+
+export type LinkedMood = { mood: Mood; meals: FoodEntry[] };
+
+/** How far back a meal can be and still count towards a mood */
+export const LOOKBACK_HOURS = 6;
+export const BIG_DINNER_CALORIES = 900;
+/** Water (non-alcoholic drinks) that makes a day count as well hydrated */
+export const HYDRATED_DAY_ML = 1500;
+
+const time = (value: string | null) => (value ? Date.parse(value) : NaN);
+const dayKey = (value: string, timeZone?: string) => dateKey(new Date(value), timeZone);
+
+export function mean(values: number[]) {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function variance(values: number[]) {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+/** Welch's t statistic for the difference between two group means */
+function welchT(a: number[], b: number[]) {
+  const se = Math.sqrt(variance(a) / a.length + variance(b) / b.length);
+  const diff = mean(a) - mean(b);
+  if (se === 0) return diff === 0 ? 0 : Infinity;
+  return diff / se;
+}
+
+export function pearson(points: { x: number; y: number }[]) {
+  const n = points.length;
+  if (n < 3) return 0;
+  const mx = mean(points.map((p) => p.x));
+  const my = mean(points.map((p) => p.y));
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (const { x, y } of points) {
+    sxy += (x - mx) * (y - my);
+    sxx += (x - mx) ** 2;
+    syy += (y - my) ** 2;
+  }
+  return sxx === 0 || syy === 0 ? 0 : sxy / Math.sqrt(sxx * syy);
+}
+
+/**
+ * Rough confidence from a test statistic and the size of the smallest group.
+ * Deliberately conservative: small samples never rate above "low".
+ */
+export function confidenceFor(t: number, smallestGroup: number): Confidence {
+  const strength = Math.abs(t);
+  if (smallestGroup >= 10 && strength >= 2.5) return 'high';
+  if (smallestGroup >= 4 && strength >= 1.7) return 'medium';
+  return 'low';
+}
+
+/** Pair each mood with the meals eaten in the `hours` before it */
+export function linkMoodsToMeals(moods: Mood[], meals: FoodEntry[], hours = LOOKBACK_HOURS): LinkedMood[] {
+  const windowMs = hours * 3_600_000;
+  const timedMeals = meals
+    .map((meal) => ({ meal, at: time(meal.created_at) }))
+    .filter((it) => !Number.isNaN(it.at));
+
+  return moods
+    .filter((mood) => mood.mood != null && !Number.isNaN(time(mood.created_at)))
+    .map((mood) => {
+      const at = time(mood.created_at);
+      return {
+        mood,
+        meals: timedMeals.filter((it) => it.at < at && it.at >= at - windowMs).map((it) => it.meal),
+      };
+    });
+}
+
+function fmt(value: number) {
+  return value.toFixed(1);
+}
+
+function comparison(
+  id: string,
+  title: string,
+  withLabel: string,
+  withoutLabel: string,
+  a: number[],
+  b: number[],
+  describe: (a: string, b: string) => string
+): Insight | null {
+  if (a.length < 2 || b.length < 2) return null;
+  const t = welchT(a, b);
+  return {
+    id,
+    title,
+    summary: describe(fmt(mean(a)), fmt(mean(b))),
+    confidence: confidenceFor(t, Math.min(a.length, b.length)),
+    sampleSize: a.length + b.length,
+    chart: {
+      kind: 'bars',
+      bars: [
+        { label: withLabel, value: mean(a), count: a.length },
+        { label: withoutLabel, value: mean(b), count: b.length },
+      ],
+    },
+  };
+}
+
+function moodsByDay(moods: Mood[], timeZone?: string) {
+  const byDay = new Map<string, number[]>();
+  for (const m of moods) {
+    if (m.mood == null || !m.created_at) continue;
+    const key = dayKey(m.created_at, timeZone);
+    byDay.set(key, [...(byDay.get(key) ?? []), m.mood]);
+  }
+  return byDay;
+}
+
+/** Average mood on days that included a given meal type vs days that didn't */
+function mealTypeDays(
+  moods: Mood[],
+  meals: FoodEntry[],
+  categories: MealCategoryInput[],
+  timeZone?: string
+): Insight[] {
+  const moodDays = moodsByDay(moods, timeZone);
+
+  const mealTypesByDay = new Map<string, Set<MealType>>();
+  for (const meal of meals) {
+    if (!meal.created_at) continue;
+    const key = dayKey(meal.created_at, timeZone);
+    const types = mealTypesByDay.get(key) ?? new Set<MealType>();
+    types.add(meal.meal_type);
+    mealTypesByDay.set(key, types);
+  }
+
+  const mealTypes = new Set(meals.map((meal) => meal.meal_type));
+  return [...mealTypes].flatMap((type) => {
+    const withMeal: number[] = [];
+    const without: number[] = [];
+    moodDays.forEach((values, key) => {
+      (mealTypesByDay.get(key)?.has(type) ? withMeal : without).push(mean(values));
+    });
+    const label = categoryFor(categories, type).label.toLowerCase();
+    const insight = comparison(
+      `days-with-${type}`,
+      `Days with ${label}`,
+      `With ${label}`,
+      `Without`,
+      withMeal,
+      without,
+      (a, b) => `Mood averages ${a} on days with ${label} and ${b} on days without.`
+    );
+    return insight ? [insight] : [];
+  });
+}
+
+function bigDinners(linked: LinkedMood[]): Insight | null {
+  const heavy: number[] = [];
+  const light: number[] = [];
+  for (const { mood, meals } of linked) {
+    const dinners = meals.filter((m) => m.meal_type === 'dinner' && m.calories != null);
+    if (dinners.length === 0) continue;
+    const calories = dinners.reduce((sum, m) => sum + (m.calories ?? 0), 0);
+    (calories > BIG_DINNER_CALORIES ? heavy : light).push(mood.mood as number);
+  }
+  return comparison(
+    'big-dinners',
+    `After dinners over ${BIG_DINNER_CALORIES} cal`,
+    `>${BIG_DINNER_CALORIES} cal`,
+    'Lighter',
+    heavy,
+    light,
+    (a, b) => `Mood averages ${a} after dinners over ${BIG_DINNER_CALORIES} cal and ${b} after lighter ones.`
+  );
+}
+
+function mealRatings(linked: LinkedMood[]): Insight | null {
+  const good: number[] = [];
+  const poor: number[] = [];
+  for (const { mood, meals } of linked) {
+    const rated = meals.filter((m) => m.rating != null);
+    if (rated.length === 0) continue;
+    const rating = mean(rated.map((m) => m.rating as number));
+    if (rating >= 4) good.push(mood.mood as number);
+    else if (rating <= 2) poor.push(mood.mood as number);
+  }
+  return comparison(
+    'meal-ratings',
+    'After meals you enjoyed',
+    'Rated 4-5',
+    'Rated 1-2',
+    good,
+    poor,
+    (a, b) => `Mood averages ${a} after meals you rated 4-5 and ${b} after meals rated 1-2.`
+  );
+}
+
+function temperature(moods: Mood[]): Insight | null {
+  const points = moods
+    .filter((m) => m.mood != null && m.temperature != null)
+    .map((m) => ({ x: m.temperature as number, y: m.mood as number }));
+  if (points.length < 5) return null;
+
+  const r = pearson(points);
+  const t = Math.abs(r) >= 1 ? Infinity : r * Math.sqrt((points.length - 2) / (1 - r * r));
+  const direction = r > 0 ? 'rise' : 'fall';
+  return {
+    id: 'temperature',
+    title: 'Mood vs. temperature',
+    summary: Math.abs(r) < 0.1
+      ? `No clear link between temperature and mood (r = ${r.toFixed(2)}).`
+      : `Mood tends to ${direction} with temperature (r = ${r.toFixed(2)}).`,
+    // Half the points stand in for the "smaller group" of a comparison
+    confidence: confidenceFor(t, Math.floor(points.length / 2)),
+    sampleSize: points.length,
+    chart: { kind: 'scatter', points, xLabel: 'Temperature (°C)', yLabel: 'Mood' },
+  };
+}
+
+/**
+ * Average mood on well-hydrated days vs days with less water. Only days with
+ * at least one drink logged count: a day without any is more likely a day the
+ * user didn't track than one they drank nothing.
+ */
+function hydration(moods: Mood[], drinks: Beverage[], timeZone?: string): Insight | null {
+  const waterByDay = new Map<string, number>();
+  for (const drink of drinks) {
+    const key = dayKey(drink.created_at, timeZone);
+    waterByDay.set(key, (waterByDay.get(key) ?? 0) + (drink.alcohol ? 0 : drink.volume_ml));
+  }
+
+  const hydrated: number[] = [];
+  const low: number[] = [];
+  moodsByDay(moods, timeZone).forEach((values, key) => {
+    const water = waterByDay.get(key);
+    if (water == null) return;
+    (water >= HYDRATED_DAY_ML ? hydrated : low).push(mean(values));
+  });
+
+  const litres = `${HYDRATED_DAY_ML / 1000} L`;
+  return comparison(
+    'hydration',
+    'Staying hydrated',
+    `${litres}+`,
+    `Less`,
+    hydrated,
+    low,
+    (a, b) => `Mood averages ${a} on days you drank at least ${litres} of water and ${b} on days you drank less.`
+  );
+}
+
+/**
+ * Average mood at each named place (saved places and cities) with at least
+ * two entries. Confidence compares the best place against all the others.
+ */
+function moodByPlace(moods: Mood[], places: Place[]): Insight | null {
+  const byPlace = new Map<string, number[]>();
+  for (const m of moods) {
+    const label = placeLabel(m, places);
+    if (m.mood == null || !label) continue;
+    byPlace.set(label, [...(byPlace.get(label) ?? []), m.mood]);
+  }
+
+  const groups = [...byPlace]
+    .filter(([, values]) => values.length >= 2)
+    .sort((a, b) => mean(b[1]) - mean(a[1]));
+  if (groups.length < 2) return null;
+
+  const [[best, bestValues], ...others] = groups;
+  const rest = others.flatMap(([, values]) => values);
+  return {
+    id: 'places',
+    title: 'Mood by place',
+    summary: `Mood averages ${fmt(mean(bestValues))} at ${best} and ${fmt(mean(rest))} everywhere else you've named.`,
+    confidence: confidenceFor(welchT(bestValues, rest), Math.min(bestValues.length, rest.length)),
+    sampleSize: bestValues.length + rest.length,
+    chart: {
+      kind: 'bars',
+      bars: groups.map(([label, values]) => ({ label, value: mean(values), count: values.length })),
+    },
+  };
+}
+
+const CONFIDENCE_RANK: Record<Confidence, number> = { high: 0, medium: 1, low: 2 };
+
+/** All insights for the given history, most trustworthy first */
+export function buildInsights(
+  moods: Mood[],
+  meals: FoodEntry[],
+  categories: MealCategoryInput[] = DEFAULT_MEAL_CATEGORIES,
+  drinks: Beverage[] = [],
+  places: Place[] = [],
+  timeZone?: string
+): Insight[] {
+  const linked = linkMoodsToMeals(moods, meals);
+  const insights = [
+    ...mealTypeDays(moods, meals, categories, timeZone),
+    bigDinners(linked),
+    mealRatings(linked),
+    hydration(moods, drinks, timeZone),
+    temperature(moods),
+    moodByPlace(moods, places),
+  ].filter((it): it is Insight => it !== null);
+
+  return insights.sort((a, b) =>
+    CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence] || b.sampleSize - a.sampleSize
+  );
+}
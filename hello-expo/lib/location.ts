@@ -0,0 +1,109 @@
+import * as Location from 'expo-location';
+import type { Mood, Place, Profile } from './data';
+
+/**
+ * Location privacy: how precisely a mood entry records where it was logged,
+ * and the user's saved places. A fix inside a saved place is stored as that
+ * place, so lists and insights show "Home" instead of coordinates.
+ */
+
+export type LocationPrecision = 'exact' | 'coarse' | 'city';
+
+export const LOCATION_PRECISIONS: { value: LocationPrecision; label: string; description: string }[] = [
+  { value: 'exact', label: 'Exact', description: 'The GPS position, accurate to a few metres' },
+  { value: 'coarse', label: 'Coarse', description: 'Rounded to about 1 km' },
+  { value: 'city', label: 'City only', description: 'The city name, with the position rounded to about 10 km' },
+];
+
+/** Decimal places kept for each precision; null keeps the fix as measured */
+const DECIMALS: Record<LocationPrecision, number | null> = { exact: null, coarse: 2, city: 1 };
+
+export const PLACE_RADII = [100, 200, 500, 1000];
+export const DEFAULT_PLACE_RADIUS_M = 200;
+
+/** The location columns stored on a mood entry */
+export type EntryLocation = Pick<Mood, 'lat' | 'lng' | 'place_id' | 'location_label'>;
+
+export const NO_LOCATION: EntryLocation = { lat: null, lng: null, place_id: null, location_label: null };
+
+export function precisionFromProfile(profile: Pick<Profile, 'location_precision'> | null): LocationPrecision {
+  const value = profile?.location_precision;
+  return LOCATION_PRECISIONS.some((p) => p.value === value) ? (value as LocationPrecision) : 'exact';
+}
+
+export function roundCoordinate(value: number, precision: LocationPrecision) {
+  const decimals = DECIMALS[precision];
+  return decimals == null ? value : Number(value.toFixed(decimals));
+}
+
+/** Great-circle distance in metres */
+export function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }) {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLng = (b.lng - a.lng) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** The nearest saved place whose radius contains the point, if any */
+export function placeAt(places: Place[], lat: number, lng: number): Place | null {
+  let nearest: Place | null = null;
+  let nearestDistance = Infinity;
+  for (const place of places) {
+    const distance = distanceMeters(place, { lat, lng });
+    if (distance <= place.radius_m && distance < nearestDistance) {
+      nearest = place;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+async function cityName(lat: number, lng: number) {
+  try {
+    const [address] = await Location.reverseGeocodeAsync({ latitude: lat, longitude: lng });
+    return address?.city ?? address?.subregion ?? address?.region ?? null;
+  } catch (err) {
+    console.warn('Reverse geocoding failed:', err);
+    return null;
+  }
+}
+
+/**
+ * What to store for a GPS fix. Inside a saved place the entry is tagged with
+ * the place and takes its position rather than the fix; either way the
+ * position is rounded to `precision`. City-only entries also get the city
+ * name from the device's geocoder, looked up with the rounded position.
+ */
+export async function entryLocation(
+  coords: { latitude: number; longitude: number },
+  precision: LocationPrecision,
+  places: Place[]
+): Promise<EntryLocation & { lat: number; lng: number }> {
+  const place = placeAt(places, coords.latitude, coords.longitude);
+  const lat = roundCoordinate(place?.lat ?? coords.latitude, precision);
+  const lng = roundCoordinate(place?.lng ?? coords.longitude, precision);
+  if (place) return { lat, lng, place_id: place.id, location_label: place.name };
+  const label = precision === 'city' ? await cityName(lat, lng) : null;
+  return { lat, lng, place_id: null, location_label: label };
+}
+
+/**
+ * The name an entry's location goes by: its saved place (renames included),
+ * else the name stored with it. null for entries with only coordinates.
+ */
+export function placeLabel(entry: Partial<EntryLocation>, places: Place[] = []) {
+  const place = entry.place_id ? places.find((p) => p.id === entry.place_id) : undefined;
+  return place?.name ?? entry.location_label ?? null;
+}
+
+// Coarse positions are stored with fewer decimals; don't pad them back out
+const formatCoordinate = (value: number) => String(Number(value.toFixed(4)));
+
+/** e.g. "📍 Home", "📍 Berlin" or "📍 52.52, 13.4"; empty without a location */
+export function formatLocation(entry: Partial<EntryLocation>, places: Place[] = []) {
+  const label = placeLabel(entry, places);
+  if (label) return `📍 ${label}`;
+  if (entry.lat == null || entry.lng == null) return '';
+  return `📍 ${formatCoordinate(entry.lat)}, ${formatCoordinate(entry.lng)}`;
+}
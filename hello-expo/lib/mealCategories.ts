@@ -0,0 +1,88 @@
+import type { FoodEntry, MealCategoryInput, MealType } from './data';
+
+/**
+ * Meal categories: the built-in four, time-of-day inference and counting
+ * entries per category. Entries only store the category key, so keys that
+ * are no longer in the user's list still display with a generic icon.
+ */
+
+export type MealCount = { key: MealType; label: string; emoji: string; count: number };
+
+export const DEFAULT_MEAL_CATEGORIES: MealCategoryInput[] = [
+  { key: 'breakfast', label: 'Breakfast', emoji: '🌅', start_minute: 5 * 60, end_minute: 11 * 60 },
+  { key: 'lunch', label: 'Lunch', emoji: '☀️', start_minute: 11 * 60, end_minute: 15 * 60 },
+  { key: 'dinner', label: 'Dinner', emoji: '🌙', start_minute: 17 * 60, end_minute: 22 * 60 },
+  { key: 'snack', label: 'Snack', emoji: '🍿', start_minute: null, end_minute: null },
+];
+
+const FALLBACK_EMOJI = '🍽️';
+
+function inWindow({ start_minute: start, end_minute: end }: MealCategoryInput, minute: number) {
+  if (start == null || end == null) return false;
+  // Windows such as 22:00–02:00 wrap past midnight
+  return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+/**
+ * The category whose time window contains `date`. Outside every window it
+ * falls back to the first category without one (a catch-all like "Snack"),
+ * then to the first category.
+ */
+export function inferMealType(categories: MealCategoryInput[], date = new Date()): MealType {
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const match =
+    categories.find((c) => inWindow(c, minute)) ?? categories.find((c) => c.start_minute == null) ?? categories[0];
+  return match?.key ?? DEFAULT_MEAL_CATEGORIES[0].key;
+}
+
+export function categoryFor(categories: MealCategoryInput[], key: MealType): MealCategoryInput {
+  return (
+    categories.find((c) => c.key === key) ??
+    DEFAULT_MEAL_CATEGORIES.find((c) => c.key === key) ?? {
+      key,
+      label: key.charAt(0).toUpperCase() + key.slice(1).replace(/[-_]/g, ' '),
+      emoji: FALLBACK_EMOJI,
+      start_minute: null,
+      end_minute: null,
+    }
+  );
+}
+
+/** Counts per category in list order, followed by any keys outside the list that occur */
+export function countMeals(categories: MealCategoryInput[], counts: Record<string, number>): MealCount[] {
+  const keys = [...categories.map((c) => c.key), ...Object.keys(counts).filter((k) => !categories.some((c) => c.key === k))];
+  return keys.map((key) => {
+    const { label, emoji } = categoryFor(categories, key);
+    return { key, label, emoji, count: counts[key] ?? 0 };
+  });
+}
+
+export function mealCountsOf(entries: Pick<FoodEntry, 'meal_type'>[]) {
+  const counts: Record<string, number> = {};
+  for (const entry of entries) counts[entry.meal_type] = (counts[entry.meal_type] ?? 0) + 1;
+  return counts;
+}
+
+/** A key derived from the label, made unique among `taken` */
+export function categoryKey(label: string, taken: string[]) {
+  const base = label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32) || 'meal';
+  let key = base;
+  for (let i = 2; taken.includes(key); i++) key = `${base}-${i}`;
+  return key;
+}
+
+export function formatMinute(minute: number) {
+  const h = Math.floor(minute / 60) % 24;
+  const m = minute % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+/** Parses "HH:MM" (or "H") into minutes after midnight; null when invalid */
+export function parseMinute(text: string): number | null {
+  const match = /^(\d{1,2})(?::(\d{2}))?$/.exec(text.trim());
+  if (!match) return null;
+  const h = Number(match[1]);
+  const m = Number(match[2] ?? 0);
+  if (h > 24 || m > 59 || (h === 24 && m > 0)) return null;
+  return h * 60 + m;
+}
@@ -0,0 +1,80 @@
+import type { Mood } from './data';
+import { sanitizeInput } from './sanitize';
+
+/**
+ * The optional parts of a mood check-in besides the overall 1-5 score:
+ * energy, anxiety, last night's sleep and tags. Every field may be left
+ * unset, so a quick entry is still just text and a mood.
+ */
+
+export type MoodDimensions = Pick<Mood, 'energy' | 'anxiety' | 'sleep_hours' | 'sleep_quality' | 'tags'>;
+
+export type ScaleKey = 'energy' | 'anxiety' | 'sleep_quality';
+
+export const EMPTY_DIMENSIONS: MoodDimensions = {
+  energy: null,
+  anxiety: null,
+  sleep_hours: null,
+  sleep_quality: null,
+  tags: [],
+};
+
+/** The 1-5 sliders, with what each end of the scale means */
+export const MOOD_SCALES: { key: ScaleKey; label: string; emoji: string; low: string; high: string }[] = [
+  { key: 'energy', label: 'Energy', emoji: '⚡', low: 'Drained', high: 'Energised' },
+  { key: 'anxiety', label: 'Stress / anxiety', emoji: '😰', low: 'Calm', high: 'Very anxious' },
+  { key: 'sleep_quality', label: 'Sleep quality', emoji: '🛏️', low: 'Restless', high: 'Great' },
+];
+
+export const MAX_SLEEP_HOURS = 14;
+export const SLEEP_STEP_HOURS = 0.5;
+
+export const PRESET_TAGS = ['work', 'exercise', 'social', 'family', 'outdoors', 'rest', 'travel', 'health'];
+
+export const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 24;
+
+/** Lower-case, hyphenated tag text, or null if nothing usable is left */
+export function normalizeTag(raw: string): string | null {
+  const tag = sanitizeInput(raw)
+    .toLowerCase()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, '-')
+    .slice(0, MAX_TAG_LENGTH);
+  return tag || null;
+}
+
+/** Adds or removes `tag`; adding is ignored once the list is full */
+export function toggleTag(tags: string[], tag: string): string[] {
+  if (tags.includes(tag)) return tags.filter((it) => it !== tag);
+  return tags.length >= MAX_TAGS ? tags : [...tags, tag];
+}
+
+export function dimensionsOf(entry: MoodDimensions): MoodDimensions {
+  return {
+    energy: entry.energy,
+    anxiety: entry.anxiety,
+    sleep_hours: entry.sleep_hours,
+    sleep_quality: entry.sleep_quality,
+    tags: entry.tags ?? [],
+  };
+}
+
+export function formatSleep(hours: number) {
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)}h`;
+}
+
+/** One-line summary such as "⚡ 4/5 • 😰 2/5 • 😴 7.5h, 3/5"; empty when nothing was recorded */
+export function formatDimensions(entry: MoodDimensions) {
+  const parts: string[] = [];
+  if (entry.energy != null) parts.push(`⚡ ${entry.energy}/5`);
+  if (entry.anxiety != null) parts.push(`😰 ${entry.anxiety}/5`);
+  if (entry.sleep_hours != null || entry.sleep_quality != null) {
+    const sleep = [
+      entry.sleep_hours != null ? formatSleep(entry.sleep_hours) : null,
+      entry.sleep_quality != null ? `${entry.sleep_quality}/5` : null,
+    ];
+    parts.push(`😴 ${sleep.filter(Boolean).join(', ')}`);
+  }
+  return parts.join(' • ');
+}
@@ -0,0 +1,74 @@
+/**
+ * Bundled food database. The checked-in `assets/data/foods.json` is a small
+ * hand-picked starter set of common foods; `npm run build:foods` downloads the
+ * USDA FoodData Central SR Legacy export and replaces it with the full set of
+ * several thousand foods in the same format. Every row carries nutrients per
+ * 100 g plus the common serving sizes for that food.
+ */
+
+export type Macros = {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+};
+
+export type Serving = { label: string; grams: number };
+
+export type FoodItem = {
+  id: number;
+  name: string;
+  per100g: Macros;
+  servings: Serving[];
+};
+
+type FoodRow = [string, number, number, number, number, number, [string, number][]];
+
+export const EMPTY_MACROS: Macros = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+
+let foods: FoodItem[] | null = null;
+
+/** All foods, parsed on first use so the JSON isn't walked at startup */
+export function getFoods(): FoodItem[] {
+  if (!foods) {
+    const rows: FoodRow[] = require('../../assets/data/foods.json');
+    foods = rows.map(([name, calories, protein, carbs, fat, fiber, servings], id) => ({
+      id,
+      name,
+      per100g: { calories, protein, carbs, fat, fiber },
+      servings: servings.map(([label, grams]) => ({ label, grams })),
+    }));
+  }
+  return foods;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Nutrition for `quantity` servings of `serving` (calories rounded to whole numbers) */
+export function nutritionFor(item: Pick<FoodItem, 'per100g'>, serving: Serving, quantity = 1): Macros {
+  const factor = (serving.grams / 100) * quantity;
+  return {
+    calories: Math.round(item.per100g.calories * factor),
+    protein: round1(item.per100g.protein * factor),
+    carbs: round1(item.per100g.carbs * factor),
+    fat: round1(item.per100g.fat * factor),
+    fiber: round1(item.per100g.fiber * factor),
+  };
+}
+
+export function addMacros(a: Macros, b: Partial<Macros>): Macros {
+  return {
+    calories: a.calories + (b.calories ?? 0),
+    protein: round1(a.protein + (b.protein ?? 0)),
+    carbs: round1(a.carbs + (b.carbs ?? 0)),
+    fat: round1(a.fat + (b.fat ?? 0)),
+    fiber: round1(a.fiber + (b.fiber ?? 0)),
+  };
+}
+
+type MacroFields = { [K in Exclude<keyof Macros, 'calories'>]?: number | null };
+
+export function formatMacros(m: MacroFields) {
+  return `${m.protein ?? 0}g protein • ${m.carbs ?? 0}g carbs • ${m.fat ?? 0}g fat • ${m.fiber ?? 0}g fiber`;
+}
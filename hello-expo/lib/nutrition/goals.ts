@@ -0,0 +1,73 @@
+import type { FoodEntry, Profile } from '../data';
+import { addDays, dateKey } from '../trends';
+import { addMacros, EMPTY_MACROS, Macros } from './database';
+
+/**
+ * Daily calorie and macro targets from the user's profile, and the per-day
+ * totals they are compared against.
+ */
+
+export type Nutrient = keyof Macros;
+
+/** null means the user hasn't set a target for that nutrient */
+export type Goals = Record<Nutrient, number | null>;
+
+export type GoalStatus = 'under' | 'over' | 'empty';
+
+export type DayTotals = { key: string; date: Date; totals: Macros; entries: number };
+
+export const NUTRIENTS: { key: Nutrient; label: string; unit: string; color: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'cal', color: '#ffa500' },
+  { key: 'protein', label: 'Protein', unit: 'g', color: '#ef4444' },
+  { key: 'carbs', label: 'Carbs', unit: 'g', color: '#0066cc' },
+  { key: 'fat', label: 'Fat', unit: 'g', color: '#eab308' },
+  { key: 'fiber', label: 'Fiber', unit: 'g', color: '#10b981' },
+];
+
+export function goalsFromProfile(profile: Profile | null): Goals {
+  return {
+    calories: profile?.calorie_goal ?? null,
+    protein: profile?.protein_goal ?? null,
+    carbs: profile?.carbs_goal ?? null,
+    fat: profile?.fat_goal ?? null,
+    fiber: profile?.fiber_goal ?? null,
+  };
+}
+
+export function hasGoals(goals: Goals) {
+  return Object.values(goals).some((goal) => goal != null);
+}
+
+export function entryMacros(entry: Pick<FoodEntry, 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber'>): Macros {
+  return {
+    calories: entry.calories ?? 0,
+    protein: entry.protein ?? 0,
+    carbs: entry.carbs ?? 0,
+    fat: entry.fat ?? 0,
+    fiber: entry.fiber ?? 0,
+  };
+}
+
+/** Totals per calendar day in `timeZone` for the last `days` days, oldest first */
+export function totalsByDay(entries: FoodEntry[], days = 7, today = new Date(), timeZone?: string): DayTotals[] {
+  const result = Array.from({ length: days }, (_, i) => {
+    const date = addDays(today, i - (days - 1), timeZone);
+    return { key: dateKey(date, timeZone), date, totals: EMPTY_MACROS, entries: 0 };
+  });
+  const byKey = new Map(result.map((day) => [day.key, day]));
+
+  for (const entry of entries) {
+    if (!entry.created_at) continue;
+    const day = byKey.get(dateKey(new Date(entry.created_at), timeZone));
+    if (!day) continue;
+    day.totals = addMacros(day.totals, entryMacros(entry));
+    day.entries++;
+  }
+  return result;
+}
+
+/** Days without any logged food count as neither over nor under */
+export function goalStatus(day: DayTotals, nutrient: Nutrient, goal: number): GoalStatus {
+  if (day.entries === 0) return 'empty';
+  return day.totals[nutrient] > goal ? 'over' : 'under';
+}
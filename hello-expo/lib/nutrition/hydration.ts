@@ -0,0 +1,65 @@
+import type { Beverage, Profile } from '../data';
+import type { Units } from '../preferences';
+
+/**
+ * Drink presets, quick-add volumes and the hydration roll-up. Alcoholic
+ * drinks are logged but don't count towards the water total, the same rule
+ * the `food_summary` RPC applies.
+ */
+
+export type DrinkPreset = Pick<Beverage, 'drink' | 'caffeine' | 'alcohol'> & { emoji: string };
+
+export type HydrationTotals = {
+  /** Millilitres of non-alcoholic drinks */
+  waterMl: number;
+  drinks: number;
+  caffeinated: number;
+  alcoholic: number;
+};
+
+export const DRINK_PRESETS: DrinkPreset[] = [
+  { drink: 'Water', emoji: '💧', caffeine: false, alcohol: false },
+  { drink: 'Coffee', emoji: '☕', caffeine: true, alcohol: false },
+  { drink: 'Tea', emoji: '🍵', caffeine: true, alcohol: false },
+  { drink: 'Juice', emoji: '🧃', caffeine: false, alcohol: false },
+  { drink: 'Soda', emoji: '🥤', caffeine: true, alcohol: false },
+  { drink: 'Beer', emoji: '🍺', caffeine: false, alcohol: true },
+  { drink: 'Wine', emoji: '🍷', caffeine: false, alcohol: true },
+];
+
+export const QUICK_VOLUMES_ML = [150, 250, 330, 500];
+
+export const DEFAULT_WATER_GOAL_ML = 2000;
+
+const ML_PER_FL_OZ = 29.5735;
+
+export const EMPTY_HYDRATION: HydrationTotals = { waterMl: 0, drinks: 0, caffeinated: 0, alcoholic: 0 };
+
+export function waterGoalFromProfile(profile: Profile | null) {
+  return profile?.water_goal_ml ?? DEFAULT_WATER_GOAL_ML;
+}
+
+export function hydrationTotals(drinks: Pick<Beverage, 'volume_ml' | 'caffeine' | 'alcohol'>[]): HydrationTotals {
+  return drinks.reduce<HydrationTotals>(
+    (sum, drink) => ({
+      waterMl: sum.waterMl + (drink.alcohol ? 0 : drink.volume_ml),
+      drinks: sum.drinks + 1,
+      caffeinated: sum.caffeinated + (drink.caffeine ? 1 : 0),
+      alcoholic: sum.alcoholic + (drink.alcohol ? 1 : 0),
+    }),
+    EMPTY_HYDRATION
+  );
+}
+
+/** The preset's emoji, or one picked from the flags for drinks logged under another name */
+export function drinkEmoji(drink: Pick<Beverage, 'drink' | 'caffeine' | 'alcohol'>) {
+  const preset = DRINK_PRESETS.find((p) => p.drink.toLowerCase() === drink.drink.toLowerCase());
+  if (preset) return preset.emoji;
+  return drink.alcohol ? '🍸' : drink.caffeine ? '☕' : '🥤';
+}
+
+/** Metric: "250 ml" below a litre, "1.25 L" from there on. Imperial: "8.5 fl oz" */
+export function formatVolume(ml: number, units: Units = 'metric') {
+  if (units === 'imperial') return `${Number((ml / ML_PER_FL_OZ).toFixed(1))} fl oz`;
+  return ml >= 1000 ? `${Number((ml / 1000).toFixed(2))} L` : `${ml} ml`;
+}
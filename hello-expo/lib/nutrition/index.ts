@@ -0,0 +1,6 @@
+export * from './database';
+export * from './goals';
+export * from './hydration';
+export * from './recipes';
+export { searchFoods } from './search';
+export * from './summary';
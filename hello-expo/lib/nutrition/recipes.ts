@@ -0,0 +1,35 @@
+import type { RecipeIngredientInput } from '../data';
+import { addMacros, EMPTY_MACROS, FoodItem, Macros, nutritionFor, Serving } from './database';
+
+/**
+ * Recipe nutrition. Each ingredient stores its own totals (copied from the
+ * food database when it was added); a recipe's per-serving figure divides
+ * their sum by the number of servings the recipe makes.
+ */
+
+export function ingredientFromFood(item: FoodItem, serving: Serving, quantity = 1): RecipeIngredientInput {
+  return {
+    food_name: item.name,
+    serving_label: `${serving.label} (${serving.grams} g)`,
+    quantity,
+    ...nutritionFor(item, serving, quantity),
+  };
+}
+
+export function recipeTotals(ingredients: RecipeIngredientInput[]): Macros {
+  return ingredients.reduce<Macros>((sum, ingredient) => addMacros(sum, ingredient), EMPTY_MACROS);
+}
+
+/** Nutrition for `servings` servings of the recipe */
+export function recipeNutrition(recipe: { servings: number; ingredients: RecipeIngredientInput[] }, servings = 1): Macros {
+  const totals = recipeTotals(recipe.ingredients);
+  const factor = servings / (recipe.servings || 1);
+  const round1 = (n: number) => Math.round(n * factor * 10) / 10;
+  return {
+    calories: Math.round(totals.calories * factor),
+    protein: round1(totals.protein),
+    carbs: round1(totals.carbs),
+    fat: round1(totals.fat),
+    fiber: round1(totals.fiber),
+  };
+}
@@ -0,0 +1,67 @@
+import { FoodItem, getFoods } from './database';
+
+/**
+ * Fuzzy food search: word-prefix matches rank first, then typo-tolerant
+ * trigram similarity, so "chiken brest" still finds chicken breast.
+ */
+
+type Indexed = { item: FoodItem; words: string[]; grams: Set<string> };
+
+let index: Indexed[] | null = null;
+
+export function normalize(text: string) {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .trim();
+}
+
+function trigrams(text: string) {
+  const grams = new Set<string>();
+  for (const word of text.split(/\s+/)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+function getIndex() {
+  if (!index) {
+    index = getFoods().map((item) => {
+      const text = normalize(item.name);
+      return { item, words: text.split(/\s+/), grams: trigrams(text) };
+    });
+  }
+  return index;
+}
+
+function similarity(query: Set<string>, target: Set<string>) {
+  let shared = 0;
+  query.forEach((g) => {
+    if (target.has(g)) shared++;
+  });
+  // Share of the query's trigrams found in the name; long names aren't penalised
+  return query.size ? shared / query.size : 0;
+}
+
+export function searchFoods(query: string, limit = 25): FoodItem[] {
+  const text = normalize(query);
+  if (!text) return [];
+  const terms = text.split(/\s+/);
+  const queryGrams = trigrams(text);
+
+  return getIndex()
+    .map(({ item, words, grams }) => {
+      const prefixHits = terms.filter((t) => words.some((w) => w.startsWith(t))).length;
+      let score = prefixHits / terms.length + similarity(queryGrams, grams);
+      // Names that start with the query read as the most direct answer
+      if (words[0].startsWith(terms[0])) score += 0.25;
+      return { item, score };
+    })
+    .filter(({ score }) => score >= 0.5)
+    .sort((a, b) => b.score - a.score || a.item.name.length - b.item.name.length)
+    .slice(0, limit)
+    .map(({ item }) => item);
+}
@@ -0,0 +1,105 @@
+import type { DateRange, FoodDaySummary } from '../data';
+import { addDays, calendarDate, startOfDay, startOfMonth, startOfWeek, WeekStart, zonedDate } from '../trends';
+import type { Macros } from './database';
+import { EMPTY_HYDRATION, HydrationTotals } from './hydration';
+
+/**
+ * Date ranges for the food history screen and the roll-up of the per-day
+ * rows the `food_summary` RPC returns for them.
+ */
+
+export type RangeKind = 'day' | 'week' | 'month' | 'custom';
+
+export type RangeSummary = {
+  days: number;
+  loggedDays: number;
+  entries: number;
+  totals: Macros;
+  averageRating: number | null;
+  mealCounts: Record<string, number>;
+  hydration: HydrationTotals;
+  /** Days with at least one drink logged */
+  hydratedDays: number;
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** The day, week or month containing `anchor` in `timeZone`; `to` is exclusive */
+export function rangeFor(
+  kind: Exclude<RangeKind, 'custom'>,
+  anchor: Date,
+  weekStartsOn: WeekStart = 1,
+  timeZone?: string
+): DateRange {
+  if (kind === 'week') {
+    const from = startOfWeek(anchor, weekStartsOn, timeZone);
+    return { from, to: addDays(from, 7, timeZone) };
+  }
+  if (kind === 'month') {
+    const from = startOfMonth(anchor, timeZone);
+    const { year, month } = calendarDate(from, timeZone);
+    return { from, to: zonedDate(year, month + 1, 1, timeZone) };
+  }
+  const from = startOfDay(anchor, timeZone);
+  return { from, to: addDays(from, 1, timeZone) };
+}
+
+/** Whole days from the start of `start` through the end of `end`, in either order */
+export function customRange(start: Date, end: Date, timeZone?: string): DateRange {
+  const [a, b] = start <= end ? [start, end] : [end, start];
+  return { from: startOfDay(a, timeZone), to: addDays(b, 1, timeZone) };
+}
+
+/** Moves a day/week/month range one step back (-1) or forward (1) */
+export function shiftRange(kind: Exclude<RangeKind, 'custom'>, anchor: Date, step: -1 | 1, timeZone?: string): Date {
+  if (kind === 'month') {
+    const { year, month } = calendarDate(anchor, timeZone);
+    return zonedDate(year, month + step, 1, timeZone);
+  }
+  return addDays(anchor, step * (kind === 'week' ? 7 : 1), timeZone);
+}
+
+/** Calendar days in the range; rounding absorbs days shortened or lengthened by a clock change */
+export function daysIn({ from, to }: DateRange) {
+  return Math.round((to.getTime() - from.getTime()) / 86_400_000);
+}
+
+export function summarizeRange(range: DateRange, rows: FoodDaySummary[]): RangeSummary {
+  const totals: Macros = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+  const mealCounts: Record<string, number> = {};
+  const hydration = { ...EMPTY_HYDRATION };
+  let entries = 0;
+  let rated = 0;
+  let ratingSum = 0;
+
+  for (const row of rows) {
+    entries += row.entries;
+    totals.calories += row.calories;
+    totals.protein = round1(totals.protein + row.protein);
+    totals.carbs = round1(totals.carbs + row.carbs);
+    totals.fat = round1(totals.fat + row.fat);
+    totals.fiber = round1(totals.fiber + row.fiber);
+    if (row.average_rating != null) {
+      rated += row.rated_entries;
+      ratingSum += row.average_rating * row.rated_entries;
+    }
+    for (const [meal, count] of Object.entries(row.meal_counts)) {
+      mealCounts[meal] = (mealCounts[meal] ?? 0) + count;
+    }
+    hydration.waterMl += row.water_ml;
+    hydration.drinks += row.drinks;
+    hydration.caffeinated += row.caffeinated_drinks;
+    hydration.alcoholic += row.alcoholic_drinks;
+  }
+
+  return {
+    days: daysIn(range),
+    loggedDays: rows.filter((row) => row.entries > 0).length,
+    entries,
+    totals,
+    averageRating: rated > 0 ? ratingSum / rated : null,
+    mealCounts,
+    hydration,
+    hydratedDays: rows.filter((row) => row.drinks > 0).length,
+  };
+}
@@ -0,0 +1,313 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import { AppState } from 'react-native';
+import { NewBeverage, NewFoodEntry, NewMood, RepoError, RepoErrorCode, Repository, repository, toRepoError } from './data';
+import { supabase } from './supabase';
+import { getWeather, weatherFields, withWeather } from './weather';
+
+/**
+ * Persistent local outbox for new entries.
+ *
+ * Entries are written to device storage first and pushed to Supabase in the
+ * background, so logging a mood, a meal or a drink never fails because of
+ * signal. Each entry gets a client-generated id that is also used as the row
+ * id, which makes a retried push idempotent. Moods saved with a location but
+ * without weather (usually because the device was offline) get it filled in
+ * for the time they were logged just before they are pushed; if it still
+ * can't be found then, the mood is pushed without it and later flushes
+ * backfill it onto the saved row. Entries the
+ * server rejects outright (invalid, forbidden) are parked as failed instead
+ * of retried, until the user fixes or discards them.
+ */
+
+/** Which repository an entry belongs to */
+export type OutboxKind = keyof Pick<Repository, 'moods' | 'food' | 'beverages'>;
+
+export type OutboxItem = {
+  id: string;
+  kind: OutboxKind;
+  payload: Record<string, unknown>;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  /** Rejected for good: not retried until the user fixes or discards it */
+  failed: boolean;
+};
+
+/** A pushed mood whose weather couldn't be found yet */
+type WeatherBackfill = {
+  id: string;
+  userId: string;
+  lat: number;
+  lng: number;
+  /** When the mood was logged, which is the time the weather is looked up for */
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+};
+
+type Listener = (items: OutboxItem[]) => void;
+
+const STORAGE_KEY = 'outbox:v1';
+const BACKFILL_KEY = 'outbox-weather:v1';
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 10 * 60_000;
+
+/** Rejections that will fail the same way however often they are retried */
+export const PERMANENT_ERRORS: RepoErrorCode[] = ['invalid', 'forbidden', 'conflict', 'not_found'];
+/** Lookups after which a mood keeps no weather, e.g. when there is no data for the place */
+const MAX_BACKFILL_ATTEMPTS = 12;
+
+let items: OutboxItem[] = [];
+let backfills: WeatherBackfill[] = [];
+let loaded: Promise<void> | null = null;
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<Listener>();
+
+function load() {
+  if (!loaded) {
+    loaded = Promise.all([AsyncStorage.getItem(STORAGE_KEY), AsyncStorage.getItem(BACKFILL_KEY)])
+      .then(([raw, rawBackfills]) => {
+        items = raw ? JSON.parse(raw).map(upgrade) : [];
+        backfills = rawBackfills ? JSON.parse(rawBackfills) : [];
+      })
+      .catch((err) => {
+        console.warn('Outbox load failed:', err);
+        items = [];
+        backfills = [];
+      })
+      .then(() => emit());
+  }
+  return loaded;
+}
+
+// Items queued before the repository layer were keyed by table name, and before parking had no `failed`
+function upgrade(item: Omit<OutboxItem, 'failed'> & { table?: string; failed?: boolean }): OutboxItem {
+  const { table, failed = false, ...rest } = item;
+  if (item.kind) return { ...rest, failed };
+  return { ...rest, failed, kind: table === 'food_entries' ? 'food' : 'moods' };
+}
+
+function emit() {
+  listeners.forEach((listener) => listener(items));
+}
+
+async function save(next: OutboxItem[]) {
+  items = next;
+  emit();
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+async function saveBackfills(next: WeatherBackfill[]) {
+  backfills = next;
+  await AsyncStorage.setItem(BACKFILL_KEY, JSON.stringify(backfills));
+}
+
+export function backoff(attempts: number) {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1));
+  // Jitter so several queued entries don't retry in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/** Retries when the signed-in user's next entry is due; other accounts' entries wait for their sign-in */
+function scheduleRetry(userId: string | null) {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (!userId) return;
+  const waiting = [
+    ...items.filter((it) => !it.failed && it.payload.user_id === userId),
+    ...backfills.filter((it) => it.userId === userId),
+  ];
+  if (waiting.length === 0) return;
+
+  const next = Math.min(...waiting.map((it) => it.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, Math.max(0, next - Date.now()));
+}
+
+export function subscribeOutbox(listener: Listener) {
+  listeners.add(listener);
+  load().then(() => listener(items));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getPending(kind: OutboxKind) {
+  await load();
+  return items.filter((it) => it.kind === kind);
+}
+
+/**
+ * Store an entry locally and try to push it right away. Resolves as soon as
+ * the entry is on disk; the push itself never throws.
+ */
+export async function enqueue(kind: OutboxKind, payload: Record<string, unknown>) {
+  await load();
+  const now = new Date().toISOString();
+  const item: OutboxItem = {
+    id: Crypto.randomUUID(),
+    kind,
+    payload: { created_at: now, ...payload },
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: null,
+    failed: false,
+  };
+  await save([item, ...items]);
+  flushOutbox();
+  return item;
+}
+
+/** Drops an entry without pushing it, e.g. one the server rejected */
+export async function discardOutboxItem(id: string) {
+  await load();
+  await save(items.filter((it) => it.id !== id));
+}
+
+/** Queues a failed entry again, with `patch` applied to what will be pushed */
+export async function retryOutboxItem(id: string, patch: Record<string, unknown> = {}) {
+  await load();
+  await save(items.map((it) => it.id === id
+    ? { ...it, payload: { ...it.payload, ...patch }, attempts: 0, nextAttemptAt: 0, lastError: null, failed: false }
+    : it
+  ));
+  flushOutbox();
+}
+
+async function push(item: OutboxItem): Promise<RepoError | null> {
+  const row = { ...item.payload, id: item.id };
+  if (item.kind === 'moods') return pushMood(await withWeather(row as NewMood & { id: string }));
+  const { error } = item.kind === 'beverages'
+    ? await repository.beverages.create(row as NewBeverage)
+    : await repository.food.create(row as NewFoodEntry);
+  return error;
+}
+
+/** Saves a mood; one that has a location but still no weather is queued for a backfill */
+async function pushMood(mood: NewMood & { id: string }): Promise<RepoError | null> {
+  const { error } = await repository.moods.create(mood);
+  if (error || mood.lat == null || mood.lng == null || mood.weather != null || !mood.user_id) return error;
+  await saveBackfills([
+    ...backfills.filter((it) => it.id !== mood.id),
+    {
+      id: mood.id,
+      userId: mood.user_id,
+      lat: mood.lat,
+      lng: mood.lng,
+      createdAt: mood.created_at ?? new Date().toISOString(),
+      attempts: 0,
+      nextAttemptAt: Date.now() + backoff(1),
+    },
+  ]);
+  return null;
+}
+
+/** Looks up the weather again for the user's saved moods that went without it */
+async function backfillWeather(userId: string) {
+  const now = Date.now();
+  const due = backfills.filter((it) => it.userId === userId && it.nextAttemptAt <= now);
+  for (const backfill of due) {
+    const reading = await getWeather(backfill.lat, backfill.lng, new Date(backfill.createdAt));
+    let done = false;
+    if (reading) {
+      const { error } = await repository.moods.update(backfill.id, weatherFields(reading));
+      // A mood deleted in the meantime needs no weather
+      done = !error || PERMANENT_ERRORS.includes(error.code);
+    }
+
+    const attempts = backfill.attempts + 1;
+    await saveBackfills(done || attempts >= MAX_BACKFILL_ATTEMPTS
+      ? backfills.filter((it) => it.id !== backfill.id)
+      : backfills.map((it) => it.id === backfill.id
+        ? { ...it, attempts, nextAttemptAt: Date.now() + backoff(attempts) }
+        : it
+      )
+    );
+  }
+}
+
+/**
+ * Push every entry whose backoff has elapsed. Entries that fail for a
+ * passing reason (offline, rate limited, signed out) stay queued and are
+ * retried with exponential backoff; permanent rejections are parked. Then
+ * moods that were saved without their weather get another lookup.
+ */
+export async function flushOutbox() {
+  await load();
+  if (flushing) return;
+  flushing = true;
+  let userId: string | null = null;
+
+  try {
+    // Only the signed-in user's own entries; anything queued by another account waits for them
+    const { data: { session } } = await supabase.auth.getSession();
+    userId = session?.user.id ?? null;
+    if (!userId) return;
+    const now = Date.now();
+    const due = items.filter((it) => !it.failed && it.nextAttemptAt <= now && it.payload.user_id === userId);
+    for (const item of due) {
+      let failure: RepoError | null;
+      try {
+        failure = await push(item);
+      } catch (err) {
+        failure = toRepoError(err instanceof Error ? err : { message: String(err) });
+      }
+
+      if (failure) {
+        const attempts = item.attempts + 1;
+        const failed = PERMANENT_ERRORS.includes(failure.code);
+        await save(items.map((it) => it.id === item.id
+          ? { ...it, attempts, nextAttemptAt: Date.now() + backoff(attempts), lastError: failure.message, failed }
+          : it
+        ));
+      } else {
+        await save(items.filter((it) => it.id !== item.id));
+      }
+    }
+    await backfillWeather(userId);
+  } finally {
+    flushing = false;
+    // Signed out, nothing is scheduled; signing in flushes again
+    scheduleRetry(userId);
+  }
+}
+
+/**
+ * Flush on start-up, whenever connectivity comes back and whenever the app
+ * returns to the foreground or a user signs in. Returns a cleanup function.
+ */
+export function startOutboxSync() {
+  const unsubscribeNet = NetInfo.addEventListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      // Connectivity is back: retry everything now instead of waiting out the backoff
+      load().then(() => {
+        items = items.map((it) => ({ ...it, nextAttemptAt: 0 }));
+        backfills = backfills.map((it) => ({ ...it, nextAttemptAt: 0 }));
+        flushOutbox();
+      });
+    }
+  });
+  const appStateSub = AppState.addEventListener('change', (state) => {
+    if (state === 'active') flushOutbox();
+  });
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+    // Deferred: Supabase calls made inside this callback would wait on the sign-in itself
+    if (event === 'SIGNED_IN') setTimeout(flushOutbox, 0);
+  });
+  flushOutbox();
+
+  return () => {
+    unsubscribeNet();
+    appStateSub.remove();
+    subscription.unsubscribe();
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+}
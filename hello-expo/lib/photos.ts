@@ -0,0 +1,340 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { AppState } from 'react-native';
+import { PhotoEntryKind, RepoError, repository, toRepoError } from './data';
+import { supabase } from './supabase';
+import { backoff, getPending, PERMANENT_ERRORS } from './outbox';
+
+/**
+ * Photo attachments: on-device compression and a persistent upload queue.
+ *
+ * Picked photos are resized, re-encoded and copied into the app's document
+ * directory straight away, so saving an entry never waits on the network.
+ * The queue then uploads each photo and its thumbnail to Storage and records
+ * the `entry_photos` row, retrying with the same backoff as the entry outbox.
+ * Uploads that can never succeed (the local file is gone, Storage refuses
+ * them, the entry was deleted) are parked as failed, like rejected entries,
+ * until the user retries or discards them.
+ */
+
+export type PreparedPhoto = {
+  id: string;
+  /** Local file URIs, kept until the upload has succeeded */
+  uri: string;
+  thumbnailUri: string;
+  width: number;
+  height: number;
+};
+
+export type PhotoUpload = PreparedPhoto & {
+  kind: PhotoEntryKind;
+  entryId: string;
+  userId: string;
+  position: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  /** Rejected for good: not retried until the user retries or discards it */
+  failed: boolean;
+};
+
+type Listener = (uploads: PhotoUpload[]) => void;
+
+export const MAX_PHOTOS = 4;
+
+const PHOTO_WIDTH = 1600;
+const THUMBNAIL_WIDTH = 320;
+const AVATAR_SIZE = 512;
+const STORAGE_KEY = 'photo-uploads:v1';
+const PHOTO_DIR = `${FileSystem.documentDirectory}photos/`;
+
+let uploads: PhotoUpload[] = [];
+let loaded: Promise<void> | null = null;
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<Listener>();
+
+async function render(uri: string, sourceWidth: number, width: number, compress: number) {
+  const context = ImageManipulator.manipulate(uri);
+  if (sourceWidth > width) context.resize({ width });
+  const image = await context.renderAsync();
+  return image.saveAsync({ compress, format: SaveFormat.JPEG });
+}
+
+/** Compresses a picked image and writes it plus a thumbnail to app storage */
+export async function preparePhoto(asset: { uri: string; width: number }): Promise<PreparedPhoto> {
+  await FileSystem.makeDirectoryAsync(PHOTO_DIR, { intermediates: true });
+  const id = Crypto.randomUUID();
+  const full = await render(asset.uri, asset.width, PHOTO_WIDTH, 0.7);
+  const thumbnail = await render(full.uri, full.width, THUMBNAIL_WIDTH, 0.6);
+
+  // The manipulator writes to the cache directory, which the OS may clear before the upload
+  const uri = `${PHOTO_DIR}${id}.jpg`;
+  const thumbnailUri = `${PHOTO_DIR}${id}-thumb.jpg`;
+  await FileSystem.moveAsync({ from: full.uri, to: uri });
+  await FileSystem.moveAsync({ from: thumbnail.uri, to: thumbnailUri });
+  return { id, uri, thumbnailUri, width: full.width, height: full.height };
+}
+
+/** Center-crops a picked image to a square avatar; the file stays in the cache directory */
+export async function prepareAvatar(asset: { uri: string; width: number; height: number }) {
+  const side = Math.min(asset.width, asset.height);
+  const context = ImageManipulator.manipulate(asset.uri);
+  context.crop({ originX: (asset.width - side) / 2, originY: (asset.height - side) / 2, width: side, height: side });
+  if (side > AVATAR_SIZE) context.resize({ width: AVATAR_SIZE, height: AVATAR_SIZE });
+  const image = await context.renderAsync();
+  return (await image.saveAsync({ compress: 0.8, format: SaveFormat.JPEG })).uri;
+}
+
+/** Deletes the local files of photos that were picked but won't be uploaded */
+export async function discardPhotos(photos: PreparedPhoto[]) {
+  await Promise.all(
+    photos.flatMap((photo) => [
+      FileSystem.deleteAsync(photo.uri, { idempotent: true }),
+      FileSystem.deleteAsync(photo.thumbnailUri, { idempotent: true }),
+    ])
+  ).catch((err) => console.warn('Discarding photos failed:', err));
+}
+
+/** Where a photo and its thumbnail are stored; the first folder must be the owner's id */
+export function storagePaths({ userId, kind, entryId, id }: Pick<PhotoUpload, 'userId' | 'kind' | 'entryId' | 'id'>) {
+  const folder = `${userId}/${kind}/${entryId}`;
+  return { path: `${folder}/${id}.jpg`, thumbnailPath: `${folder}/${id}-thumb.jpg` };
+}
+
+function load() {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(STORAGE_KEY)
+      .then((raw) => {
+        // Uploads queued before parking had no `failed`
+        uploads = raw ? JSON.parse(raw).map((it: PhotoUpload) => ({ ...it, failed: it.failed ?? false })) : [];
+      })
+      .catch((err) => {
+        console.warn('Photo queue load failed:', err);
+        uploads = [];
+      })
+      .then(() => emit());
+  }
+  return loaded;
+}
+
+function emit() {
+  listeners.forEach((listener) => listener(uploads));
+}
+
+async function save(next: PhotoUpload[]) {
+  uploads = next;
+  emit();
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(uploads));
+}
+
+/** Retries when the signed-in user's next photo is due; other accounts' photos wait for their sign-in */
+function scheduleRetry(userId: string | null) {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (!userId) return;
+  const waiting = uploads.filter((it) => !it.failed && it.userId === userId);
+  if (waiting.length === 0) return;
+
+  const next = Math.min(...waiting.map((it) => it.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushPhotos();
+  }, Math.max(0, next - Date.now()));
+}
+
+export function subscribePhotoUploads(listener: Listener) {
+  listeners.add(listener);
+  load().then(() => listener(uploads));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Queue photos for an entry and start uploading them. Resolves once the
+ * queue is on disk; upload failures are retried in the background.
+ */
+export async function queuePhotos(kind: PhotoEntryKind, entryId: string, userId: string, photos: PreparedPhoto[]) {
+  if (photos.length === 0) return;
+  await load();
+  const queued = photos.map((photo, position): PhotoUpload => ({
+    ...photo,
+    kind,
+    entryId,
+    userId,
+    position,
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: null,
+    failed: false,
+  }));
+  await save([...uploads, ...queued]);
+  flushPhotos();
+}
+
+const ENTRY_REPOSITORY = { food: 'food', mood: 'moods' } as const;
+
+/** Why an upload can't go ahead whatever the connection, if it can't */
+async function blocker(upload: PhotoUpload): Promise<RepoError | null> {
+  const [photo, thumbnail] = await Promise.all([
+    FileSystem.getInfoAsync(upload.uri),
+    FileSystem.getInfoAsync(upload.thumbnailUri),
+  ]);
+  if (!photo.exists || !thumbnail.exists) {
+    return { code: 'not_found', message: 'The photo is no longer on this device' };
+  }
+
+  // An entry still in the outbox exists as far as its photos are concerned
+  const kind = ENTRY_REPOSITORY[upload.kind];
+  if ((await getPending(kind)).some((it) => it.id === upload.entryId)) return null;
+  const { error } = await repository[kind].get(upload.entryId);
+  return error?.code === 'not_found' ? { code: 'not_found', message: 'The entry was deleted' } : null;
+}
+
+async function push(upload: PhotoUpload): Promise<RepoError | null> {
+  const blocked = await blocker(upload);
+  if (blocked) return blocked;
+
+  const { path, thumbnailPath } = storagePaths(upload);
+  // Uploads overwrite, so a retry after a partial failure starts over safely
+  const steps = [
+    () => repository.photos.upload(path, upload.uri),
+    () => repository.photos.upload(thumbnailPath, upload.thumbnailUri),
+    () => repository.photos.create({
+      id: upload.id,
+      user_id: upload.userId,
+      entry_kind: upload.kind,
+      entry_id: upload.entryId,
+      path,
+      thumbnail_path: thumbnailPath,
+      width: upload.width,
+      height: upload.height,
+      position: upload.position,
+    }),
+  ];
+  for (const step of steps) {
+    const { error } = await step();
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Upload every photo whose backoff has elapsed. Passing failures are retried
+ * with backoff; permanent ones are parked.
+ */
+export async function flushPhotos() {
+  await load();
+  if (flushing) return;
+  flushing = true;
+  let userId: string | null = null;
+
+  try {
+    // Only the signed-in user's own photos; anything queued by another account waits for them
+    const { data: { session } } = await supabase.auth.getSession();
+    userId = session?.user.id ?? null;
+    if (!userId) return;
+    const now = Date.now();
+    const due = uploads.filter((it) => !it.failed && it.nextAttemptAt <= now && it.userId === userId);
+    for (const upload of due) {
+      let failure: RepoError | null;
+      try {
+        failure = await push(upload);
+      } catch (err) {
+        failure = toRepoError(err instanceof Error ? err : { message: String(err) });
+      }
+
+      if (failure) {
+        const attempts = upload.attempts + 1;
+        const failed = PERMANENT_ERRORS.includes(failure.code);
+        await save(uploads.map((it) => it.id === upload.id
+          ? { ...it, attempts, nextAttemptAt: Date.now() + backoff(attempts), lastError: failure.message, failed }
+          : it
+        ));
+      } else {
+        await save(uploads.filter((it) => it.id !== upload.id));
+        await discardPhotos([upload]);
+      }
+    }
+  } finally {
+    flushing = false;
+    // Signed out, nothing is scheduled; signing in flushes again
+    scheduleRetry(userId);
+  }
+}
+
+/** Drops a queued photo without uploading it, e.g. one that failed for good, and deletes its files */
+export async function discardPhotoUpload(id: string) {
+  await load();
+  const upload = uploads.find((it) => it.id === id);
+  if (!upload) return;
+  await save(uploads.filter((it) => it.id !== id));
+  await discardPhotos([upload]);
+}
+
+/** Queues a failed photo again */
+export async function retryPhotoUpload(id: string) {
+  await load();
+  await save(uploads.map((it) => it.id === id
+    ? { ...it, attempts: 0, nextAttemptAt: 0, lastError: null, failed: false }
+    : it
+  ));
+  flushPhotos();
+}
+
+/** Takes an entry's photos out of the upload queue, keeping their files, e.g. to attach them again */
+export async function unqueuePhotos(entryId: string): Promise<PreparedPhoto[]> {
+  await load();
+  const taken = uploads.filter((it) => it.entryId === entryId);
+  await save(uploads.filter((it) => it.entryId !== entryId));
+  return taken.map(({ id, uri, thumbnailUri, width, height }) => ({ id, uri, thumbnailUri, width, height }));
+}
+
+/** Deletes every photo of a removed entry: stored files and rows, plus any still queued */
+export async function removeEntryPhotos(kind: PhotoEntryKind, entryId: string) {
+  await discardPhotos(await unqueuePhotos(entryId));
+  const { data, error } = await repository.photos.listFor(kind, [entryId]);
+  if (error) {
+    console.warn('Listing photos of a deleted entry failed:', error.message);
+    return;
+  }
+  for (const photo of data) {
+    const { error: removeErr } = await repository.photos.remove(photo);
+    if (removeErr) console.warn('Removing photo of a deleted entry failed:', removeErr.message);
+  }
+}
+
+/**
+ * Upload on start-up, whenever connectivity comes back and whenever the app
+ * returns to the foreground or a user signs in. Returns a cleanup function.
+ */
+export function startPhotoSync() {
+  const unsubscribeNet = NetInfo.addEventListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      load().then(() => {
+        uploads = uploads.map((it) => ({ ...it, nextAttemptAt: 0 }));
+        flushPhotos();
+      });
+    }
+  });
+  const appStateSub = AppState.addEventListener('change', (state) => {
+    if (state === 'active') flushPhotos();
+  });
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+    // Deferred: Supabase calls made inside this callback would wait on the sign-in itself
+    if (event === 'SIGNED_IN') setTimeout(flushPhotos, 0);
+  });
+  flushPhotos();
+
+  return () => {
+    unsubscribeNet();
+    appStateSub.remove();
+    subscription.unsubscribe();
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+}
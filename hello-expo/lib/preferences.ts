@@ -0,0 +1,76 @@
+import * as Localization from 'expo-localization';
+import type { Profile } from './data';
+import type { WeekStart } from './trends';
+
+/**
+ * Display preferences from the profile: time zone, unit system and the first
+ * day of the week. Anything the user hasn't chosen follows the device, so a
+ * fresh account looks right without visiting settings.
+ */
+
+export type Units = 'metric' | 'imperial';
+
+export type Preferences = {
+  /** IANA zone, e.g. "Europe/Berlin" */
+  timeZone: string;
+  units: Units;
+  weekStart: WeekStart;
+};
+
+export const UNIT_SYSTEMS: { value: Units; label: string; description: string }[] = [
+  { value: 'metric', label: 'Metric', description: '°C, millilitres and litres' },
+  { value: 'imperial', label: 'Imperial', description: '°F and fluid ounces' },
+];
+
+export const WEEK_STARTS: { value: WeekStart; label: string }[] = [
+  { value: 1, label: 'Monday' },
+  { value: 0, label: 'Sunday' },
+  { value: 6, label: 'Saturday' },
+];
+
+export const MAX_DISPLAY_NAME_LENGTH = 50;
+
+export function deviceTimeZone() {
+  return Localization.getCalendars()[0]?.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function deviceUnits(): Units {
+  return Localization.getLocales()[0]?.measurementSystem === 'us' ? 'imperial' : 'metric';
+}
+
+export function deviceWeekStart(): WeekStart {
+  // expo-localization counts from 1 = Sunday
+  const first = Localization.getCalendars()[0]?.firstWeekday;
+  return first ? ((first - 1) as WeekStart) : 1;
+}
+
+/** Whether the JS engine knows the zone; the food summary RPC rejects unknown ones */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function preferencesFromProfile(profile: Pick<Profile, 'timezone' | 'units' | 'week_start'> | null): Preferences {
+  const timeZone = profile?.timezone;
+  const units = profile?.units;
+  const weekStart = profile?.week_start;
+  return {
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : deviceTimeZone(),
+    units: UNIT_SYSTEMS.some((u) => u.value === units) ? (units as Units) : deviceUnits(),
+    weekStart: weekStart != null && weekStart >= 0 && weekStart <= 6 ? (weekStart as WeekStart) : deviceWeekStart(),
+  };
+}
+
+/** "18.2°C" or "65°F" */
+export function formatTemperature(celsius: number, units: Units) {
+  return units === 'imperial' ? `${Math.round((celsius * 9) / 5 + 32)}°F` : `${celsius.toFixed(1)}°C`;
+}
+
+/** Date and time of an entry as seen in the user's time zone */
+export function formatDateTime(iso: string, timeZone: string) {
+  return new Date(iso).toLocaleString(undefined, { timeZone });
+}
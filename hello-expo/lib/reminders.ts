@@ -0,0 +1,212 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import type { Href } from 'expo-router';
+import { AppState, Platform } from 'react-native';
+import { Profile, repository } from './data';
+import type { Json } from './database.types';
+import { formatMinute } from './mealCategories';
+import { preferencesFromProfile } from './preferences';
+import { supabase } from './supabase';
+import { calendarDate, zonedDate } from './trends';
+
+/**
+ * Daily check-in reminders as local notifications.
+ *
+ * The settings live in `profiles.reminders` so they follow the account; the
+ * schedule itself lives on the device. Times are wall-clock times in the
+ * user's preferred time zone, while daily triggers fire in device time, so
+ * each time is shifted by the difference between the two zones. The schedule
+ * is rebuilt on sign-in, cleared on sign-out and rebuilt again whenever that
+ * difference changes (a new preferred zone, travel, or a daylight saving
+ * switch in either zone).
+ */
+
+export type ReminderKind = 'mood' | 'meals' | 'summary';
+
+/** Times are minutes after midnight in the preferred time zone */
+export type ReminderSchedule = { enabled: boolean; times: number[] };
+
+export type ReminderSettings = Record<ReminderKind, ReminderSchedule>;
+
+export const MAX_REMINDER_TIMES = 6;
+
+export const DEFAULT_REMINDERS: ReminderSettings = {
+  mood: { enabled: false, times: [9 * 60, 21 * 60] },
+  meals: { enabled: false, times: [12 * 60 + 30, 19 * 60] },
+  summary: { enabled: false, times: [21 * 60 + 30] },
+};
+
+/** What each reminder says and which screen tapping it opens */
+export const REMINDERS: { kind: ReminderKind; label: string; title: string; body: string; url: Href }[] = [
+  {
+    kind: 'mood',
+    label: 'Mood check-ins',
+    title: '🌱 How are you feeling?',
+    body: 'Take a moment to log your mood.',
+    url: '/?focus=1',
+  },
+  {
+    kind: 'meals',
+    label: 'Meal logging nudges',
+    title: '🍽️ Logged your meal?',
+    body: 'Add what you ate while you still remember.',
+    url: '/food?focus=1',
+  },
+  {
+    kind: 'summary',
+    label: 'End-of-day summary',
+    title: '📊 Your day in review',
+    body: "See today's meals, water and calories.",
+    url: '/food?summary=1',
+  },
+];
+
+const CHANNEL_ID = 'reminders';
+const STORAGE_KEY = 'reminders:v1';
+
+/** The preferred zone the current schedule was built for, and its midnight in device minutes */
+type ScheduleState = { timeZone: string; shift: number };
+
+/** The device time, in minutes after midnight, at which `minute` of today in `timeZone` falls */
+function deviceMinute(minute: number, timeZone: string, now = new Date()) {
+  const { year, month, day } = calendarDate(now, timeZone);
+  const at = new Date(zonedDate(year, month, day, timeZone).getTime() + minute * 60_000);
+  return at.getHours() * 60 + at.getMinutes();
+}
+
+function scheduleFrom(value: Json | undefined, fallback: ReminderSchedule): ReminderSchedule {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return fallback;
+  const times = Array.isArray(value.times)
+    ? value.times.filter((t): t is number => typeof t === 'number' && t >= 0 && t < 1440)
+    : fallback.times;
+  return { enabled: value.enabled === true, times: times.slice(0, MAX_REMINDER_TIMES) };
+}
+
+/** Settings stored on the profile, falling back to the defaults for anything missing or malformed */
+export function remindersFromProfile(profile: Profile | null): ReminderSettings {
+  const stored = profile?.reminders;
+  const value = stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  return {
+    mood: scheduleFrom(value.mood, DEFAULT_REMINDERS.mood),
+    meals: scheduleFrom(value.meals, DEFAULT_REMINDERS.meals),
+    summary: scheduleFrom(value.summary, DEFAULT_REMINDERS.summary),
+  };
+}
+
+export function hasReminders(settings: ReminderSettings) {
+  return Object.values(settings).some((it) => it.enabled && it.times.length > 0);
+}
+
+export function formatReminderTimes(times: number[]) {
+  return [...times].sort((a, b) => a - b).map(formatMinute).join(', ');
+}
+
+/** Asks for notification permission if it hasn't been decided yet */
+export async function requestReminderPermission() {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted || !current.canAskAgain) return current.granted;
+  const { granted } = await Notifications.requestPermissionsAsync();
+  return granted;
+}
+
+export async function cancelReminders() {
+  await Notifications.cancelAllScheduledNotificationsAsync();
+  await AsyncStorage.removeItem(STORAGE_KEY);
+}
+
+/** Replaces every scheduled reminder with the ones in `settings`, read in `timeZone` */
+export async function scheduleReminders(settings: ReminderSettings, timeZone: string) {
+  await Notifications.cancelAllScheduledNotificationsAsync();
+
+  const { granted } = await Notifications.getPermissionsAsync();
+  if (granted) {
+    for (const reminder of REMINDERS) {
+      const { enabled, times } = settings[reminder.kind];
+      if (!enabled) continue;
+      for (const time of times) {
+        const minute = deviceMinute(time, timeZone);
+        await Notifications.scheduleNotificationAsync({
+          content: { title: reminder.title, body: reminder.body, data: { url: reminder.url } },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DAILY,
+            hour: Math.floor(minute / 60),
+            minute: minute % 60,
+            channelId: CHANNEL_ID,
+          },
+        });
+      }
+    }
+  }
+
+  const state: ScheduleState = { timeZone, shift: deviceMinute(0, timeZone) };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+}
+
+/** Rebuilds the schedule from the signed-in user's profile */
+export async function syncReminders() {
+  const { data, error } = await repository.profile.get();
+  if (error) {
+    console.warn('Loading reminder settings failed:', error.message);
+    return;
+  }
+  await scheduleReminders(remindersFromProfile(data), preferencesFromProfile(data).timeZone);
+}
+
+async function timeZoneChanged() {
+  const raw = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!raw) return false;
+  const state: Partial<ScheduleState> = JSON.parse(raw);
+  // Schedules from before the preferred zone was used only stored the device zone
+  return state.shift == null || !state.timeZone || state.shift !== deviceMinute(0, state.timeZone);
+}
+
+/** The screen a tapped reminder opens; useDeferredDeepLink navigates once the stack has mounted */
+export function reminderHref(response: Notifications.NotificationResponse): string | null {
+  const url = response.notification.request.content.data?.url;
+  return typeof url === 'string' ? url : null;
+}
+
+/**
+ * Keeps the schedule in step with the signed-in user and the time zones.
+ * Returns a cleanup function.
+ */
+export function startReminderSync() {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+  if (Platform.OS === 'android') {
+    Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  const run = (task: () => Promise<unknown>) => {
+    task().catch((err) => console.warn('Reminder sync failed:', err));
+  };
+
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+    // Deferred: calling back into supabase-js from inside this callback can deadlock
+    setTimeout(() => {
+      if (event === 'SIGNED_OUT') run(cancelReminders);
+      else if (session && (event === 'SIGNED_IN' || event === 'INITIAL_SESSION')) run(syncReminders);
+    }, 0);
+  });
+
+  const appStateSub = AppState.addEventListener('change', (state) => {
+    if (state !== 'active') return;
+    run(async () => {
+      if (await timeZoneChanged()) await syncReminders();
+    });
+  });
+
+  return () => {
+    subscription.unsubscribe();
+    appStateSub.remove();
+  };
+}
@@ -0,0 +1,4 @@
+// Security fix: Sanitize input to prevent XSS
+export const sanitizeInput = (input: string): string => {
+  return input.replace(/[<>&"']/g, '').trim();
+};
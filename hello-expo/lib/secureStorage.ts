@@ -0,0 +1,47 @@
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * Storage for the Supabase session in the iOS Keychain / Android Keystore.
+ * SecureStore values should stay under 2048 bytes and a session (tokens plus
+ * the user record) is larger, so each value is split across numbered keys
+ * with a count alongside.
+ */
+
+const CHUNK_SIZE = 1800;
+// Readable after the first unlock so a refresh can run while the device is locked
+const OPTIONS: SecureStore.SecureStoreOptions = { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK };
+
+const countKey = (key: string) => `${key}.chunks`;
+const chunkKey = (key: string, index: number) => `${key}.${index}`;
+
+async function removeChunks(key: string) {
+  const count = Number(await SecureStore.getItemAsync(countKey(key), OPTIONS)) || 0;
+  await Promise.all(
+    Array.from({ length: count }, (_, index) => SecureStore.deleteItemAsync(chunkKey(key, index), OPTIONS))
+  );
+  await SecureStore.deleteItemAsync(countKey(key), OPTIONS);
+}
+
+export const secureStorage = {
+  async getItem(key: string) {
+    const count = Number(await SecureStore.getItemAsync(countKey(key), OPTIONS)) || 0;
+    if (count === 0) return null;
+    const chunks = await Promise.all(
+      Array.from({ length: count }, (_, index) => SecureStore.getItemAsync(chunkKey(key, index), OPTIONS))
+    );
+    // A write interrupted halfway leaves gaps; treat it as signed out rather than parse garbage
+    return chunks.every((chunk) => chunk != null) ? chunks.join('') : null;
+  },
+
+  async setItem(key: string, value: string) {
+    await removeChunks(key);
+    const chunks = value.match(new RegExp(`[\\s\\S]{1,${CHUNK_SIZE}}`, 'g')) ?? [''];
+    await Promise.all(chunks.map((chunk, index) => SecureStore.setItemAsync(chunkKey(key, index), chunk, OPTIONS)));
+    // Written last so a reader never sees a count for chunks that aren't there yet
+    await SecureStore.setItemAsync(countKey(key), String(chunks.length), OPTIONS);
+  },
+
+  async removeItem(key: string) {
+    await removeChunks(key);
+  },
+};
@@ -0,0 +1,109 @@
+import type { Session, User } from '@supabase/supabase-js';
+import { createContext, PropsWithChildren, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Profile, ProfilePatch, RepoResult, useRepository } from './data';
+import { supabase } from './supabase';
+import { clearUndoAction } from './undo';
+
+/**
+ * The signed-in user, their session and profile, shared app-wide. Screens
+ * read these instead of asking Supabase themselves, so they all see sign-in,
+ * sign-out and account switches at the same moment.
+ */
+
+export type SessionState = {
+  session: Session | null;
+  user: User | null;
+  userId: string | null;
+  profile: Profile | null;
+  /** True until the stored session has been read */
+  loading: boolean;
+  /** True while the profile of a newly signed-in user is loading */
+  profileLoading: boolean;
+  /** Why the profile couldn't be loaded or saved */
+  error: string | null;
+  reloadProfile(): Promise<void>;
+  saveProfile(patch: ProfilePatch): Promise<RepoResult<Profile>>;
+};
+
+const SessionContext = createContext<SessionState | null>(null);
+
+export function AuthProvider({ children }: PropsWithChildren) {
+  const { profile: profiles } = useRepository();
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Tagged with its owner so a switch of user never shows the previous profile, not even for a render
+  const [loaded, setLoaded] = useState<{ userId: string; profile: Profile | null } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const userId = session?.user.id ?? null;
+  const profile = loaded && loaded.userId === userId ? loaded.profile : null;
+  const profileLoading = userId != null && loaded?.userId !== userId && error == null;
+  // Guards against a slow profile load finishing after the user changed
+  const currentUser = useRef<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+      setLoading(false);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const reloadProfile = useCallback(async () => {
+    const requestedFor = currentUser.current;
+    if (!requestedFor) return;
+    const { data, error: getErr } = await profiles.get();
+    if (currentUser.current !== requestedFor) return;
+    if (getErr) setError(getErr.message);
+    else {
+      setLoaded({ userId: requestedFor, profile: data });
+      setError(null);
+    }
+  }, [profiles]);
+
+  // A pending undo belongs to the user who deleted the entry
+  useEffect(() => {
+    clearUndoAction();
+  }, [userId]);
+
+  useEffect(() => {
+    currentUser.current = userId;
+    setLoaded(null);
+    setError(null);
+    reloadProfile();
+  }, [userId, reloadProfile]);
+
+  const saveProfile = useCallback(async (patch: ProfilePatch) => {
+    const result = await profiles.upsert(patch);
+    if (result.error) setError(result.error.message);
+    else {
+      setLoaded({ userId: result.data.id, profile: result.data });
+      setError(null);
+    }
+    return result;
+  }, [profiles]);
+
+  const value = useMemo<SessionState>(() => ({
+    session,
+    user: session?.user ?? null,
+    userId,
+    profile,
+    loading,
+    profileLoading,
+    error,
+    reloadProfile,
+    saveProfile,
+  }), [session, userId, profile, loading, profileLoading, error, reloadProfile, saveProfile]);
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+}
+
+export function useSession() {
+  const value = useContext(SessionContext);
+  if (!value) throw new Error('useSession must be used inside <AuthProvider>');
+  return value;
+}
@@ -0,0 +1,122 @@
+import type { FoodEntry, Mood, UserStats } from './data';
+
+/**
+ * Lifetime statistics for the Profile tab and anywhere else that wants them.
+ * The server computes them with the `user_stats` RPC; `computeStats` applies
+ * the same rules to entries already on the device.
+ */
+
+export type StatRow = { key: string; label: string; value: string };
+
+export const EMPTY_STATS: UserStats = {
+  mood_entries: 0,
+  meals_logged: 0,
+  current_streak: 0,
+  longest_streak: 0,
+  average_mood_30d: null,
+  top_food: null,
+  top_food_count: 0,
+  joined_at: null,
+  days_since_joining: null,
+};
+
+const DAY_MS = 86_400_000;
+const AVERAGE_MOOD_DAYS = 30;
+
+const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? '' : 's'}`;
+
+/** Whole days between two YYYY-MM-DD dates */
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/** Same rules as the `user_stats` RPC, with calendar days counted in `timeZone` */
+export function computeStats({
+  moods,
+  food,
+  joinedAt,
+  timeZone,
+  now = new Date(),
+}: {
+  moods: Pick<Mood, 'created_at' | 'mood'>[];
+  food: Pick<FoodEntry, 'created_at' | 'food_name'>[];
+  joinedAt: string | null;
+  timeZone: string;
+  now?: Date;
+}): UserStats {
+  // en-CA formats dates as YYYY-MM-DD
+  const format = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+  const dayOf = (at: string | Date) => format.format(new Date(at));
+  const today = dayOf(now);
+
+  const days = new Set<string>();
+  for (const entry of [...moods, ...food]) {
+    if (entry.created_at) days.add(dayOf(entry.created_at));
+  }
+  const sorted = [...days].sort();
+  let longest = 0;
+  let run = 0;
+  sorted.forEach((day, i) => {
+    run = i > 0 && daysBetween(sorted[i - 1], day) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  // The last run is the current streak if it reaches today or yesterday
+  const last = sorted[sorted.length - 1];
+  const current = last && daysBetween(last, today) <= 1 ? run : 0;
+
+  const since = now.getTime() - AVERAGE_MOOD_DAYS * DAY_MS;
+  const recent = moods.filter((m) => m.mood != null && m.created_at && Date.parse(m.created_at) >= since);
+  const average = recent.length > 0
+    ? Math.round((recent.reduce((sum, m) => sum + (m.mood as number), 0) / recent.length) * 100) / 100
+    : null;
+
+  // Names match case-insensitively; the most common spelling is shown, the latest wins ties
+  const foods = new Map<string, { count: number; latest: string; spellings: Map<string, number> }>();
+  for (const entry of food) {
+    const key = entry.food_name.trim().toLowerCase();
+    const group = foods.get(key) ?? { count: 0, latest: '', spellings: new Map<string, number>() };
+    group.count++;
+    if (entry.created_at && entry.created_at > group.latest) group.latest = entry.created_at;
+    group.spellings.set(entry.food_name, (group.spellings.get(entry.food_name) ?? 0) + 1);
+    foods.set(key, group);
+  }
+  const top = [...foods.values()].sort((a, b) => b.count - a.count || b.latest.localeCompare(a.latest))[0];
+  const topName = top
+    ? [...top.spellings.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0]
+    : null;
+
+  return {
+    mood_entries: moods.length,
+    meals_logged: food.length,
+    current_streak: current,
+    longest_streak: longest,
+    average_mood_30d: average,
+    top_food: topName,
+    top_food_count: top?.count ?? 0,
+    joined_at: joinedAt,
+    days_since_joining: joinedAt ? daysBetween(dayOf(joinedAt), today) : null,
+  };
+}
+
+/** Labelled, formatted values in display order */
+export function statRows(stats: UserStats): StatRow[] {
+  return [
+    { key: 'moods', label: 'Mood entries', value: String(stats.mood_entries) },
+    { key: 'meals', label: 'Meals logged', value: String(stats.meals_logged) },
+    { key: 'current-streak', label: 'Current streak', value: plural(stats.current_streak, 'day') },
+    { key: 'longest-streak', label: 'Longest streak', value: plural(stats.longest_streak, 'day') },
+    {
+      key: 'average-mood',
+      label: `Average mood (${AVERAGE_MOOD_DAYS} days)`,
+      value: stats.average_mood_30d != null ? `${stats.average_mood_30d.toFixed(1)} / 5` : '–',
+    },
+    {
+      key: 'top-food',
+      label: 'Most-logged food',
+      value: stats.top_food ? `${stats.top_food} (${plural(stats.top_food_count, 'time')})` : '–',
+    },
+    {
+      key: 'joined',
+      label: 'Days since joining',
+      value: stats.days_since_joining != null ? String(stats.days_since_joining) : '–',
+    },
+  ];
+}
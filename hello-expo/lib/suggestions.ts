@@ -0,0 +1,65 @@
+import type { FoodEntry } from './data';
+
+/**
+ * "Recent & frequent" food suggestions ranked from the user's own history.
+ * A food scores higher the more often it was logged, the more recently, and
+ * the closer its usual time of day is to now, so coffee surfaces at 8am and
+ * not at 8pm. Pure, like `insights.ts`.
+ */
+
+export type FoodSuggestion = {
+  key: string;
+  /** The most recent entry for this food; its name and nutrition get re-logged */
+  entry: FoodEntry;
+  count: number;
+  score: number;
+};
+
+/** How much history is worth ranking */
+export const SUGGESTION_HISTORY_DAYS = 60;
+
+const DAY_MS = 86_400_000;
+// Entries within about an hour and a half of now count almost fully
+const TIME_OF_DAY_SPREAD_HOURS = 1.5;
+const RECENCY_HALF_LIFE_DAYS = 7;
+
+const foodKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Distance between two times of day, wrapping around midnight */
+function hourDistance(a: number, b: number) {
+  const d = Math.abs(a - b) % 24;
+  return Math.min(d, 24 - d);
+}
+
+export function suggestFoods(history: FoodEntry[], now = new Date(), limit = 8): FoodSuggestion[] {
+  const nowHour = now.getHours() + now.getMinutes() / 60;
+  const groups = new Map<string, { entry: FoodEntry; latest: number; hours: number[] }>();
+
+  for (const entry of history) {
+    if (!entry.created_at || !entry.food_name.trim()) continue;
+    const at = new Date(entry.created_at);
+    if (at.getTime() > now.getTime()) continue;
+    const key = foodKey(entry.food_name);
+    const group = groups.get(key) ?? { entry, latest: 0, hours: [] };
+    if (at.getTime() >= group.latest) {
+      group.entry = entry;
+      group.latest = at.getTime();
+    }
+    group.hours.push(at.getHours() + at.getMinutes() / 60);
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()]
+    .map(([key, { entry, latest, hours }]) => {
+      const frequency = Math.log1p(hours.length);
+      const daysAgo = (now.getTime() - latest) / DAY_MS;
+      const recency = Math.pow(0.5, daysAgo / RECENCY_HALF_LIFE_DAYS);
+      // Share of this food's entries logged around the current time of day
+      const timeOfDay =
+        hours.reduce((sum, h) => sum + Math.exp(-((hourDistance(h, nowHour) / TIME_OF_DAY_SPREAD_HOURS) ** 2)), 0) /
+        hours.length;
+      return { key, entry, count: hours.length, score: frequency * (0.25 + timeOfDay) + recency };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
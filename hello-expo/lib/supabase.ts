@@ -0,0 +1,43 @@
+import { createClient } from '@supabase/supabase-js';
+import { AppState, Platform } from 'react-native';
+import type { Database } from './database.types';
+import { secureStorage } from './secureStorage';
+
+const url = process.env.EXPO_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.EXPO_PUBLIC_SUPABASE_KEY;
+
+// Helpful runtime guard so you don't get the vague "supabaseUrl is required"
+if (!url) throw new Error('Missing EXPO_PUBLIC_SUPABASE_URL');
+if (!anonKey) throw new Error('Missing EXPO_PUBLIC_SUPABASE_KEY');
+
+const native = Platform.OS !== 'web';
+
+export const supabase = createClient<Database>(url, anonKey, {
+  auth: {
+    // The web build keeps supabase-js' default localStorage
+    ...(native ? { storage: secureStorage } : {}),
+    persistSession: true,
+    autoRefreshToken: true,
+    // Redirects are finished by app/auth/callback, on every platform
+    detectSessionInUrl: false,
+  },
+});
+
+/**
+ * Refreshes the session token only while the app is in the foreground.
+ * supabase-js does this itself in browsers; on native it has no way to know
+ * when the app is backgrounded. Returns a cleanup for use in an effect.
+ */
+export function startSessionRefresh() {
+  if (!native) return () => {};
+
+  if (AppState.currentState === 'active') supabase.auth.startAutoRefresh();
+  const subscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') supabase.auth.startAutoRefresh();
+    else supabase.auth.stopAutoRefresh();
+  });
+  return () => {
+    subscription.remove();
+    supabase.auth.stopAutoRefresh();
+  };
+}
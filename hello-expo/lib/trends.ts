@@ -0,0 +1,204 @@
+import type { Mood } from './data';
+
+/**
+ * Mood trend aggregation: per-period averages with min/max, logging streaks
+ * and calendar heatmap cells. Pure functions over already-loaded entries.
+ * Calendar days are those of the `timeZone` passed in, or of the device when
+ * it is omitted.
+ */
+
+export type Granularity = 'day' | 'week' | 'month';
+
+/** 0 = Sunday, 1 = Monday, ... */
+export type WeekStart = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export type TrendBucket = {
+  key: string;
+  start: Date;
+  average: number;
+  min: number;
+  max: number;
+  count: number;
+};
+
+export type Streak = { current: number; longest: number };
+
+export type HeatmapDay = { key: string; date: Date; average: number | null };
+
+const DAY_MS = 86_400_000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock date and time of `date` in `timeZone`; months count from 0 as in Date */
+function zonedParts(date: Date, timeZone: string) {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+  const parts: Record<string, number> = {};
+  for (const { type, value } of format.formatToParts(date)) parts[type] = Number(value);
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/** How far `timeZone` is ahead of UTC at `ms`, in milliseconds */
+function offsetAt(ms: number, timeZone: string) {
+  const p = zonedParts(new Date(ms), timeZone);
+  return Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second) - (ms - (ms % 1000));
+}
+
+/**
+ * The instant a calendar date starts in `timeZone`, or in the device's zone
+ * when it is omitted. Out-of-range days and months roll over as in `new Date`.
+ */
+export function zonedDate(year: number, month: number, day: number, timeZone?: string) {
+  if (!timeZone) return new Date(year, month, day);
+  const wall = Date.UTC(year, month, day);
+  // The second pass corrects days on which the zone's offset changes
+  const guess = wall - offsetAt(wall, timeZone);
+  return new Date(wall - offsetAt(guess, timeZone));
+}
+
+/** Calendar date of `date` in `timeZone`, or in the device's zone when it is omitted */
+export function calendarDate(date: Date, timeZone?: string) {
+  if (!timeZone) return { year: date.getFullYear(), month: date.getMonth(), day: date.getDate() };
+  const { year, month, day } = zonedParts(date, timeZone);
+  return { year, month, day };
+}
+
+export function startOfDay(date: Date, timeZone?: string) {
+  const { year, month, day } = calendarDate(date, timeZone);
+  return zonedDate(year, month, day, timeZone);
+}
+
+export function startOfWeek(date: Date, weekStartsOn: WeekStart = 1, timeZone?: string) {
+  const { year, month, day } = calendarDate(date, timeZone);
+  const weekday = new Date(Date.UTC(year, month, day)).getUTCDay();
+  const offset = (weekday - weekStartsOn + 7) % 7;
+  return zonedDate(year, month, day - offset, timeZone);
+}
+
+export function startOfMonth(date: Date, timeZone?: string) {
+  const { year, month } = calendarDate(date, timeZone);
+  return zonedDate(year, month, 1, timeZone);
+}
+
+/** Calendar date as YYYY-MM-DD, in `timeZone` or the device's zone */
+export function dateKey(date: Date, timeZone?: string) {
+  const { year, month, day } = calendarDate(date, timeZone);
+  const mm = String(month + 1).padStart(2, '0');
+  const dd = String(day).padStart(2, '0');
+  return `${year}-${mm}-${dd}`;
+}
+
+/** Start of the day `days` after the one containing `date` */
+export function addDays(date: Date, days: number, timeZone?: string) {
+  const { year, month, day } = calendarDate(date, timeZone);
+  return zonedDate(year, month, day + days, timeZone);
+}
+
+export function periodStart(date: Date, granularity: Granularity, weekStartsOn: WeekStart = 1, timeZone?: string) {
+  if (granularity === 'week') return startOfWeek(date, weekStartsOn, timeZone);
+  if (granularity === 'month') return startOfMonth(date, timeZone);
+  return startOfDay(date, timeZone);
+}
+
+function scored(moods: Mood[]) {
+  return moods
+    .filter((m) => m.mood != null && m.created_at)
+    .map((m) => ({ at: new Date(m.created_at as string), mood: m.mood as number }));
+}
+
+/** Average, min and max mood per day, week or month, oldest first */
+export function aggregateMoods(
+  moods: Mood[],
+  granularity: Granularity,
+  weekStartsOn: WeekStart = 1,
+  timeZone?: string
+): TrendBucket[] {
+  const buckets = new Map<string, { start: Date; values: number[] }>();
+
+  for (const { at, mood } of scored(moods)) {
+    const start = periodStart(at, granularity, weekStartsOn, timeZone);
+    const key = dateKey(start, timeZone);
+    const bucket = buckets.get(key) ?? { start, values: [] };
+    bucket.values.push(mood);
+    buckets.set(key, bucket);
+  }
+
+  return [...buckets.entries()]
+    .map(([key, { start, values }]) => ({
+      key,
+      start,
+      average: values.reduce((sum, v) => sum + v, 0) / values.length,
+      min: Math.min(...values),
+      max: Math.max(...values),
+      count: values.length,
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Consecutive days with at least one entry. The current streak stays alive
+ * until the end of today, so a streak through yesterday still counts.
+ */
+export function moodStreak(moods: Mood[], today = new Date(), timeZone?: string): Streak {
+  const days = new Set(scored(moods).map(({ at }) => dateKey(at, timeZone)));
+  if (days.size === 0) return { current: 0, longest: 0 };
+
+  const sorted = [...days].sort();
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = Math.round((Date.parse(sorted[i]) - Date.parse(sorted[i - 1])) / DAY_MS);
+    run = gap === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  let cursor = startOfDay(today, timeZone);
+  if (!days.has(dateKey(cursor, timeZone))) cursor = addDays(cursor, -1, timeZone);
+  let current = 0;
+  while (days.has(dateKey(cursor, timeZone))) {
+    current++;
+    cursor = addDays(cursor, -1, timeZone);
+  }
+
+  return { current, longest };
+}
+
+/**
+ * One cell per day for the last `weeks` full weeks ending with the current
+ * week, laid out week by week from `weekStartsOn`.
+ */
+export function heatmapDays(
+  moods: Mood[],
+  weeks = 13,
+  today = new Date(),
+  weekStartsOn: WeekStart = 1,
+  timeZone?: string
+): HeatmapDay[] {
+  const daily = new Map(aggregateMoods(moods, 'day', weekStartsOn, timeZone).map((b) => [b.key, b.average]));
+  const first = addDays(startOfWeek(today, weekStartsOn, timeZone), -7 * (weeks - 1), timeZone);
+
+  return Array.from({ length: weeks * 7 }, (_, i) => {
+    const date = addDays(first, i, timeZone);
+    const key = dateKey(date, timeZone);
+    return { key, date, average: daily.get(key) ?? null };
+  });
+}
@@ -0,0 +1,45 @@
+import type { RepoResult } from './data';
+
+/**
+ * The most recent undoable action, e.g. a deleted entry. Detail screens set
+ * it before navigating away; the list screen underneath shows an undo bar.
+ */
+export type UndoAction = {
+  message: string;
+  undo: () => Promise<RepoResult<unknown>>;
+  /** Runs once the action can no longer be undone, e.g. to delete what the undo would need */
+  expire?: () => Promise<void>;
+};
+
+type Listener = (action: UndoAction | null) => void;
+
+let current: UndoAction | null = null;
+const listeners = new Set<Listener>();
+
+/** Replaces the current action, expiring it unless it has just been undone */
+export function setUndoAction(action: UndoAction | null, { undone = false } = {}) {
+  const previous = current;
+  current = action;
+  if (previous && previous !== action && !undone) {
+    previous.expire?.().catch((err) => console.warn('Expiring undo action failed:', err));
+  }
+  listeners.forEach((listener) => listener(current));
+}
+
+/**
+ * Drops the current action without undoing or expiring it. Used when the
+ * signed-in user changes: neither may then run under the other user's session.
+ */
+export function clearUndoAction() {
+  if (!current) return;
+  current = null;
+  listeners.forEach((listener) => listener(null));
+}
+
+export function subscribeUndo(listener: Listener) {
+  listeners.add(listener);
+  listener(current);
+  return () => {
+    listeners.delete(listener);
+  };
+}
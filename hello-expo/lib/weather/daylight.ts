@@ -0,0 +1,19 @@
+/**
+ * Hours of daylight at `lat` on the day of `date`, from the sun's declination.
+ * Accurate to a few minutes, which is plenty for correlating with mood; used
+ * when a provider doesn't report sunrise and sunset.
+ */
+export function daylightHours(lat: number, date: Date) {
+  const start = Date.UTC(date.getUTCFullYear(), 0, 0);
+  const dayOfYear = Math.floor((date.getTime() - start) / 86_400_000);
+  const declination = 23.44 * Math.sin(((2 * Math.PI) / 365) * (dayOfYear - 81));
+  const rad = Math.PI / 180;
+  // -0.833° accounts for refraction and the sun's radius at sunrise and sunset
+  const cosHourAngle =
+    (Math.sin(-0.833 * rad) - Math.sin(lat * rad) * Math.sin(declination * rad)) /
+    (Math.cos(lat * rad) * Math.cos(declination * rad));
+  // Polar day and polar night
+  if (cosHourAngle <= -1) return 24;
+  if (cosHourAngle >= 1) return 0;
+  return (2 * Math.acos(cosHourAngle)) / rad / 15;
+}
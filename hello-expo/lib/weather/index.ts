@@ -0,0 +1,150 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Mood, NewMood } from '../data';
+import { formatTemperature, Units } from '../preferences';
+import { mockWeatherProvider } from './mock';
+import { remoteWeatherProvider } from './remote';
+import type { WeatherProvider, WeatherReading } from './types';
+
+export type { WeatherProvider, WeatherReading } from './types';
+export { daylightHours } from './daylight';
+export { mockWeatherProvider } from './mock';
+export { remoteWeatherProvider } from './remote';
+
+/** The weather columns stored on a mood entry */
+export type WeatherFields = Pick<
+  Mood,
+  'weather' | 'weather_code' | 'temperature' | 'humidity' | 'pressure' | 'daylight_hours' | 'weather_observed_at'
+>;
+
+const CACHE_KEY = 'weather-cache:v1';
+const MAX_CACHED = 200;
+const HOUR_MS = 3_600_000;
+/** Older than this, a lookup asks for history instead of current conditions */
+const HISTORICAL_AFTER_MS = HOUR_MS;
+/** Without history, current conditions stand in for times up to this long ago */
+const CURRENT_FALLBACK_MS = 3 * HOUR_MS;
+
+let provider: WeatherProvider | null =
+  process.env.EXPO_PUBLIC_WEATHER_PROVIDER === 'mock' ? mockWeatherProvider : remoteWeatherProvider;
+let cache: Map<string, WeatherReading> | null = null;
+
+/** Swaps the weather source, e.g. for the mock provider in tests. null turns weather off. */
+export function setWeatherProvider(next: WeatherProvider | null) {
+  provider = next;
+  cache = new Map();
+}
+
+/**
+ * Readings are shared within about a kilometre (two decimal places) and the
+ * same clock hour, so saving several entries in a row costs one request.
+ */
+function cacheKey(lat: number, lng: number, at: Date) {
+  return `${lat.toFixed(2)},${lng.toFixed(2)}@${Math.floor(at.getTime() / HOUR_MS)}`;
+}
+
+async function loadCache() {
+  if (!cache) {
+    try {
+      const raw = await AsyncStorage.getItem(CACHE_KEY);
+      cache = new Map(raw ? JSON.parse(raw) : []);
+    } catch (err) {
+      console.warn('Weather cache load failed:', err);
+      cache = new Map();
+    }
+  }
+  return cache;
+}
+
+async function remember(key: string, reading: WeatherReading) {
+  const entries = await loadCache();
+  entries.set(key, reading);
+  // Maps iterate in insertion order, so the first keys are the oldest
+  for (const old of entries.keys()) {
+    if (entries.size <= MAX_CACHED) break;
+    entries.delete(old);
+  }
+  await AsyncStorage.setItem(CACHE_KEY, JSON.stringify([...entries])).catch((err) =>
+    console.warn('Weather cache save failed:', err)
+  );
+}
+
+async function lookup(source: WeatherProvider, lat: number, lng: number, at: Date) {
+  const age = Date.now() - at.getTime();
+  if (age < HISTORICAL_AFTER_MS) return source.current(lat, lng);
+  const past = source.historical ? await source.historical(lat, lng, at) : null;
+  if (past) return past;
+  return age < CURRENT_FALLBACK_MS ? source.current(lat, lng) : null;
+}
+
+/**
+ * Weather at a place, now or at an earlier time. Never throws: without a
+ * provider, without connectivity or without data it resolves to null.
+ */
+export async function getWeather(lat: number, lng: number, at = new Date()): Promise<WeatherReading | null> {
+  const source = provider;
+  if (!source) return null;
+
+  const key = cacheKey(lat, lng, at);
+  const cached = (await loadCache()).get(key);
+  if (cached) return cached;
+
+  try {
+    const reading = await lookup(source, lat, lng, at);
+    if (reading) await remember(key, reading);
+    return reading;
+  } catch (err) {
+    console.warn('Weather fetch failed:', err);
+    return null;
+  }
+}
+
+const round = (value: number | null, digits: number) =>
+  value == null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+export function weatherFields(reading: WeatherReading): WeatherFields {
+  return {
+    weather: reading.condition,
+    weather_code: reading.conditionCode,
+    temperature: round(reading.temperature, 1),
+    humidity: round(reading.humidity, 0),
+    pressure: round(reading.pressure, 1),
+    daylight_hours: round(reading.daylightHours, 2),
+    weather_observed_at: reading.observedAt,
+  };
+}
+
+/**
+ * Fills in the weather for an entry that has a location but no weather yet,
+ * as of when the entry was created. Returns the entry unchanged if the
+ * weather still can't be found.
+ */
+export async function withWeather<T extends Pick<NewMood, 'lat' | 'lng' | 'weather' | 'created_at'>>(entry: T) {
+  if (entry.lat == null || entry.lng == null || entry.weather != null) return entry;
+  const at = entry.created_at ? new Date(entry.created_at) : new Date();
+  const reading = await getWeather(entry.lat, entry.lng, at);
+  return reading ? { ...entry, ...weatherFields(reading) } : entry;
+}
+
+export function weatherEmoji(code: number | null) {
+  if (code == null) return '🌤️';
+  if (code < 300) return '⛈️';
+  if (code < 600) return '🌧️';
+  if (code < 700) return '❄️';
+  if (code < 800) return '🌫️';
+  if (code === 800) return '☀️';
+  return code <= 802 ? '⛅' : '☁️';
+}
+
+/** e.g. "☁️ Clouds, 18.2°C • 💧 65% • 1013 hPa • 🌅 14.2h daylight"; empty without weather */
+export function formatWeather(entry: Partial<WeatherFields>, units: Units = 'metric') {
+  if (!entry.weather && entry.temperature == null) return '';
+  const main = [
+    entry.weather ? `${weatherEmoji(entry.weather_code ?? null)} ${entry.weather}` : null,
+    entry.temperature != null ? formatTemperature(entry.temperature, units) : null,
+  ].filter(Boolean).join(', ');
+  const parts = [main];
+  if (entry.humidity != null) parts.push(`💧 ${entry.humidity}%`);
+  if (entry.pressure != null) parts.push(`${Math.round(entry.pressure)} hPa`);
+  if (entry.daylight_hours != null) parts.push(`🌅 ${entry.daylight_hours.toFixed(1)}h daylight`);
+  return parts.join(' • ');
+}
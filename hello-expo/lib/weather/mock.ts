@@ -0,0 +1,45 @@
+import { daylightHours } from './daylight';
+import type { WeatherProvider, WeatherReading } from './types';
+
+/**
+ * Deterministic fake weather for tests, demos and development without an
+ * API key. The same place and hour always gives the same reading, and it
+ * supports historical lookups, so backfilling can be exercised offline.
+ */
+
+const CONDITIONS: [code: number, name: string][] = [
+  [800, 'Clear'],
+  [802, 'Clouds'],
+  [500, 'Rain'],
+  [701, 'Mist'],
+  [600, 'Snow'],
+  [200, 'Thunderstorm'],
+];
+
+function reading(lat: number, lng: number, at: Date): WeatherReading {
+  const hour = Math.floor(at.getTime() / 3_600_000);
+  // Cheap integer hash of the place and hour
+  const seed = Math.abs((Math.round(lat * 100) * 73_856_093) ^ (Math.round(lng * 100) * 19_349_663) ^ (hour * 83_492_791));
+  const [conditionCode, condition] = CONDITIONS[seed % CONDITIONS.length];
+  const daylight = daylightHours(lat, at);
+  return {
+    condition,
+    conditionCode,
+    temperature: Math.round((daylight - 4 + (seed % 80) / 10) * 10) / 10,
+    humidity: 40 + (seed % 50),
+    pressure: 990 + (seed % 40),
+    daylightHours: daylight,
+    observedAt: new Date(hour * 3_600_000).toISOString(),
+    source: 'mock',
+  };
+}
+
+export const mockWeatherProvider: WeatherProvider = {
+  name: 'mock',
+  async current(lat, lng) {
+    return reading(lat, lng, new Date());
+  },
+  async historical(lat, lng, at) {
+    return reading(lat, lng, at);
+  },
+};
@@ -0,0 +1,26 @@
+import { invokeFunction } from '../functions';
+import { daylightHours } from './daylight';
+import type { WeatherProvider, WeatherReading } from './types';
+
+/**
+ * Weather through the `weather` Edge Function, which holds the
+ * OpenWeatherMap key. Daylight is computed here when the upstream API
+ * didn't report sunrise and sunset.
+ */
+
+async function fetchReading(lat: number, lng: number, at?: Date): Promise<WeatherReading | null> {
+  const { data, error } = await invokeFunction('weather', { lat, lng, at: at?.toISOString() });
+  if (error) throw new Error(error.message);
+  const { reading } = data;
+  if (!reading) return null;
+  return {
+    ...reading,
+    daylightHours: reading.daylightHours ?? daylightHours(lat, new Date(reading.observedAt)),
+  };
+}
+
+export const remoteWeatherProvider: WeatherProvider = {
+  name: 'remote',
+  current: (lat, lng) => fetchReading(lat, lng),
+  historical: (lat, lng, at) => fetchReading(lat, lng, at),
+};
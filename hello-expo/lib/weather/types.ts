@@ -0,0 +1,31 @@
+/** Conditions at a place and time, in metric units */
+export type WeatherReading = {
+  /** Short condition name, e.g. "Clouds" */
+  condition: string;
+  /** OpenWeatherMap condition id (2xx thunderstorm … 800 clear, 80x clouds); other providers map onto it */
+  conditionCode: number | null;
+  /** °C */
+  temperature: number | null;
+  /** Relative humidity, % */
+  humidity: number | null;
+  /** Sea-level pressure, hPa */
+  pressure: number | null;
+  /** Hours between sunrise and sunset on that day */
+  daylightHours: number | null;
+  /** The time the reading is for, ISO 8601 */
+  observedAt: string;
+  /** Name of the provider that answered */
+  source: string;
+};
+
+/**
+ * A source of weather data. `current` is required; `historical` is optional
+ * and used when backfilling entries that were saved without weather.
+ */
+export interface WeatherProvider {
+  name: string;
+  /** Throws on transport errors */
+  current(lat: number, lng: number): Promise<WeatherReading | null>;
+  /** null when the provider has no data for that time; throws on transport errors */
+  historical?(lat: number, lng: number, at: Date): Promise<WeatherReading | null>;
+}
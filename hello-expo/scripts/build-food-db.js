@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+
+/**
+ * Builds assets/data/foods.json from a USDA FoodData Central CSV export
+ * (SR Legacy and/or Foundation Foods, https://fdc.nal.usda.gov/download-datasets).
+ *
+ * Usage: node ./scripts/build-food-db.js [path-to-export]
+ *
+ * The export may be an unzipped folder or the zip file itself. Without one,
+ * the SR Legacy export (about 7,800 foods) is downloaded from the USDA site;
+ * `npm run build:foods` does that.
+ *
+ * Output rows are compact tuples, all nutrients per 100 g:
+ *   [name, kcal, protein_g, carbs_g, fat_g, fiber_g, [[serving label, grams], ...]]
+ */
+
+const fs = require("fs");
+const path = require("path");
+const zlib = require("zlib");
+
+const SR_LEGACY_URL = "https://fdc.nal.usda.gov/fdc-datasets/FoodData_Central_sr_legacy_food_csv_2018-04.zip";
+const CSV_FILES = ["food.csv", "food_nutrient.csv", "food_portion.csv"];
+
+const NUTRIENTS = {
+  1008: 1, // Energy (kcal)
+  1003: 2, // Protein
+  1005: 3, // Carbohydrate, by difference
+  1004: 4, // Total lipid (fat)
+  1079: 5, // Fiber, total dietary
+};
+const DATA_TYPES = new Set(["sr_legacy_food", "foundation_food"]);
+
+/**
+ * The CSV files we need from a zip archive, by file name. Handles stored and
+ * deflated entries, which is all the FDC exports use; no zip64.
+ */
+function unzipCsvFiles(zip) {
+  // End of central directory: the last record, after an optional comment
+  let end = zip.length - 22;
+  while (end >= 0 && zip.readUInt32LE(end) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Not a zip file");
+
+  const files = {};
+  let offset = zip.readUInt32LE(end + 16);
+  const count = zip.readUInt16LE(end + 10);
+  for (let i = 0; i < count; i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = path.posix.basename(zip.toString("utf8", offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (!CSV_FILES.includes(name)) continue;
+
+    // The local header repeats the name and has its own extra field
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    if (method !== 0 && method !== 8) throw new Error(`${name} uses unsupported compression method ${method}`);
+    files[name] = (method === 8 ? zlib.inflateRawSync(data) : data).toString("utf8");
+  }
+  return files;
+}
+
+async function loadExport(source) {
+  if (!source) {
+    console.log(`Downloading ${SR_LEGACY_URL}`);
+    const res = await fetch(SR_LEGACY_URL);
+    if (!res.ok) throw new Error(`Download failed: HTTP ${res.status}`);
+    return unzipCsvFiles(Buffer.from(await res.arrayBuffer()));
+  }
+  if (fs.statSync(source).isFile()) return unzipCsvFiles(fs.readFileSync(source));
+  return Object.fromEntries(
+    CSV_FILES.map((name) => [name, fs.readFileSync(path.join(source, name), "utf8")])
+  );
+}
+
+function parseLine(line) {
+  const cells = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+function readCsv(files, name, onRow) {
+  if (files[name] == null) throw new Error(`The export has no ${name}`);
+  const lines = files[name].split(/\r?\n/);
+  const header = parseLine(lines[0]);
+  for (const line of lines.slice(1)) {
+    if (!line) continue;
+    const cells = parseLine(line);
+    onRow(Object.fromEntries(header.map((key, i) => [key, cells[i]])));
+  }
+}
+
+const round = (n) => Math.round(n * 10) / 10;
+
+async function main() {
+  const files = await loadExport(process.argv[2]);
+
+  const foods = new Map();
+  readCsv(files, "food.csv", (row) => {
+    if (!DATA_TYPES.has(row.data_type)) return;
+    foods.set(row.fdc_id, [row.description, 0, 0, 0, 0, 0, []]);
+  });
+
+  readCsv(files, "food_nutrient.csv", (row) => {
+    const food = foods.get(row.fdc_id);
+    const index = NUTRIENTS[row.nutrient_id];
+    if (food && index) food[index] = round(Number(row.amount) || 0);
+  });
+
+  readCsv(files, "food_portion.csv", (row) => {
+    const food = foods.get(row.fdc_id);
+    const grams = Number(row.gram_weight);
+    if (!food || !grams) return;
+    const label = [row.amount, row.modifier || row.portion_description].filter(Boolean).join(" ").trim();
+    if (label) food[6].push([label, round(grams)]);
+  });
+
+  const rows = [...foods.values()]
+    // Foods without an energy value are of no use for logging
+    .filter((food) => food[1] > 0 || food[2] > 0)
+    .map((food) => (food[6].length ? food : [...food.slice(0, 6), [["100 g", 100]]]))
+    .sort((a, b) => a[0].localeCompare(b[0]));
+
+  const outFile = path.join(__dirname, "..", "assets", "data", "foods.json");
+  fs.writeFileSync(outFile, "[\n" + rows.map((row) => JSON.stringify(row)).join(",\n") + "\n]\n");
+  console.log(`Wrote ${rows.length} foods to ${path.relative(process.cwd(), outFile)}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+/**
+ * Builds assets/data/products.json from the Open Food Facts CSV export
+ * (https://world.openfoodfacts.org/data, tab separated despite the name).
+ *
+ * Usage: node ./scripts/build-product-db.js [products.csv[.gz]] [country tag, e.g. en:united-states] [--limit=N]
+ *
+ * Without an export file the gzipped one is streamed from the Open Food Facts
+ * site; `npm run build:products` does that. The full export has millions of
+ * products, so only the N most scanned ones (20,000 by default) are kept.
+ *
+ * Output rows are compact tuples, all nutrients per 100 g (or 100 ml):
+ *   [barcode, name, brand, kcal, protein_g, carbs_g, fat_g, fiber_g, [[serving label, grams], ...]]
+ */
+
+const fs = require("fs");
+const path = require("path");
+const readline = require("readline");
+const { Readable } = require("stream");
+const zlib = require("zlib");
+
+const EXPORT_URL = "https://static.openfoodfacts.org/data/en.openfoodfacts.org.products.csv.gz";
+const DEFAULT_LIMIT = 20000;
+
+const args = process.argv.slice(2);
+const limitArg = args.find((arg) => arg.startsWith("--limit="));
+const limit = limitArg ? Number(limitArg.slice("--limit=".length)) : DEFAULT_LIMIT;
+const [csvFile, country] = args.filter((arg) => !arg.startsWith("--"));
+if (!(limit > 0)) {
+  console.error("Usage: node ./scripts/build-product-db.js [products.csv[.gz]] [country tag] [--limit=N]");
+  process.exit(1);
+}
+
+const round = (n) => Math.round(n * 10) / 10;
+const num = (value) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? round(n) : 0;
+};
+
+/** The export as a text stream, gunzipped when it is compressed */
+async function openExport(source) {
+  let input;
+  if (source) {
+    input = fs.createReadStream(source);
+  } else {
+    console.log(`Downloading ${EXPORT_URL}`);
+    const res = await fetch(EXPORT_URL);
+    if (!res.ok || !res.body) throw new Error(`Download failed: HTTP ${res.status}`);
+    input = Readable.fromWeb(res.body);
+  }
+  return !source || source.endsWith(".gz") ? input.pipe(zlib.createGunzip()) : input;
+}
+
+/**
+ * The app looks barcodes up in their EAN-13 form (see normalizeBarcode), but
+ * the export keeps UPC-A codes as 12 digits and some codes zero-padded to 14.
+ */
+function ean13(code) {
+  if (code.length === 12) return `0${code}`;
+  if (code.length === 14 && code.startsWith("0")) return code.slice(1);
+  return code.length === 8 || code.length === 13 ? code : null;
+}
+
+/** Most scanned first, so the products people actually buy are kept */
+const byScans = (a, b) => b.scans - a.scans;
+
+async function main() {
+  const lines = readline.createInterface({ input: await openExport(csvFile), crlfDelay: Infinity });
+  let header = null;
+  let rows = [];
+
+  for await (const line of lines) {
+    const cells = line.split("\t");
+    if (!header) {
+      header = Object.fromEntries(cells.map((name, i) => [name, i]));
+      continue;
+    }
+    const get = (name) => cells[header[name]] ?? "";
+
+    const barcode = ean13(get("code"));
+    const name = get("product_name").trim();
+    const kcal = get("energy-kcal_100g");
+    // Products without a name or an energy value are of no use for logging
+    if (!barcode || !/^\d+$/.test(barcode) || !name || kcal === "") continue;
+    if (country && !get("countries_tags").split(",").includes(country)) continue;
+
+    const servings = [];
+    const servingGrams = Number(get("serving_quantity"));
+    if (servingGrams > 0) servings.push([get("serving_size") || `${servingGrams} g`, round(servingGrams)]);
+    servings.push(["100 g", 100]);
+
+    rows.push({
+      scans: Number(get("unique_scans_n")) || 0,
+      row: [
+        barcode,
+        name.slice(0, 80),
+        get("brands").split(",")[0].trim(),
+        num(kcal),
+        num(get("proteins_100g")),
+        num(get("carbohydrates_100g")),
+        num(get("fat_100g")),
+        num(get("fiber_100g")),
+        servings,
+      ],
+    });
+    // Trim as we go so a world-wide export never has to fit in memory
+    if (rows.length >= limit * 2) rows = rows.sort(byScans).slice(0, limit);
+  }
+
+  // A product can appear under both its 12 and 13 digit code; keep the most scanned
+  const products = new Map();
+  for (const { row } of rows.sort(byScans)) {
+    if (!products.has(row[0]) && products.size < limit) products.set(row[0], row);
+  }
+  rows = [...products.values()].sort((a, b) => a[0].localeCompare(b[0]));
+  const outFile = path.join(__dirname, "..", "assets", "data", "products.json");
+  fs.writeFileSync(outFile, "[\n" + rows.map((row) => JSON.stringify(row)).join(",\n") + "\n]\n");
+  console.log(`Wrote ${rows.length} products to ${path.relative(process.cwd(), outFile)}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
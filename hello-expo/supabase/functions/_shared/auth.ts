@@ -0,0 +1,27 @@
+import { createClient, type SupabaseClient, type User } from 'jsr:@supabase/supabase-js@2';
+
+import { error } from './http.ts';
+
+export type Caller = { user: User; client: SupabaseClient };
+
+/**
+ * Verifies the caller's JWT and returns a client that acts as them, so
+ * database calls run under their row-level security. Returns an error
+ * response for anonymous or invalid tokens.
+ */
+export async function requireUser(req: Request): Promise<Caller | Response> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return error(401, 'unauthorized', 'Missing bearer token');
+  }
+
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data, error: authErr } = await client.auth.getUser(authorization.slice('Bearer '.length));
+  if (authErr || !data.user) {
+    return error(401, 'unauthorized', 'Invalid or expired session');
+  }
+  return { user: data.user, client };
+}
@@ -0,0 +1,29 @@
+/** Responses shared by every function: JSON bodies, CORS and one error shape. */
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+export function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/** Errors always look like `{ error: { code, message } }` */
+export function error(status: number, code: string, message: string) {
+  return json({ error: { code, message } }, status);
+}
+
+/** Parses a JSON request body; null for anything that isn't a JSON object */
+export async function readBody(req: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await req.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
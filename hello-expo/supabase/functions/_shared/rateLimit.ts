@@ -0,0 +1,36 @@
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+import type { Caller } from './auth.ts';
+import { error } from './http.ts';
+
+let admin: SupabaseClient | null = null;
+
+// consume_rate_limit is only executable by the service role, so callers
+// can't count calls for someone else or skip the check
+function adminClient() {
+  admin ??= createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+  return admin;
+}
+
+/**
+ * Counts this call against the verified caller's limit for `fn`; the limits
+ * themselves live in the database. Returns an error response once the limit
+ * is used up, or if the count can't be recorded — failing closed keeps a
+ * database problem from turning into an unmetered upstream bill.
+ */
+export async function checkRateLimit({ user }: Caller, fn: string): Promise<Response | null> {
+  const { data: allowed, error: rpcErr } = await adminClient().rpc('consume_rate_limit', {
+    caller: user.id,
+    fn,
+  });
+  if (rpcErr) {
+    console.error(`Rate limit check for ${fn} failed:`, rpcErr.message);
+    return error(503, 'unavailable', 'Please try again shortly');
+  }
+  if (!allowed) {
+    return error(429, 'rate_limited', `Too many ${fn} requests; try again in a few minutes`);
+  }
+  return null;
+}
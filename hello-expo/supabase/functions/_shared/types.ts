@@ -0,0 +1,35 @@
+/**
+ * Request and response bodies of the functions. The app declares the same
+ * shapes in lib/functions/types.ts; change both together.
+ */
+
+export type WeatherRequest = { lat: number; lng: number; at?: string };
+
+export type WeatherReading = {
+  condition: string;
+  conditionCode: number | null;
+  temperature: number | null;
+  humidity: number | null;
+  pressure: number | null;
+  /** null when the upstream API didn't report sunrise and sunset */
+  daylightHours: number | null;
+  observedAt: string;
+  source: string;
+};
+
+export type WeatherResponse = { reading: WeatherReading | null };
+
+export type NutritionRequest = { action: 'barcode'; barcode: string } | { action: 'search'; query: string };
+
+export type Macros = { calories: number; protein: number; carbs: number; fat: number; fiber: number };
+
+export type NutritionProduct = {
+  name: string;
+  brand: string | null;
+  barcode: string | null;
+  per100g: Macros;
+  servings: { label: string; grams: number }[];
+  source: string;
+};
+
+export type NutritionResponse = { products: NutritionProduct[] };
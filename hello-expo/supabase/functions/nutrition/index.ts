@@ -0,0 +1,46 @@
+import { requireUser } from '../_shared/auth.ts';
+import { corsHeaders, error, json, readBody } from '../_shared/http.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import type { NutritionResponse } from '../_shared/types.ts';
+import { createUsda } from './usda.ts';
+
+/**
+ * Product lookups by barcode and free-text food search.
+ * Secrets: FDC_API_KEY (USDA FoodData Central).
+ */
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return error(405, 'method_not_allowed', 'Use POST');
+
+  const caller = await requireUser(req);
+  if (caller instanceof Response) return caller;
+
+  const body = await readBody(req);
+  const barcode = body?.action === 'barcode' && typeof body.barcode === 'string' ? body.barcode : null;
+  const query = body?.action === 'search' && typeof body.query === 'string' ? body.query.trim() : null;
+  if (barcode != null && !/^\d{8}$|^\d{13}$/.test(barcode)) {
+    return error(400, 'invalid_request', 'barcode must be an EAN-8 or EAN-13');
+  }
+  if (query != null && (query.length < 2 || query.length > 100)) {
+    return error(400, 'invalid_request', 'query must be 2-100 characters');
+  }
+  if (barcode == null && query == null) {
+    return error(400, 'invalid_request', 'Send { action: "barcode", barcode } or { action: "search", query }');
+  }
+
+  const limited = await checkRateLimit(caller, 'nutrition');
+  if (limited) return limited;
+
+  const apiKey = Deno.env.get('FDC_API_KEY');
+  if (!apiKey) return error(500, 'not_configured', 'Nutrition lookups are not configured');
+
+  try {
+    const usda = createUsda(apiKey);
+    const products = barcode != null ? await usda.barcode(barcode) : await usda.search(query!);
+    return json({ products } satisfies NutritionResponse);
+  } catch (err) {
+    console.error('Nutrition lookup failed:', err);
+    return error(502, 'upstream_error', 'The nutrition service did not respond');
+  }
+});
@@ -0,0 +1,91 @@
+import type { Macros, NutritionProduct } from '../_shared/types.ts';
+
+/**
+ * USDA FoodData Central search. Nutrient values in search results are per
+ * 100 g for every data type, which is the basis the app works in.
+ */
+
+const SEARCH_URL = 'https://api.nal.usda.gov/fdc/v1/foods/search';
+
+type FdcFood = {
+  fdcId: number;
+  description: string;
+  brandOwner?: string;
+  brandName?: string;
+  gtinUpc?: string;
+  servingSize?: number;
+  servingSizeUnit?: string;
+  householdServingFullText?: string;
+  foodNutrients?: { nutrientId: number; value?: number }[];
+};
+
+// Energy is reported under the Atwater ids for some Foundation foods
+const NUTRIENT_IDS: Record<keyof Macros, number[]> = {
+  calories: [1008, 2047, 2048],
+  protein: [1003],
+  carbs: [1005],
+  fat: [1004],
+  fiber: [1079],
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function per100g(food: FdcFood): Macros {
+  const value = (ids: number[]) => {
+    for (const id of ids) {
+      const found = food.foodNutrients?.find((n) => n.nutrientId === id && n.value != null);
+      if (found?.value != null) return found.value;
+    }
+    return 0;
+  };
+  return {
+    calories: Math.round(value(NUTRIENT_IDS.calories)),
+    protein: round1(value(NUTRIENT_IDS.protein)),
+    carbs: round1(value(NUTRIENT_IDS.carbs)),
+    fat: round1(value(NUTRIENT_IDS.fat)),
+    fiber: round1(value(NUTRIENT_IDS.fiber)),
+  };
+}
+
+function toProduct(food: FdcFood): NutritionProduct {
+  const servings = [{ label: '100 g', grams: 100 }];
+  // Only gram-based serving sizes can be converted; "ml" servings are skipped
+  if (food.servingSize && food.servingSizeUnit?.toLowerCase() === 'g') {
+    const label = food.householdServingFullText
+      ? `${food.householdServingFullText} (${Math.round(food.servingSize)} g)`
+      : `1 serving (${Math.round(food.servingSize)} g)`;
+    servings.unshift({ label, grams: food.servingSize });
+  }
+  return {
+    name: food.description,
+    brand: food.brandName ?? food.brandOwner ?? null,
+    barcode: food.gtinUpc ?? null,
+    per100g: per100g(food),
+    servings,
+    source: 'usda',
+  };
+}
+
+export function createUsda(apiKey: string) {
+  const search = async (query: string, pageSize: number, dataType?: string) => {
+    const params = new URLSearchParams({ api_key: apiKey, query, pageSize: String(pageSize) });
+    if (dataType) params.set('dataType', dataType);
+    const resp = await fetch(`${SEARCH_URL}?${params}`);
+    if (!resp.ok) throw new Error(`FoodData Central error: ${resp.status}`);
+    const data: { foods?: FdcFood[] } = await resp.json();
+    return data.foods ?? [];
+  };
+
+  return {
+    async search(query: string): Promise<NutritionProduct[]> {
+      return (await search(query, 25)).map(toProduct);
+    },
+
+    /** `barcode` is the normalised EAN-8/EAN-13; FDC stores UPCs without the leading zero */
+    async barcode(barcode: string): Promise<NutritionProduct[]> {
+      const digits = barcode.replace(/^0+/, '');
+      const foods = await search(digits, 5, 'Branded');
+      return foods.filter((food) => food.gtinUpc?.replace(/^0+/, '') === digits).map(toProduct);
+    },
+  };
+}
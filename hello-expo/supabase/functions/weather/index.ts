@@ -0,0 +1,45 @@
+import { requireUser } from '../_shared/auth.ts';
+import { corsHeaders, error, json, readBody } from '../_shared/http.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import type { WeatherResponse } from '../_shared/types.ts';
+import { createOpenWeatherMap } from './openWeatherMap.ts';
+
+/**
+ * Weather for a place, now or at an earlier time (`at`, ISO 8601).
+ * Secrets: OPENWEATHER_API_KEY.
+ */
+
+const isCoordinate = (value: unknown, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= max;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return error(405, 'method_not_allowed', 'Use POST');
+
+  const caller = await requireUser(req);
+  if (caller instanceof Response) return caller;
+
+  const body = await readBody(req);
+  if (!body || !isCoordinate(body.lat, 90) || !isCoordinate(body.lng, 180)) {
+    return error(400, 'invalid_request', 'lat and lng must be valid coordinates');
+  }
+  const at = typeof body.at === 'string' ? new Date(body.at) : null;
+  if (at && (Number.isNaN(at.getTime()) || at.getTime() > Date.now() + 60_000)) {
+    return error(400, 'invalid_request', 'at must be a past ISO 8601 time');
+  }
+
+  const limited = await checkRateLimit(caller, 'weather');
+  if (limited) return limited;
+
+  const apiKey = Deno.env.get('OPENWEATHER_API_KEY');
+  if (!apiKey) return error(500, 'not_configured', 'Weather is not configured');
+
+  try {
+    const owm = createOpenWeatherMap(apiKey);
+    const reading = at ? await owm.historical(body.lat, body.lng, at) : await owm.current(body.lat, body.lng);
+    return json({ reading } satisfies WeatherResponse);
+  } catch (err) {
+    console.error('Weather lookup failed:', err);
+    return error(502, 'upstream_error', 'The weather service did not respond');
+  }
+});
@@ -0,0 +1,85 @@
+import type { WeatherReading } from '../_shared/types.ts';
+
+/**
+ * OpenWeatherMap. Current conditions use the free 2.5 API; historical
+ * readings need the One Call 3.0 "timemachine" endpoint, which is a separate
+ * subscription — without it `historical` reports no data rather than failing.
+ */
+
+const BASE_URL = 'https://api.openweathermap.org/data';
+
+type OwmCondition = { id: number; main: string };
+
+type OwmCurrent = {
+  dt: number;
+  weather?: OwmCondition[];
+  main?: { temp?: number; humidity?: number; pressure?: number };
+  sys?: { sunrise?: number; sunset?: number };
+};
+
+type OwmTimemachine = {
+  data?: {
+    dt: number;
+    sunrise?: number;
+    sunset?: number;
+    temp?: number;
+    humidity?: number;
+    pressure?: number;
+    weather?: OwmCondition[];
+  }[];
+};
+
+function daylight(sunrise?: number, sunset?: number) {
+  return sunrise && sunset && sunset > sunrise ? (sunset - sunrise) / 3600 : null;
+}
+
+export function createOpenWeatherMap(apiKey: string) {
+  const get = (path: string, params: Record<string, number>) => {
+    const query = new URLSearchParams({ appid: apiKey, units: 'metric' });
+    for (const [key, value] of Object.entries(params)) query.set(key, String(value));
+    return fetch(`${BASE_URL}/${path}?${query}`);
+  };
+
+  return {
+    async current(lat: number, lng: number): Promise<WeatherReading | null> {
+      const resp = await get('2.5/weather', { lat, lon: lng });
+      if (!resp.ok) throw new Error(`OpenWeatherMap error: ${resp.status}`);
+      const data: OwmCurrent = await resp.json();
+      const condition = data.weather?.[0];
+      if (!condition) return null;
+
+      return {
+        condition: condition.main,
+        conditionCode: condition.id,
+        temperature: data.main?.temp ?? null,
+        humidity: data.main?.humidity ?? null,
+        pressure: data.main?.pressure ?? null,
+        daylightHours: daylight(data.sys?.sunrise, data.sys?.sunset),
+        observedAt: new Date(data.dt * 1000).toISOString(),
+        source: 'openweathermap',
+      };
+    },
+
+    async historical(lat: number, lng: number, at: Date): Promise<WeatherReading | null> {
+      const resp = await get('3.0/onecall/timemachine', { lat, lon: lng, dt: Math.floor(at.getTime() / 1000) });
+      // Keys without a One Call subscription are refused; treat that as "no history"
+      if (resp.status === 401 || resp.status === 403) return null;
+      if (!resp.ok) throw new Error(`OpenWeatherMap error: ${resp.status}`);
+      const data: OwmTimemachine = await resp.json();
+      const hour = data.data?.[0];
+      const condition = hour?.weather?.[0];
+      if (!hour || !condition) return null;
+
+      return {
+        condition: condition.main,
+        conditionCode: condition.id,
+        temperature: hour.temp ?? null,
+        humidity: hour.humidity ?? null,
+        pressure: hour.pressure ?? null,
+        daylightHours: daylight(hour.sunrise, hour.sunset),
+        observedAt: new Date(hour.dt * 1000).toISOString(),
+        source: 'openweathermap',
+      };
+    },
+  };
+}
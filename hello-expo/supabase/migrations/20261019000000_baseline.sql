@@ -0,0 +1,53 @@
+-- Baseline schema for the mood journal and food tracker.
+-- `data` and `food_entries` already exist in the hosted project; they are
+-- recorded here so `supabase gen types` and local development match it.
+
+create table if not exists public.data (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  text text not null,
+  mood smallint check (mood between 1 and 5),
+  lat double precision,
+  lng double precision,
+  weather text,
+  temperature double precision,
+  created_at timestamptz default now()
+);
+
+create table if not exists public.food_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  food_name text not null,
+  calories integer,
+  meal_type text not null default 'breakfast',
+  rating smallint check (rating between 1 and 5),
+  notes text,
+  created_at timestamptz default now()
+);
+
+create index if not exists data_user_created_idx on public.data (user_id, created_at desc, id desc);
+create index if not exists food_entries_user_created_idx on public.food_entries (user_id, created_at desc, id desc);
+
+alter table public.data enable row level security;
+alter table public.food_entries enable row level security;
+
+drop policy if exists "Users manage their own mood entries" on public.data;
+create policy "Users manage their own mood entries" on public.data
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "Users manage their own food entries" on public.food_entries;
+create policy "Users manage their own food entries" on public.food_entries
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- One profile row per user
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  display_name text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "Users manage their own profile" on public.profiles
+  for all using (auth.uid() = id) with check (auth.uid() = id);
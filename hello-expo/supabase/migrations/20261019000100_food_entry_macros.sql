@@ -0,0 +1,6 @@
+-- Macronutrients logged alongside calories (grams, per entry)
+alter table public.food_entries
+  add column if not exists protein numeric(6, 1),
+  add column if not exists carbs numeric(6, 1),
+  add column if not exists fat numeric(6, 1),
+  add column if not exists fiber numeric(6, 1);
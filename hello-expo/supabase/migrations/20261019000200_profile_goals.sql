@@ -0,0 +1,7 @@
+-- Daily nutrition targets; null means no goal set for that nutrient
+alter table public.profiles
+  add column if not exists calorie_goal integer check (calorie_goal between 0 and 10000),
+  add column if not exists protein_goal numeric(6, 1) check (protein_goal >= 0),
+  add column if not exists carbs_goal numeric(6, 1) check (carbs_goal >= 0),
+  add column if not exists fat_goal numeric(6, 1) check (fat_goal >= 0),
+  add column if not exists fiber_goal numeric(6, 1) check (fiber_goal >= 0);
@@ -0,0 +1,49 @@
+-- Per-day food totals for the signed-in user, grouped by calendar day in the
+-- caller's time zone. Runs as the invoker, so row level security still applies.
+create or replace function public.food_summary(range_start timestamptz, range_end timestamptz, tz text default 'UTC')
+returns table (
+  day date,
+  entries integer,
+  calories integer,
+  protein numeric,
+  carbs numeric,
+  fat numeric,
+  fiber numeric,
+  rated_entries integer,
+  average_rating numeric,
+  meal_counts jsonb
+)
+language sql
+stable
+set search_path = public
+as $$
+  with scoped as (
+    select (f.created_at at time zone tz)::date as day, f.*
+    from food_entries f
+    where f.user_id = auth.uid()
+      and f.created_at >= range_start
+      and f.created_at < range_end
+  ),
+  meals as (
+    select m.day, jsonb_object_agg(m.meal_type, m.n) as meal_counts
+    from (select s.day, s.meal_type, count(*)::integer as n from scoped s group by s.day, s.meal_type) m
+    group by m.day
+  )
+  select
+    s.day,
+    count(*)::integer,
+    coalesce(sum(s.calories), 0)::integer,
+    coalesce(sum(s.protein), 0),
+    coalesce(sum(s.carbs), 0),
+    coalesce(sum(s.fat), 0),
+    coalesce(sum(s.fiber), 0),
+    count(s.rating)::integer,
+    round(avg(s.rating), 2),
+    m.meal_counts
+  from scoped s
+  join meals m on m.day = s.day
+  group by s.day, m.meal_counts
+  order by s.day;
+$$;
+
+grant execute on function public.food_summary(timestamptz, timestamptz, text) to authenticated;
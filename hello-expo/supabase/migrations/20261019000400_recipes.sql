@@ -0,0 +1,42 @@
+-- User-defined recipes and saved meals. Ingredient nutrition is copied from
+-- the app's food database when the ingredient is added, so later database
+-- updates don't silently change a saved recipe.
+
+create table if not exists public.recipes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  -- How many servings the ingredient list makes; 1 for a saved meal
+  servings numeric(5, 1) not null default 1 check (servings > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.recipe_ingredients (
+  id uuid primary key default gen_random_uuid(),
+  recipe_id uuid not null references public.recipes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  position smallint not null default 0,
+  food_name text not null,
+  serving_label text not null,
+  quantity numeric(6, 2) not null default 1 check (quantity > 0),
+  calories integer not null default 0,
+  protein numeric(6, 1) not null default 0,
+  carbs numeric(6, 1) not null default 0,
+  fat numeric(6, 1) not null default 0,
+  fiber numeric(6, 1) not null default 0
+);
+
+create index if not exists recipes_user_name_idx on public.recipes (user_id, name);
+create index if not exists recipe_ingredients_recipe_idx on public.recipe_ingredients (recipe_id, position);
+
+alter table public.recipes enable row level security;
+alter table public.recipe_ingredients enable row level security;
+
+drop policy if exists "Users manage their own recipes" on public.recipes;
+create policy "Users manage their own recipes" on public.recipes
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "Users manage their own recipe ingredients" on public.recipe_ingredients;
+create policy "Users manage their own recipe ingredients" on public.recipe_ingredients
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,24 @@
+-- User-configurable meal categories. `food_entries.meal_type` stores the
+-- category key; users without rows here get the app's built-in four.
+-- Time windows are minutes after local midnight and may wrap past it
+-- (start > end); a category without a window never gets picked by time.
+
+create table if not exists public.meal_categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  key text not null check (key ~ '^[a-z0-9_-]{1,40}$'),
+  label text not null check (char_length(label) between 1 and 40),
+  emoji text not null default '🍽️',
+  start_minute smallint check (start_minute between 0 and 1439),
+  end_minute smallint check (end_minute between 0 and 1440),
+  position smallint not null default 0,
+  created_at timestamptz not null default now(),
+  unique (user_id, key),
+  check ((start_minute is null) = (end_minute is null))
+);
+
+alter table public.meal_categories enable row level security;
+
+drop policy if exists "Users manage their own meal categories" on public.meal_categories;
+create policy "Users manage their own meal categories" on public.meal_categories
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
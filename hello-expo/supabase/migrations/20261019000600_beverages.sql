@@ -0,0 +1,113 @@
+-- Drinks, logged separately from food so hydration can be tracked in
+-- millilitres. Caffeine and alcohol are flags on the drink rather than
+-- amounts; alcoholic drinks don't count towards the water total.
+create table if not exists public.beverage_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  drink text not null default 'Water' check (char_length(drink) between 1 and 60),
+  volume_ml integer not null check (volume_ml between 1 and 5000),
+  caffeine boolean not null default false,
+  alcohol boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists beverage_entries_user_created_idx
+  on public.beverage_entries (user_id, created_at desc, id desc);
+
+alter table public.beverage_entries enable row level security;
+
+drop policy if exists "Users manage their own beverage entries" on public.beverage_entries;
+create policy "Users manage their own beverage entries" on public.beverage_entries
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Daily water target; null means the app default
+alter table public.profiles
+  add column if not exists water_goal_ml integer check (water_goal_ml between 250 and 10000);
+
+-- food_summary gains hydration columns. The return type changes, so the
+-- function has to be dropped rather than replaced. Days with only drinks
+-- logged are included with zero food entries.
+drop function if exists public.food_summary(timestamptz, timestamptz, text);
+
+create function public.food_summary(range_start timestamptz, range_end timestamptz, tz text default 'UTC')
+returns table (
+  day date,
+  entries integer,
+  calories integer,
+  protein numeric,
+  carbs numeric,
+  fat numeric,
+  fiber numeric,
+  rated_entries integer,
+  average_rating numeric,
+  meal_counts jsonb,
+  water_ml integer,
+  drinks integer,
+  caffeinated_drinks integer,
+  alcoholic_drinks integer
+)
+language sql
+stable
+set search_path = public
+as $$
+  with scoped as (
+    select (f.created_at at time zone tz)::date as day, f.*
+    from food_entries f
+    where f.user_id = auth.uid()
+      and f.created_at >= range_start
+      and f.created_at < range_end
+  ),
+  meals as (
+    select m.day, jsonb_object_agg(m.meal_type, m.n) as meal_counts
+    from (select s.day, s.meal_type, count(*)::integer as n from scoped s group by s.day, s.meal_type) m
+    group by m.day
+  ),
+  food as (
+    select
+      s.day,
+      count(*)::integer as entries,
+      coalesce(sum(s.calories), 0)::integer as calories,
+      coalesce(sum(s.protein), 0) as protein,
+      coalesce(sum(s.carbs), 0) as carbs,
+      coalesce(sum(s.fat), 0) as fat,
+      coalesce(sum(s.fiber), 0) as fiber,
+      count(s.rating)::integer as rated_entries,
+      round(avg(s.rating), 2) as average_rating
+    from scoped s
+    group by s.day
+  ),
+  drinks as (
+    select
+      (b.created_at at time zone tz)::date as day,
+      coalesce(sum(b.volume_ml) filter (where not b.alcohol), 0)::integer as water_ml,
+      count(*)::integer as drinks,
+      (count(*) filter (where b.caffeine))::integer as caffeinated_drinks,
+      (count(*) filter (where b.alcohol))::integer as alcoholic_drinks
+    from beverage_entries b
+    where b.user_id = auth.uid()
+      and b.created_at >= range_start
+      and b.created_at < range_end
+    group by 1
+  )
+  select
+    coalesce(f.day, d.day),
+    coalesce(f.entries, 0),
+    coalesce(f.calories, 0),
+    coalesce(f.protein, 0),
+    coalesce(f.carbs, 0),
+    coalesce(f.fat, 0),
+    coalesce(f.fiber, 0),
+    coalesce(f.rated_entries, 0),
+    f.average_rating,
+    coalesce(m.meal_counts, '{}'::jsonb),
+    coalesce(d.water_ml, 0),
+    coalesce(d.drinks, 0),
+    coalesce(d.caffeinated_drinks, 0),
+    coalesce(d.alcoholic_drinks, 0)
+  from food f
+  left join meals m on m.day = f.day
+  full join drinks d on d.day = f.day
+  order by 1;
+$$;
+
+grant execute on function public.food_summary(timestamptz, timestamptz, text) to authenticated;
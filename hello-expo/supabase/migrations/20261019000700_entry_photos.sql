@@ -0,0 +1,36 @@
+-- Photos attached to food and mood entries. Image files live in the private
+-- `entry-photos` Storage bucket under `<user id>/<kind>/<entry id>/`; rows here
+-- record their paths. `entry_id` is deliberately not a foreign key: photos
+-- are uploaded independently of the entry outbox and may land before their
+-- entry syncs, and undoing a delete recreates the entry under the same id.
+create table if not exists public.entry_photos (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  entry_kind text not null check (entry_kind in ('food', 'mood')),
+  entry_id uuid not null,
+  path text not null,
+  thumbnail_path text not null,
+  width integer not null check (width > 0),
+  height integer not null check (height > 0),
+  position smallint not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists entry_photos_entry_idx on public.entry_photos (entry_kind, entry_id, position);
+
+alter table public.entry_photos enable row level security;
+
+drop policy if exists "Users manage their own entry photos" on public.entry_photos;
+create policy "Users manage their own entry photos" on public.entry_photos
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+insert into storage.buckets (id, name, public)
+values ('entry-photos', 'entry-photos', false)
+on conflict (id) do nothing;
+
+-- The first folder of every object path is the owner's user id
+drop policy if exists "Users manage their own photo files" on storage.objects;
+create policy "Users manage their own photo files" on storage.objects
+  for all to authenticated
+  using (bucket_id = 'entry-photos' and (storage.foldername(name))[1] = auth.uid()::text)
+  with check (bucket_id = 'entry-photos' and (storage.foldername(name))[1] = auth.uid()::text);
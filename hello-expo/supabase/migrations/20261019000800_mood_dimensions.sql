@@ -0,0 +1,13 @@
+-- Richer mood check-ins. `mood` stays the overall score; the new columns
+-- are optional so quick entries and rows logged before this still work.
+-- Energy, anxiety and sleep quality use the same 1-5 scale as mood.
+alter table public.data
+  add column if not exists energy smallint check (energy between 1 and 5),
+  add column if not exists anxiety smallint check (anxiety between 1 and 5),
+  add column if not exists sleep_hours numeric(3, 1) check (sleep_hours between 0 and 24),
+  add column if not exists sleep_quality smallint check (sleep_quality between 1 and 5),
+  add column if not exists tags text[] not null default '{}'
+    check (cardinality(tags) <= 10);
+
+-- Filtering entries by tag ("show every day tagged exercise")
+create index if not exists data_tags_idx on public.data using gin (tags);
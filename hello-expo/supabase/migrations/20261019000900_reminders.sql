@@ -0,0 +1,6 @@
+-- Local reminder schedules. Notifications are scheduled on the device, so
+-- this only stores the settings to restore them after signing in again or
+-- on another phone. Times are minutes after local midnight; see
+-- lib/reminders.ts for the shape. Null means no reminders.
+alter table public.profiles
+  add column if not exists reminders jsonb check (jsonb_typeof(reminders) = 'object');
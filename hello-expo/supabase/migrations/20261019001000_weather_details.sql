@@ -0,0 +1,11 @@
+-- Fuller weather readings on mood entries. `weather` keeps the condition
+-- name and `temperature` stays in °C; the code is the provider's condition
+-- id (OpenWeatherMap's scheme), pressure is in hPa at sea level.
+-- weather_observed_at records which time the reading is for, which differs
+-- from created_at when an entry saved offline was backfilled later.
+alter table public.data
+  add column if not exists weather_code smallint,
+  add column if not exists humidity smallint check (humidity between 0 and 100),
+  add column if not exists pressure numeric(6, 1) check (pressure > 0),
+  add column if not exists daylight_hours numeric(4, 2) check (daylight_hours between 0 and 24),
+  add column if not exists weather_observed_at timestamptz;
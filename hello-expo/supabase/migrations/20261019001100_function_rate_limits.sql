@@ -0,0 +1,49 @@
+-- Per-user call counts for the Edge Functions in supabase/functions. Edge
+-- isolates don't share memory, so the limit has to live in the database.
+-- Each (user, function) pair has one fixed window that restarts once it
+-- has elapsed. Clients never read this table; only consume_rate_limit does.
+create table if not exists public.function_rate_limits (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  function_name text not null,
+  window_start timestamptz not null default now(),
+  calls integer not null default 0,
+  primary key (user_id, function_name)
+);
+
+alter table public.function_rate_limits enable row level security;
+
+-- Counts one call by the calling user and says whether it is within the limit
+create or replace function public.consume_rate_limit(fn text, max_calls integer, window_seconds integer)
+returns boolean
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  used integer;
+begin
+  if uid is null then
+    return false;
+  end if;
+
+  insert into function_rate_limits as r (user_id, function_name, window_start, calls)
+  values (uid, fn, now(), 1)
+  on conflict (user_id, function_name) do update
+    set window_start = case
+          when r.window_start <= now() - make_interval(secs => window_seconds) then now()
+          else r.window_start
+        end,
+        calls = case
+          when r.window_start <= now() - make_interval(secs => window_seconds) then 1
+          else r.calls + 1
+        end
+  returning calls into used;
+
+  return used <= max_calls;
+end;
+$$;
+
+revoke all on function public.consume_rate_limit(text, integer, integer) from public;
+grant execute on function public.consume_rate_limit(text, integer, integer) to authenticated;
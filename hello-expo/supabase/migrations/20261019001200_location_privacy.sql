@@ -0,0 +1,32 @@
+-- Location privacy. `location_precision` decides how much of a position the
+-- app stores with a mood entry: 'exact' keeps the GPS fix, 'coarse' rounds
+-- it to two decimals (~1 km) and 'city' to one decimal plus the city name.
+-- Saved places let entries show "Home" or "Office" instead of coordinates;
+-- `location_label` snapshots the place or city name so entries keep it if
+-- the place is later deleted.
+alter table public.profiles
+  add column if not exists location_precision text not null default 'exact'
+    check (location_precision in ('exact', 'coarse', 'city'));
+
+create table if not exists public.places (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 40),
+  lat double precision not null check (lat between -90 and 90),
+  lng double precision not null check (lng between -180 and 180),
+  radius_m integer not null default 200 check (radius_m between 50 and 5000),
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.places enable row level security;
+
+drop policy if exists "Users manage their own places" on public.places;
+create policy "Users manage their own places" on public.places
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.data
+  add column if not exists place_id uuid references public.places (id) on delete set null,
+  add column if not exists location_label text check (char_length(location_label) <= 80);
+
+create index if not exists data_user_place_idx on public.data (user_id, place_id) where place_id is not null;
@@ -0,0 +1,24 @@
+-- Editable profile: an avatar plus display preferences. `timezone`, `units`
+-- and `week_start` are null until the user picks one, in which case the app
+-- follows the device's settings. Avatars live in the private `avatars`
+-- Storage bucket under `<user id>/`, like entry photos.
+alter table public.profiles
+  add column if not exists avatar_path text,
+  add column if not exists timezone text check (char_length(timezone) between 1 and 64),
+  add column if not exists units text check (units in ('metric', 'imperial')),
+  -- 0 = Sunday, 1 = Monday, ... as in JavaScript's Date#getDay
+  add column if not exists week_start smallint check (week_start between 0 and 6);
+
+alter table public.profiles drop constraint if exists profiles_display_name_length;
+alter table public.profiles
+  add constraint profiles_display_name_length check (char_length(display_name) between 1 and 50);
+
+insert into storage.buckets (id, name, public)
+values ('avatars', 'avatars', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Users manage their own avatar files" on storage.objects;
+create policy "Users manage their own avatar files" on storage.objects
+  for all to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text)
+  with check (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,67 @@
+-- Lifetime statistics for the signed-in user, with calendar days in the
+-- caller's time zone. A day counts towards a logging streak if it has a mood
+-- or a food entry; the current streak survives until the end of today, so a
+-- streak through yesterday still counts. Runs as the definer to read the
+-- sign-up date from auth.users, so every query is limited to auth.uid().
+create or replace function public.user_stats(tz text default 'UTC')
+returns table (
+  mood_entries integer,
+  meals_logged integer,
+  current_streak integer,
+  longest_streak integer,
+  average_mood_30d numeric,
+  top_food text,
+  top_food_count integer,
+  joined_at timestamptz,
+  days_since_joining integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with logged_days as (
+    select (d.created_at at time zone tz)::date as day from data d where d.user_id = auth.uid()
+    union
+    select (f.created_at at time zone tz)::date from food_entries f where f.user_id = auth.uid()
+  ),
+  -- Consecutive days share the same day minus row number
+  runs as (
+    select max(l.day) as last_day, count(*)::integer as length
+    from (select day, day - (row_number() over (order by day))::integer as run from logged_days) l
+    group by l.run
+  ),
+  -- Names are matched case-insensitively and shown in their most common spelling
+  top_food as (
+    select mode() within group (order by f.food_name) as food_name, count(*)::integer as n
+    from food_entries f
+    where f.user_id = auth.uid()
+    group by lower(trim(f.food_name))
+    order by n desc, max(f.created_at) desc
+    limit 1
+  ),
+  joined as (
+    select u.created_at from auth.users u where u.id = auth.uid()
+  )
+  select
+    (select count(*)::integer from data d where d.user_id = auth.uid()),
+    (select count(*)::integer from food_entries f where f.user_id = auth.uid()),
+    coalesce((
+      select r.length from runs r
+      where r.last_day >= (now() at time zone tz)::date - 1
+      order by r.last_day desc
+      limit 1
+    ), 0),
+    coalesce((select max(r.length) from runs r), 0),
+    (
+      select round(avg(d.mood), 2) from data d
+      where d.user_id = auth.uid() and d.mood is not null and d.created_at >= now() - interval '30 days'
+    ),
+    (select t.food_name from top_food t),
+    coalesce((select t.n from top_food t), 0),
+    (select j.created_at from joined j),
+    (select (now() at time zone tz)::date - (j.created_at at time zone tz)::date from joined j);
+$$;
+
+revoke all on function public.user_stats(text) from public;
+grant execute on function public.user_stats(text) to authenticated;
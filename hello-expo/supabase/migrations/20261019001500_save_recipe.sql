@@ -0,0 +1,50 @@
+-- Saves a recipe and replaces its ingredient list in one transaction, so a
+-- failed request can't leave a recipe with half of its ingredients. Runs as
+-- the caller, so the row level security policies on both tables still apply.
+-- Ingredient order comes from the position in the `ingredients` array.
+create or replace function public.save_recipe(
+  name text,
+  servings numeric,
+  ingredients jsonb,
+  recipe_id uuid default null
+)
+returns uuid
+language plpgsql
+volatile
+security invoker
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  saved_id uuid;
+begin
+  insert into recipes as r (id, user_id, name, servings)
+  values (coalesce(save_recipe.recipe_id, gen_random_uuid()), auth.uid(), save_recipe.name, save_recipe.servings)
+  on conflict (id) do update
+    set name = excluded.name,
+        servings = excluded.servings,
+        updated_at = now()
+  returning r.id into saved_id;
+
+  delete from recipe_ingredients i where i.recipe_id = saved_id;
+
+  insert into recipe_ingredients (
+    recipe_id, user_id, position, food_name, serving_label, quantity, calories, protein, carbs, fat, fiber
+  )
+  select saved_id, auth.uid(), (item.position - 1)::smallint,
+         item.value ->> 'food_name',
+         item.value ->> 'serving_label',
+         (item.value ->> 'quantity')::numeric,
+         (item.value ->> 'calories')::integer,
+         (item.value ->> 'protein')::numeric,
+         (item.value ->> 'carbs')::numeric,
+         (item.value ->> 'fat')::numeric,
+         (item.value ->> 'fiber')::numeric
+  from jsonb_array_elements(coalesce(save_recipe.ingredients, '[]'::jsonb)) with ordinality as item (value, position);
+
+  return saved_id;
+end;
+$$;
+
+revoke all on function public.save_recipe(text, numeric, jsonb, uuid) from public;
+grant execute on function public.save_recipe(text, numeric, jsonb, uuid) to authenticated;
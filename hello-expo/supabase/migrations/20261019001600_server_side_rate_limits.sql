@@ -0,0 +1,58 @@
+-- Moves the Edge Function rate limits server-side. consume_rate_limit used to
+-- take the limit from its caller and was executable by any signed-in user,
+-- who could call it with a huge limit or run up someone else's count. The
+-- limits now live in function_rate_limit_settings, and only the service role
+-- (the Edge Functions, after verifying the caller's JWT) may count calls.
+create table if not exists public.function_rate_limit_settings (
+  function_name text primary key,
+  max_calls integer not null check (max_calls > 0),
+  window_seconds integer not null check (window_seconds > 0)
+);
+
+alter table public.function_rate_limit_settings enable row level security;
+
+insert into public.function_rate_limit_settings (function_name, max_calls, window_seconds)
+values
+  ('weather', 60, 3600),
+  ('nutrition', 120, 3600)
+on conflict (function_name) do nothing;
+
+drop function if exists public.consume_rate_limit(text, integer, integer);
+
+-- Counts one call by `caller` and says whether it is within the limit.
+-- Functions without a configured limit are refused rather than unmetered.
+create or replace function public.consume_rate_limit(caller uuid, fn text)
+returns boolean
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  setting function_rate_limit_settings%rowtype;
+  used integer;
+begin
+  select * into setting from function_rate_limit_settings s where s.function_name = fn;
+  if caller is null or not found then
+    return false;
+  end if;
+
+  insert into function_rate_limits as r (user_id, function_name, window_start, calls)
+  values (caller, fn, now(), 1)
+  on conflict (user_id, function_name) do update
+    set window_start = case
+          when r.window_start <= now() - make_interval(secs => setting.window_seconds) then now()
+          else r.window_start
+        end,
+        calls = case
+          when r.window_start <= now() - make_interval(secs => setting.window_seconds) then 1
+          else r.calls + 1
+        end
+  returning calls into used;
+
+  return used <= setting.max_calls;
+end;
+$$;
+
+revoke all on function public.consume_rate_limit(uuid, text) from public, anon, authenticated;
+grant execute on function public.consume_rate_limit(uuid, text) to service_role;